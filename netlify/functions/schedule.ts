@@ -1,14 +1,219 @@
 import type { Handler } from "@netlify/functions";
 import { getStore } from "@netlify/blobs";
+import { createHash, timingSafeEqual } from "node:crypto";
+import { checkWorkspace, leaveDecisionChanges } from "../../src/lib/workspace-schema";
 
 const STORE_NAME = "montana-wfm";
+// workspace ids become blob keys, so keep them to a safe slug
+const WORKSPACE_ID = /^[a-z0-9][a-z0-9_-]{0,63}$/;
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Methods": "GET,PUT,OPTIONS",
-  "Access-Control-Allow-Headers": "Content-Type,x-wfm-token",
+  "Access-Control-Allow-Methods": "GET,PUT,POST,DELETE,OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type,x-wfm-token,If-Match,If-None-Match",
+  "Access-Control-Expose-Headers": "x-wfm-role,ETag",
 };
 
+// stored user list; the leading "_" keeps it out of the workspace id space
+const USERS_KEY = "_users.json";
+
+// snapshots live under `_versions/<workspace>/<id>~<a|m>~<label>.json` (automatic / manual,
+// label URI-encoded), so listing them reads no blobs; older ones are `<id>.json` with that in
+// their metadata. Automatic ones are taken on a PUT when the last one is older than
+// WFM_SNAPSHOT_MINUTES, and only the newest WFM_SNAPSHOT_KEEP of them are kept (labelled
+// versions are never pruned)
+const VERSIONS_PREFIX = "_versions/";
+const SNAPSHOT_MINUTES = Number(process.env.WFM_SNAPSHOT_MINUTES) || 30;
+const SNAPSHOT_KEEP = Number(process.env.WFM_SNAPSHOT_KEEP) || 50;
+
+interface VersionInfo {
+  id: string;
+  savedAt: string;
+  label: string;
+  auto: boolean;
+}
+
+type Role = "viewer" | "editor" | "admin";
+const ROLE_RANK: Record<Role, number> = { viewer: 1, editor: 2, admin: 3 };
+
+/**
+ * One entry of WFM_USERS (env, JSON array) or of the stored `_users.json` list. `roles` maps a
+ * workspace id, or "*" for every workspace, to a role. Give either the token itself or its
+ * SHA-256 hex digest.
+ */
+interface WfmUser {
+  name: string;
+  token?: string;
+  tokenSha256?: string;
+  roles: Record<string, Role>;
+}
+
+const sha256 = (s: string) => createHash("sha256").update(s).digest();
+
+function tokenMatches(user: WfmUser, token: string) {
+  const given = sha256(token);
+  const expected = user.tokenSha256
+    ? Buffer.from(user.tokenSha256, "hex")
+    : user.token
+    ? sha256(user.token)
+    : undefined;
+  return !!expected && expected.length === given.length && timingSafeEqual(expected, given);
+}
+
+// each bad WFM_USERS / `_users.json` problem is logged once per instance, not per request
+const loggedUserProblems = new Set<string>();
+function logUsersOnce(message: string) {
+  if (loggedUserProblems.has(message)) return;
+  loggedUserProblems.add(message);
+  console.error(`[auth] ${message}`);
+}
+
+/**
+ * The entries of a user list that can sign in: objects with a string `token` or `tokenSha256`
+ * and `roles` of known roles (unknown roles are dropped). One bad entry must not break the
+ * lookup for everyone else, so the rest are skipped and logged.
+ */
+function validUsers(list: unknown, source: string): WfmUser[] {
+  if (!Array.isArray(list)) {
+    if (list != null) logUsersOnce(`${source} is not a list; ignored`);
+    return [];
+  }
+  const out: WfmUser[] = [];
+  list.forEach((u: unknown, i) => {
+    const entry = u && typeof u === "object" ? (u as Record<string, unknown>) : null;
+    const rawRoles = entry?.roles && typeof entry.roles === "object" ? entry.roles : {};
+    const roles = Object.fromEntries(
+      Object.entries(rawRoles).filter(([, r]) => typeof r === "string" && r in ROLE_RANK),
+    ) as Record<string, Role>;
+    const hasToken =
+      typeof entry?.token === "string" || typeof entry?.tokenSha256 === "string";
+    if (!entry || !hasToken || Object.keys(roles).length === 0) {
+      logUsersOnce(`${source}[${i}] skipped: needs a token or tokenSha256 and known roles`);
+      return;
+    }
+    out.push({
+      name: String(entry.name ?? ""),
+      ...(typeof entry.token === "string" ? { token: entry.token } : {}),
+      ...(typeof entry.tokenSha256 === "string" ? { tokenSha256: entry.tokenSha256 } : {}),
+      roles,
+    });
+  });
+  return out;
+}
+
+/**
+ * Users from WFM_USERS plus the shortcut lists WFM_ADMIN_TOKENS / WFM_EDITOR_TOKENS /
+ * WFM_VIEWER_TOKENS (comma-separated, every workspace).
+ */
+function envUsers(): WfmUser[] {
+  const out: WfmUser[] = [];
+  if (process.env.WFM_USERS) {
+    try {
+      out.push(...validUsers(JSON.parse(process.env.WFM_USERS), "WFM_USERS"));
+    } catch (err: any) {
+      // a typo in the env must not take every request down: use the token lists alone
+      logUsersOnce(`WFM_USERS is not valid JSON (${err?.message}); using the token lists`);
+    }
+  }
+  const lists: Array<[Role, string | undefined]> = [
+    ["admin", process.env.WFM_ADMIN_TOKENS],
+    ["editor", process.env.WFM_EDITOR_TOKENS],
+    ["viewer", process.env.WFM_VIEWER_TOKENS],
+  ];
+  for (const [role, list] of lists) {
+    for (const token of (list || "").split(",").map((t) => t.trim()).filter(Boolean)) {
+      out.push({ name: role, token, roles: { "*": role } });
+    }
+  }
+  return out;
+}
+
+function roleIn(user: WfmUser, workspace: string): Role | undefined {
+  return user.roles?.[workspace] ?? user.roles?.["*"];
+}
+
+function json(statusCode: number, body: unknown, headers: Record<string, string> = {}) {
+  return {
+    statusCode,
+    headers: { ...corsHeaders, ...headers },
+    body: JSON.stringify(body),
+  };
+}
+
+type BlobStore = ReturnType<typeof getStore>;
+
+/** "2026-10-19T08:15:00.123Z" → "20261019T081500123Z": sorts by time, safe as a key */
+function versionId(at: Date) {
+  return at.toISOString().replace(/[-:.]/g, "");
+}
+
+/** "20261019T081500123Z" → "2026-10-19T08:15:00.123Z" */
+function versionTime(id: string) {
+  const m = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(\d{3})Z$/.exec(id);
+  return m ? `${m[1]}-${m[2]}-${m[3]}T${m[4]}:${m[5]}:${m[6]}.${m[7]}Z` : "";
+}
+
+function versionKey(workspace: string, v: VersionInfo) {
+  const kind = v.auto ? "a" : "m";
+  return `${VERSIONS_PREFIX}${workspace}/${v.id}~${kind}~${encodeURIComponent(v.label)}.json`;
+}
+
+/** every snapshot with the blob it is stored in, newest first */
+async function listVersionBlobs(
+  store: BlobStore,
+  workspace: string,
+  idPrefix = "",
+): Promise<Array<VersionInfo & { key: string }>> {
+  const prefix = `${VERSIONS_PREFIX}${workspace}/`;
+  const { blobs } = await store.list({ prefix: prefix + idPrefix });
+  const versions = await Promise.all(
+    blobs.map(async (b) => {
+      const [id, kind, ...label] = b.key.slice(prefix.length, -".json".length).split("~");
+      if (kind) {
+        const info = { id, savedAt: versionTime(id), auto: kind === "a" };
+        return { ...info, label: decodeURIComponent(label.join("~")), key: b.key };
+      }
+      // stored before the key carried it
+      const meta = (await store.getMetadata(b.key))?.metadata ?? {};
+      return {
+        id,
+        savedAt: String(meta.savedAt ?? ""),
+        label: String(meta.label ?? ""),
+        auto: meta.auto !== false,
+        key: b.key,
+      };
+    }),
+  );
+  return versions.sort((a, b) => (a.id < b.id ? 1 : a.id > b.id ? -1 : 0));
+}
+
+async function listVersions(store: BlobStore, workspace: string): Promise<VersionInfo[]> {
+  const versions = await listVersionBlobs(store, workspace);
+  return versions.map(({ key: _key, ...info }) => info);
+}
+
+async function saveVersion(
+  store: BlobStore,
+  workspace: string,
+  data: unknown,
+  label: string,
+  auto: boolean,
+): Promise<VersionInfo> {
+  const at = new Date();
+  const info = { id: versionId(at), savedAt: at.toISOString(), label, auto };
+  await store.setJSON(versionKey(workspace, info), data);
+  if (auto) {
+    const all = await listVersionBlobs(store, workspace);
+    const stale = all.filter((v) => v.auto).slice(SNAPSHOT_KEEP);
+    for (const v of stale) await store.delete(v.key);
+  }
+  return info;
+}
+
+function etagHeader(etag: string | undefined): Record<string, string> {
+  return etag ? { ETag: etag } : {};
+}
+
 export const handler: Handler = async (event) => {
   const method = event.httpMethod || "GET";
   const workspace = event.queryStringParameters?.workspace || "montana";
@@ -23,20 +228,23 @@ export const handler: Handler = async (event) => {
     };
   }
 
+  if (!WORKSPACE_ID.test(workspace)) {
+    return json(400, {
+      error: "Invalid workspace",
+      detail: "Use lowercase letters, digits, '-' or '_' (max 64 characters)",
+    });
+  }
+
   try {
     const siteID = process.env.NETLIFY_SITE_ID;
     const token = process.env.NETLIFY_BLOBS_TOKEN;
 
     if (!siteID || !token) {
       console.error("[schedule] Missing NETLIFY_SITE_ID or NETLIFY_BLOBS_TOKEN");
-      return {
-        statusCode: 500,
-        headers: corsHeaders,
-        body: JSON.stringify({
-          error: "Missing blobs configuration",
-          detail: "NETLIFY_SITE_ID or NETLIFY_BLOBS_TOKEN not set",
-        }),
-      };
+      return json(500, {
+        error: "Missing blobs configuration",
+        detail: "NETLIFY_SITE_ID or NETLIFY_BLOBS_TOKEN not set",
+      });
     }
 
     const store = getStore({
@@ -45,48 +253,172 @@ export const handler: Handler = async (event) => {
       token,
     });
 
+    // who is calling: WFM_AUTH_DISABLED=true opts out (everyone is admin, e.g. local dev)
+    const authDisabled = process.env.WFM_AUTH_DISABLED === "true";
+    const stored = authDisabled ? null : await store.get(USERS_KEY, { type: "json" });
+    const users = authDisabled ? [] : [...envUsers(), ...validUsers(stored, USERS_KEY)];
+    const given = event.headers["x-wfm-token"] || "";
+    const user = given ? users.find((u) => tokenMatches(u, given)) : undefined;
+    if (!authDisabled && !user) {
+      return json(401, {
+        error: "Unauthorized",
+        detail: given ? "Unknown token" : "Missing x-wfm-token header",
+      });
+    }
+    const roleFor = (ws: string): Role | undefined => (user ? roleIn(user, ws) : "admin");
+    const role = roleFor(workspace);
+    const need =
+      method === "DELETE" ? "admin" : method === "PUT" || method === "POST" ? "editor" : "viewer";
+    const isList = method === "GET" && event.queryStringParameters?.list !== undefined;
+    if (!isList && (!role || ROLE_RANK[role] < ROLE_RANK[need])) {
+      return json(403, {
+        error: "Forbidden",
+        detail: `${need} role required on workspace "${workspace}"`,
+      });
+    }
+    const roleHeader: Record<string, string> = role ? { "x-wfm-role": role } : {};
+
+    // GET ?list → the workspaces the caller may at least view
+    if (isList) {
+      const { blobs } = await store.list();
+      const workspaces = blobs
+        .map((b) => b.key)
+        .filter((k) => k.endsWith(".json") && !k.startsWith("_"))
+        .map((k) => k.slice(0, -".json".length))
+        .filter((ws) => !!roleFor(ws))
+        .sort();
+      return json(200, { workspaces }, roleHeader);
+    }
+
+    const params = event.queryStringParameters || {};
+
+    // GET ?versions → snapshot list (newest first); GET ?version=<id> → one snapshot's data
+    if (method === "GET" && params.versions !== undefined) {
+      return json(200, { versions: await listVersions(store, workspace) }, roleHeader);
+    }
+    if (method === "GET" && params.version !== undefined) {
+      if (!/^[0-9TZ]+$/.test(params.version)) return json(400, { error: "Invalid version" });
+      const blob = (await listVersionBlobs(store, workspace, params.version)).find(
+        (v) => v.id === params.version,
+      );
+      const data = blob && (await store.get(blob.key, { type: "json" as const }));
+      if (!data) return json(404, { error: "Not found", detail: "No such version" });
+      return json(200, data, roleHeader);
+    }
+
+    // POST ?versions {label} → snapshot what is stored now under a label
+    if (method === "POST" && params.versions !== undefined) {
+      let body: any;
+      try {
+        body = JSON.parse(event.body || "{}");
+      } catch (err: any) {
+        return json(400, { error: "Invalid JSON", detail: String(err?.message || err) });
+      }
+      const data = await store.get(key, { type: "json" as const });
+      if (!data) return json(404, { error: "Not found", detail: "Nothing saved yet" });
+      const label = String(body?.label ?? "").slice(0, 120);
+      const version = await saveVersion(store, workspace, data, label, false);
+      return json(200, { version }, roleHeader);
+    }
+
+    // the blob's ETag is the workspace revision: GET hands it out, PUT may send it back
     if (method === "GET") {
-      const json = await store.get(key, { type: "json" as const });
-      return {
-        statusCode: 200,
-        headers: corsHeaders,
-        body: JSON.stringify(json || {}),
-      };
+      const entry = await store.getWithMetadata(key, { type: "json" as const });
+      return json(200, entry?.data || {}, { ...roleHeader, ...etagHeader(entry?.etag) });
     }
 
     if (method === "PUT") {
       if (!event.body) {
-        return {
-          statusCode: 400,
-          headers: corsHeaders,
-          body: JSON.stringify({ error: "Missing body" }),
-        };
+        return json(400, { error: "Missing body" });
       }
 
-      const payload = JSON.parse(event.body);
-      await store.setJSON(key, payload);
+      let body: unknown;
+      try {
+        body = JSON.parse(event.body);
+      } catch (err: any) {
+        return json(400, { error: "Invalid JSON", detail: String(err?.message || err) });
+      }
+      // older documents are upgraded to the current version before they are checked
+      const { doc: payload, issues } = checkWorkspace(body);
+      if (issues.length) {
+        const first = `${issues[0].path}: ${issues[0].message}`;
+        return json(400, {
+          error: "Invalid workspace",
+          detail: issues.length > 1 ? `${first} (+${issues.length - 1} more)` : first,
+          issues,
+        });
+      }
+      const previous = await store.getWithMetadata(key, { type: "json" as const });
+      // editors may request leave; approving, rejecting or changing decided leave is admin
+      // work. 422, not 403: the editor keeps editing, only this save is refused
+      const decided = role === "admin" ? [] : leaveDecisionChanges(previous?.data, payload);
+      if (decided.length) {
+        return json(
+          422,
+          {
+            error: "Leave decision refused",
+            detail: `only an admin may decide leave or set entitlements (${decided.join(", ")})`,
+            agents: decided,
+          },
+          roleHeader,
+        );
+      }
+      // snapshot what this PUT replaces when the last automatic snapshot is old enough (taken
+      // below, once the PUT has landed: a refused one must not move snapshotAt)
+      const lastAt = Date.parse(String(previous?.metadata?.snapshotAt ?? ""));
+      const snapshotDue = !!previous?.data && !(Date.now() - lastAt < SNAPSHOT_MINUTES * 60000);
+      const snapshotAt = snapshotDue
+        ? new Date().toISOString()
+        : Number.isNaN(lastAt)
+        ? undefined
+        : new Date(lastAt).toISOString();
+      const metadata = snapshotAt ? { snapshotAt } : {};
+      // If-Match: <etag> → only over that revision; If-None-Match: * → only if still empty;
+      // neither → unconditional (create / clone)
+      const ifMatch = event.headers["if-match"];
+      const ifNoneMatch = event.headers["if-none-match"];
+      const result = ifMatch
+        ? await store.setJSON(key, payload, { metadata, onlyIfMatch: ifMatch })
+        : ifNoneMatch === "*"
+        ? await store.setJSON(key, payload, { metadata, onlyIfNew: true })
+        : await store.setJSON(key, payload, { metadata });
 
-      return {
-        statusCode: 200,
-        headers: corsHeaders,
-        body: JSON.stringify({ ok: true }),
-      };
+      if (result && !result.modified) {
+        // someone saved in between: hand back what is stored now so the client can merge
+        const current = await store.getWithMetadata(key, { type: "json" as const });
+        return json(
+          409,
+          {
+            error: "Conflict",
+            detail: "The workspace was changed by someone else since you loaded it",
+            revision: current?.etag ?? null,
+            data: current?.data || {},
+          },
+          { ...roleHeader, ...etagHeader(current?.etag) },
+        );
+      }
+      if (snapshotDue) await saveVersion(store, workspace, previous.data, "", true);
+
+      return json(
+        200,
+        { ok: true, revision: result?.etag ?? null },
+        { ...roleHeader, ...etagHeader(result?.etag) },
+      );
     }
 
-    return {
-      statusCode: 405,
-      headers: corsHeaders,
-      body: JSON.stringify({ error: "Method not allowed" }),
-    };
+    if (method === "DELETE") {
+      await store.delete(key);
+      const { blobs } = await store.list({ prefix: `${VERSIONS_PREFIX}${workspace}/` });
+      for (const b of blobs) await store.delete(b.key);
+      return json(200, { ok: true }, roleHeader);
+    }
+
+    return json(405, { error: "Method not allowed" });
   } catch (err: any) {
     console.error("[schedule] error", err);
-    return {
-      statusCode: 500,
-      headers: corsHeaders,
-      body: JSON.stringify({
-        error: "Internal error",
-        detail: String(err?.message || err),
-      }),
-    };
+    return json(500, {
+      error: "Internal error",
+      detail: String(err?.message || err),
+    });
   }
 };
@@ -0,0 +1,214 @@
+import { createHash } from "node:crypto";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+// kept out of functions/, where every file is deployed as a function
+
+// an in-memory blob store: data, ETag and metadata per key
+const { blobs } = vi.hoisted(() => ({
+  blobs: new Map<string, { data: unknown; etag: string; metadata: Record<string, unknown> }>(),
+}));
+
+vi.mock("@netlify/blobs", () => {
+  let revision = 0;
+  const entry = (key: string) => blobs.get(key) ?? null;
+  return {
+    getStore: () => ({
+      get: async (key: string) => entry(key)?.data ?? null,
+      getMetadata: async (key: string) => entry(key),
+      getWithMetadata: async (key: string) => entry(key),
+      setJSON: async (
+        key: string,
+        data: unknown,
+        opts: {
+          metadata?: Record<string, unknown>;
+          onlyIfMatch?: string;
+          onlyIfNew?: boolean;
+        } = {},
+      ) => {
+        const current = entry(key);
+        if (opts.onlyIfMatch && current?.etag !== opts.onlyIfMatch) return { modified: false };
+        if (opts.onlyIfNew && current) return { modified: false };
+        const etag = `"r${++revision}"`;
+        blobs.set(key, { data, etag, metadata: opts.metadata ?? {} });
+        return { modified: true, etag };
+      },
+      delete: async (key: string) => void blobs.delete(key),
+      list: async ({ prefix = "" }: { prefix?: string } = {}) => ({
+        blobs: [...blobs.keys()].filter((k) => k.startsWith(prefix)).map((key) => ({ key })),
+      }),
+    }),
+  };
+});
+
+import { handler } from "./functions/schedule";
+
+interface Call {
+  method?: string;
+  query?: Record<string, string>;
+  token?: string;
+  headers?: Record<string, string>;
+  body?: string;
+}
+
+async function call({ method = "GET", query = {}, token, headers = {}, body }: Call) {
+  const res = (await handler(
+    {
+      httpMethod: method,
+      queryStringParameters: { workspace: "montana", ...query },
+      headers: { ...(token ? { "x-wfm-token": token } : {}), ...headers },
+      body: body ?? null,
+    } as never,
+    {} as never,
+  )) as { statusCode: number; headers: Record<string, string>; body: string };
+  return { ...res, json: JSON.parse(res.body || "null") };
+}
+
+const sha256Hex = (s: string) => createHash("sha256").update(s).digest("hex");
+
+beforeEach(() => {
+  blobs.clear();
+  vi.stubEnv("NETLIFY_SITE_ID", "site");
+  vi.stubEnv("NETLIFY_BLOBS_TOKEN", "blobs");
+  vi.stubEnv("WFM_USERS", "");
+  vi.stubEnv("WFM_ADMIN_TOKENS", "");
+  vi.stubEnv("WFM_EDITOR_TOKENS", "");
+  vi.stubEnv("WFM_VIEWER_TOKENS", "");
+  vi.stubEnv("WFM_AUTH_DISABLED", "");
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe("auth", () => {
+  it("turns away a missing or unknown token", async () => {
+    vi.stubEnv("WFM_ADMIN_TOKENS", "adm");
+    expect((await call({})).statusCode).toBe(401);
+    expect((await call({ token: "nope" })).statusCode).toBe(401);
+  });
+
+  it("skips malformed WFM_USERS entries, logs each once and signs in the rest", async () => {
+    const log = vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.stubEnv(
+      "WFM_USERS",
+      JSON.stringify([
+        null,
+        { name: "no token", roles: { "*": "admin" } },
+        { name: "number", token: 5, roles: { "*": "admin" } },
+        { name: "bad role", token: "root", roles: { "*": "root" } },
+        { name: "ed", token: "ed-token", roles: { montana: "editor" } },
+      ]),
+    );
+    const res = await call({ token: "ed-token" });
+    expect(res.statusCode).toBe(200);
+    expect(res.headers["x-wfm-role"]).toBe("editor");
+    expect((await call({ token: "root" })).statusCode).toBe(401);
+    const skipped = log.mock.calls.filter(([m]) => String(m).includes("WFM_USERS["));
+    expect(skipped).toHaveLength(4);
+  });
+
+  it("falls back to the token lists when WFM_USERS is not JSON", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.stubEnv("WFM_USERS", "[{");
+    vi.stubEnv("WFM_VIEWER_TOKENS", "view");
+    const res = await call({ token: "view" });
+    expect(res.statusCode).toBe(200);
+    expect(res.headers["x-wfm-role"]).toBe("viewer");
+  });
+
+  it("reads hashed tokens from the stored user list", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    blobs.set("_users.json", {
+      data: ["junk", { name: "s", tokenSha256: sha256Hex("secret"), roles: { "*": "viewer" } }],
+      etag: '"u"',
+      metadata: {},
+    });
+    const res = await call({ token: "secret" });
+    expect(res.statusCode).toBe(200);
+    expect(res.headers["x-wfm-role"]).toBe("viewer");
+    expect((await call({ method: "PUT", token: "secret", body: "{}" })).statusCode).toBe(403);
+  });
+});
+
+describe("workspace and versions", () => {
+  beforeEach(() => vi.stubEnv("WFM_EDITOR_TOKENS", "ed"));
+
+  const doc = { version: 2, agents: [] };
+  const put = (body: string, headers: Record<string, string> = {}) =>
+    call({ method: "PUT", token: "ed", body, headers });
+
+  it("answers a malformed body with 400", async () => {
+    expect((await put("{")).statusCode).toBe(400);
+    await put(JSON.stringify(doc));
+    const res = await call({ method: "POST", query: { versions: "" }, token: "ed", body: "{" });
+    expect(res.statusCode).toBe(400);
+    expect(res.json.error).toBe("Invalid JSON");
+  });
+
+  it("stores a labelled version and finds it by id, whatever the label", async () => {
+    await put(JSON.stringify(doc));
+    const label = "before 50% ~ cut / Q4";
+    const saved = await call({
+      method: "POST",
+      query: { versions: "" },
+      token: "ed",
+      body: JSON.stringify({ label }),
+    });
+    expect(saved.statusCode).toBe(200);
+    const list = await call({ query: { versions: "" }, token: "ed" });
+    expect(list.json.versions).toEqual([saved.json.version]);
+    expect(saved.json.version).toMatchObject({ label, auto: false });
+    const one = await call({ query: { version: saved.json.version.id }, token: "ed" });
+    expect(one.json).toEqual(doc);
+  });
+
+  it("refuses a stale revision with what is stored now, without a snapshot", async () => {
+    const first = await put(JSON.stringify(doc));
+    await put(JSON.stringify({ ...doc, brand: "theirs" }), { "if-match": first.headers.ETag });
+    const stale = await put(JSON.stringify({ ...doc, brand: "mine" }), {
+      "if-match": first.headers.ETag,
+    });
+    expect(stale.statusCode).toBe(409);
+    expect(stale.json.data.brand).toBe("theirs");
+    const list = await call({ query: { versions: "" }, token: "ed" });
+    expect(list.json.versions.filter((v: { auto: boolean }) => v.auto)).toHaveLength(1);
+  });
+});
+
+describe("leave decisions", () => {
+  beforeEach(() => {
+    vi.stubEnv("WFM_EDITOR_TOKENS", "ed");
+    vi.stubEnv("WFM_ADMIN_TOKENS", "adm");
+  });
+
+  const leave = (status: string) => ({
+    version: 2,
+    agents: [
+      {
+        name: "A",
+        country: "SA",
+        remote: false,
+        level: "mid",
+        fridayAllowed: false,
+        breakPref: "60",
+      },
+    ],
+    vacations: { A: [{ start: "2026-11-01", end: "2026-11-05", status }] },
+  });
+  const put = (token: string, doc: unknown) =>
+    call({ method: "PUT", token, body: JSON.stringify(doc) });
+
+  it("lets an editor request leave but not approve it", async () => {
+    expect((await put("ed", leave("pending"))).statusCode).toBe(200);
+    const refused = await put("ed", leave("approved"));
+    expect(refused.statusCode).toBe(422);
+    expect(refused.json.agents).toEqual(["A"]);
+    expect(blobs.get("montana.json")?.data).toEqual(leave("pending"));
+  });
+
+  it("lets an admin decide leave", async () => {
+    await put("ed", leave("pending"));
+    expect((await put("adm", leave("approved"))).statusCode).toBe(200);
+  });
+});
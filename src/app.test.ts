@@ -0,0 +1,190 @@
+import { describe, expect, it } from "vitest";
+import {
+  AUTO_PLAN_DEFAULT,
+  autoPlanRoster,
+  checkLaborRules,
+  diffPayloads,
+  effectiveWeek,
+  LABOR_RULES_DEFAULT,
+  mergePayloads,
+  ticketOutliers,
+  WEEKDAYS,
+  type Agent,
+  type DayBlock,
+  type Weekday,
+} from "./app";
+
+const agent = (name: string, over: Partial<Agent> = {}): Agent => ({
+  name,
+  country: "SA",
+  remote: false,
+  level: "mid",
+  fridayAllowed: true,
+  breakPref: "none",
+  ...over,
+});
+
+/** `count` agents needed from `from` to `to` (minutes) on the given days, nobody elsewhere */
+function required(days: Weekday[], from: number, to: number, count = 1) {
+  const out = {} as Record<Weekday, number[]>;
+  for (const d of WEEKDAYS) {
+    out[d] = Array.from({ length: 48 }, (_, k) =>
+      days.includes(d) && k * 30 >= from && k * 30 < to ? count : 0,
+    );
+  }
+  return out;
+}
+
+const workedDays = (plan: ReturnType<typeof autoPlanRoster>, name: string) =>
+  WEEKDAYS.filter((d) => plan[name][d].active);
+
+describe("autoPlanRoster", () => {
+  it("plans no shifts when nothing is required", () => {
+    const plan = autoPlanRoster([agent("A")], required([], 0, 0), AUTO_PLAN_DEFAULT);
+    expect(workedDays(plan, "A")).toEqual([]);
+  });
+
+  it("stops once another shift would only over-staff", () => {
+    const plan = autoPlanRoster(
+      [agent("A"), agent("B")],
+      required(["Monday"], 9 * 60, 17 * 60),
+      AUTO_PLAN_DEFAULT,
+    );
+    expect([...workedDays(plan, "A"), ...workedDays(plan, "B")]).toEqual(["Monday"]);
+  });
+
+  it("covers the required window", () => {
+    const settings = { ...AUTO_PLAN_DEFAULT, minShiftMins: 8 * 60, maxShiftMins: 8 * 60 };
+    const plan = autoPlanRoster([agent("A")], required(["Sunday"], 9 * 60, 17 * 60), settings);
+    expect(plan.A.Sunday).toMatchObject({
+      active: true,
+      segments: [{ startMin: 9 * 60, endMin: 17 * 60 }],
+    });
+  });
+
+  it("keeps to the day cap and leaves Friday to those who work it", () => {
+    const settings = { ...AUTO_PLAN_DEFAULT, maxDaysPerWeek: 3 };
+    const plan = autoPlanRoster(
+      [agent("A", { fridayAllowed: false })],
+      required([...WEEKDAYS], 9 * 60, 17 * 60),
+      settings,
+    );
+    const days = workedDays(plan, "A");
+    expect(days).toHaveLength(3);
+    expect(days).not.toContain("Friday");
+  });
+});
+
+describe("ticketOutliers", () => {
+  it("drops a day far off its weekday median", () => {
+    expect(ticketOutliers([90, 100, 110, 95, 105, 500])).toEqual([
+      false,
+      false,
+      false,
+      false,
+      false,
+      true,
+    ]);
+  });
+
+  it("keeps days close to the median when most days are equal (MAD 0)", () => {
+    expect(ticketOutliers([100, 100, 100, 100, 103])).toEqual([false, false, false, false, false]);
+    expect(ticketOutliers([0, 0, 0, 2])).toEqual([false, false, false, false]);
+  });
+
+  it("still drops a spike when most days are equal", () => {
+    expect(ticketOutliers([100, 100, 100, 100, 400])).toEqual([false, false, false, false, true]);
+  });
+});
+
+describe("mergePayloads", () => {
+  const day = { active: true, segments: [{ startMin: 540, endMin: 1020 }], activities: [] };
+  const mine = {
+    version: 2,
+    agents: [agent("A"), agent("B")],
+    roster: { A: { Monday: day }, B: { Monday: day } },
+    occupancy: 0.9,
+  };
+  const theirs = {
+    version: 2,
+    agents: [agent("A", { level: "senior" })],
+    roster: { A: { Monday: { ...day, active: false } } },
+  };
+  const items = diffPayloads(mine, theirs);
+  const pick = (side: "mine" | "theirs", ids: string[] = items.map((it) => it.id)) =>
+    mergePayloads(mine, theirs, items, Object.fromEntries(ids.map((id) => [id, side])));
+
+  it("keeps what is stored unless mine is picked", () => {
+    const merged = pick("theirs");
+    expect(merged.agents).toEqual(theirs.agents);
+    expect(merged.roster.A.Monday.active).toBe(false);
+  });
+
+  it("writes the picked items of mine over theirs", () => {
+    const merged = pick("mine", ["agents/B", "roster/B/Monday"]);
+    expect(merged.agents.map((a) => a.name)).toEqual(["A", "B"]);
+    expect(merged.agents[0].level).toBe("senior");
+    expect(merged.roster.B.Monday).toEqual(day);
+  });
+
+  it("drops the rows of agents the merge leaves out", () => {
+    const merged = pick("mine", ["roster/B/Monday"]);
+    expect(merged.roster.B).toBeUndefined();
+  });
+
+  it("leaves out a setting their copy lacks when theirs is picked", () => {
+    expect(items.map((it) => it.id)).toContain("occupancy");
+    expect("occupancy" in pick("theirs")).toBe(false);
+    expect(pick("mine").occupancy).toBe(0.9);
+  });
+});
+
+describe("labor rules on the week as worked", () => {
+  // the Saturday-first week of Monday 2026-10-19
+  const monday = "2026-10-19";
+  const shift = (from: number, to: number, lunch?: number): DayBlock => ({
+    active: true,
+    segments: [{ startMin: from, endMin: to }],
+    activities: lunch === undefined ? [] : [{ type: "lunch", startMin: lunch, mins: 60 }],
+  });
+  const nineToFive = shift(9 * 60, 17 * 60, 13 * 60);
+  const a = agent("A");
+  const roster = {
+    A: Object.fromEntries(
+      WEEKDAYS.map((d) => [d, d === "Friday" ? { ...nineToFive, active: false } : nineToFive]),
+    ) as Record<Weekday, DayBlock>,
+  };
+  const rules = { ...LABOR_RULES_DEFAULT, maxConsecutiveDays: 5 };
+  const rulesBroken = (week: Parameters<typeof checkLaborRules>[0]) =>
+    checkLaborRules(week, [a], rules).map((v) => `${v.rule}:${v.day ?? ""}`);
+
+  it("checks a date override, not the template it replaces", () => {
+    const overrides = { A: { [monday]: shift(8 * 60, 20 * 60) } };
+    const week = effectiveWeek(roster, overrides, [a], monday, {});
+    expect(week.A.Monday).toEqual(overrides.A[monday]);
+    expect(rulesBroken(week)).toEqual(
+      expect.arrayContaining(["maxShift:Monday", "break:Monday"]),
+    );
+    expect(rulesBroken(roster)).not.toContain("maxShift:Monday");
+  });
+
+  it("leaves out days on approved leave and company holidays", () => {
+    expect(rulesBroken(roster)).toContain("consecutive:Thursday");
+    const onLeave = effectiveWeek(roster, {}, [a], monday, {
+      A: [{ start: "2026-10-20", end: "2026-10-20", status: "approved" }],
+    });
+    expect(onLeave.A.Tuesday).toBeUndefined();
+    expect(rulesBroken(onLeave)).toEqual([]);
+    const holiday = { "2026-10-21": { name: "Holiday", multiplier: 1, holiday: true } };
+    const closed = effectiveWeek(roster, {}, [a], monday, {}, [], holiday);
+    expect(closed.A.Wednesday).toBeUndefined();
+    expect(rulesBroken(closed)).toEqual([]);
+  });
+
+  it("still counts days of leave that is only requested", () => {
+    const pending = effectiveWeek(roster, {}, [a], monday, {
+      A: [{ start: "2026-10-20", end: "2026-10-20", status: "pending" }],
+    });
+    expect(rulesBroken(pending)).toContain("consecutive:Thursday");
+  });
+});
@@ -17,7 +17,6 @@ import {
   Moon,
   Clock,
   Plus,
-  Minus,
   SlidersHorizontal,
   Activity,
   Upload,
@@ -26,6 +25,20 @@ import {
   Trash2,
   RotateCcw,
   UserPlus,
+  Coffee,
+  Pin,
+  PinOff,
+  Repeat,
+  Copy,
+  KeyRound,
+  Lock,
+  GitMerge,
+  History,
+  Undo2,
+  Redo2,
+  ShieldAlert,
+  Check,
+  Hourglass,
 } from "lucide-react";
 import {
   CartesianGrid,
@@ -33,11 +46,22 @@ import {
   ResponsiveContainer,
   ComposedChart,
   Bar,
+  Area,
   Legend,
   Line,
+  ReferenceLine,
   XAxis,
   YAxis,
 } from "recharts";
+import {
+  checkWorkspace,
+  isObject,
+  legacyChannelSettings,
+  upgradeBlock,
+  WORKSPACE_VERSION,
+  type SchemaIssue,
+  type WorkspaceDoc,
+} from "@/lib/workspace-schema";
 
 /* =====================================================================================
    CONSTANTS & TYPES
@@ -54,19 +78,74 @@ const WEEKDAYS = [
 ] as const;
 type Weekday = (typeof WEEKDAYS)[number];
 
-interface DayBlock {
-  active: boolean;
+interface WorkSegment {
   startMin: number;
   endMin: number;
-  breakStartMin?: number;
-  breakMins?: number;
+}
+
+const ACTIVITY_TYPES = ["break", "lunch", "meeting", "training"] as const;
+type ActivityType = (typeof ACTIVITY_TYPES)[number];
+
+/** Off-phone time inside a shift; none of it counts as coverage */
+interface Activity {
+  type: ActivityType;
+  startMin: number;
+  mins: number;
+  /** pinned activities are left alone by the break stagger pass */
+  pinned?: boolean;
+}
+
+/**
+ * One agent's day on a weekday: ordered work segments (split shifts) plus breaks and
+ * other activities. Times are minutes after 00:00; anything before the first segment's
+ * start (or a segment end at/before that start) falls after midnight, so the shift
+ * spills into the next weekday.
+ */
+interface DayBlock {
+  active: boolean;
+  segments: WorkSegment[];
+  activities: Activity[];
 }
 
 /** Roster keyed by agent name → weekday → block */
 type Roster = Record<string, Record<Weekday, DayBlock>>;
 
-/** Vacations keyed by agent name → array of ranges (inclusive) */
-type Vacations = Record<string, Array<{ start: string; end: string }>>;
+/** Date overrides keyed by agent name → ISO date → block (weekday template is the fallback) */
+type RosterOverrides = Record<string, Record<string, DayBlock>>;
+
+type LeaveStatus = "pending" | "approved" | "rejected";
+
+/** one leave request (inclusive range); ranges from before requests have no status = approved */
+interface LeaveRange {
+  start: string;
+  end: string;
+  status?: LeaveStatus;
+  /** the reason given with the request */
+  note?: string;
+  requestedAt?: string;
+  /** the admin's decision */
+  decidedAt?: string;
+  comment?: string;
+}
+
+/** Leave keyed by agent name → requests; only approved ones take the agent off the roster */
+type Vacations = Record<string, LeaveRange[]>;
+
+/** paid annual leave in working days when the agent has no entitlement of its own */
+const ANNUAL_LEAVE_DAYS_DEFAULT = 21;
+
+/** a public holiday, Eid, a sale day… (SpecialDays is keyed by ISO date) */
+interface SpecialDay {
+  name: string;
+  /** the day's volume × this; 1 = unchanged */
+  multiplier: number;
+  /** replaces the weekday and channel intraday profiles for the day */
+  hourlyPct?: number[];
+  /** company holiday: agents are off unless they have a date override */
+  holiday?: boolean;
+}
+
+type SpecialDays = Record<string, SpecialDay>;
 
 type Level = "junior" | "mid" | "senior";
 
@@ -77,6 +156,96 @@ interface Agent {
   level: Level;
   fridayAllowed: boolean;
   breakPref: "none" | "60";
+  /** id of the RotationGroup the agent follows; unset = the plain weekday template */
+  rotationGroup?: string;
+  /** skills the agent can take; unset = every skill at full proficiency */
+  skills?: AgentSkill[];
+  /** IANA zone the agent works from; unset = by `country` (COUNTRY_TIMEZONES), else the site's */
+  timezone?: string;
+  /** working days of leave a year; unset = ANNUAL_LEAVE_DAYS_DEFAULT */
+  annualLeaveDays?: number;
+}
+
+/** the site's zone: roster times, coverage and the forecast are all in it */
+const SITE_TIMEZONE_DEFAULT = "Asia/Riyadh";
+
+/** zone an agent works from when none is set, by country code */
+const COUNTRY_TIMEZONES: Record<string, string> = {
+  SA: "Asia/Riyadh",
+  EG: "Africa/Cairo",
+  PK: "Asia/Karachi",
+  AE: "Asia/Dubai",
+  JO: "Asia/Amman",
+  KW: "Asia/Kuwait",
+  BH: "Asia/Bahrain",
+  QA: "Asia/Qatar",
+  OM: "Asia/Muscat",
+  LB: "Asia/Beirut",
+  IN: "Asia/Kolkata",
+  TR: "Europe/Istanbul",
+  MA: "Africa/Casablanca",
+  GB: "Europe/London",
+};
+
+/** offered by the site zone picker (any valid IANA zone is accepted for an agent) */
+const TIMEZONE_OPTIONS = Array.from(new Set([...Object.values(COUNTRY_TIMEZONES), "UTC"]));
+
+/** 1 = learning, 2 = capable, 3 = expert */
+type Proficiency = 1 | 2 | 3;
+
+interface AgentSkill {
+  skill: string;
+  proficiency: Proficiency;
+}
+
+/** a queue demand is split into, e.g. a language or a ticket type */
+interface Skill {
+  id: string;
+  name: string;
+  /** share of the demand routed to this skill (%); normalised across skills */
+  sharePct: number;
+}
+
+const PROFICIENCY_LABELS: Record<Proficiency, string> = {
+  1: "Learning",
+  2: "Capable",
+  3: "Expert",
+};
+
+/** how much of a fully proficient agent one agent counts for on a skill */
+const PROFICIENCY_FACTOR: Record<Proficiency, number> = { 1: 0.5, 2: 0.8, 3: 1 };
+
+const SKILLS_DEFAULT: Skill[] = [
+  { id: "arabic", name: "Arabic", sharePct: 50 },
+  { id: "english", name: "English", sharePct: 35 },
+  { id: "vip", name: "VIP", sharePct: 5 },
+  { id: "refunds", name: "Refunds", sharePct: 10 },
+];
+
+/**
+ * N-week rotation cycle. Week 1 starts on `anchorDate` and the cycle repeats from there;
+ * `weeks[i]` holds the members' blocks for week i+1, keyed like `Roster`.
+ */
+interface RotationGroup {
+  id: string;
+  name: string;
+  anchorDate: string;
+  weeks: Roster[];
+}
+
+/**
+ * Ramadan, summer hours… a date range (inclusive) that brings its own weekday template,
+ * demand and shift cap. Inside it rotations are not applied.
+ */
+interface SeasonalPeriod {
+  id: string;
+  name: string;
+  start: string;
+  end: string;
+  roster: Roster;
+  hourlyPctByDay: Record<Weekday, number[]>;
+  dailyAvg: Record<Weekday, number>;
+  maxShiftMins: number;
 }
 
 /** Montana hourly load distribution (24h) – from Montana ticket profile */
@@ -100,10 +269,8 @@ const DAILY_AVG_DEFAULT: Record<Weekday, number> = {
 
 const DEFAULT_DAY: DayBlock = {
   active: true,
-  startMin: 9 * 60,
-  endMin: 17 * 60,
-  breakStartMin: 13 * 60,
-  breakMins: 60,
+  segments: [{ startMin: 9 * 60, endMin: 17 * 60 }],
+  activities: [{ type: "lunch", startMin: 13 * 60, mins: 60 }],
 };
 
 /* =====================================================================================
@@ -111,8 +278,264 @@ const DEFAULT_DAY: DayBlock = {
 ===================================================================================== */
 
 const API_BASE = "/.netlify/functions/schedule";
-const WORKSPACE = "montana";
-const TOKEN = (import.meta as any).env?.VITE_WFM_TOKEN as string | undefined;
+const DEFAULT_WORKSPACE = "montana";
+/** last workspace opened in this browser */
+const WORKSPACE_STORAGE_KEY = "montana-wfm.workspace";
+/** build-time fallback token; a token entered in the app (stored per browser) wins */
+const TOKEN = (import.meta as ImportMeta & { env?: Record<string, string | undefined> }).env
+  ?.VITE_WFM_TOKEN;
+const TOKEN_STORAGE_KEY = "montana-wfm.token";
+/** date the schedule is looking at, per browser and workspace (view state, never saved) */
+const DATE_STORAGE_PREFIX = "montana-wfm.date.";
+
+/** what the function grants the token on a workspace (read from the `x-wfm-role` header) */
+type Role = "viewer" | "editor" | "admin";
+
+/** what the function puts in an error answer (all optional; older versions send less) */
+interface CloudErrorBody {
+  error?: string;
+  detail?: string;
+  /** 409: what is stored now, and its revision */
+  data?: unknown;
+  revision?: string | null;
+  /** 422: agents whose leave the save would have decided */
+  agents?: string[];
+  /** 400: what failed the schema */
+  issues?: SchemaIssue[];
+}
+
+/**
+ * non-2xx answer from the schedule function; 401 = no / unknown token, 403 = role too low,
+ * 409 = stale revision (`body` then carries the stored data and its revision), 422 = a save
+ * that decides leave without the admin role (`body.agents` names whose leave)
+ */
+class CloudError extends Error {
+  constructor(
+    public status: number,
+    public detail: string,
+    public body?: CloudErrorBody,
+  ) {
+    super(`${status} ${detail}`);
+  }
+}
+
+function workspaceUrl(workspace: string) {
+  return `${API_BASE}?workspace=${encodeURIComponent(workspace)}`;
+}
+
+function authHeaders(token: string): Record<string, string> {
+  return token ? { "x-wfm-token": token } : {};
+}
+
+async function cloudFetch(url: string, token: string, init: RequestInit = {}) {
+  const res = await fetch(url, {
+    ...init,
+    headers: {
+      "content-type": "application/json",
+      ...authHeaders(token),
+      ...(init.headers as Record<string, string> | undefined),
+    },
+  });
+  if (!res.ok) {
+    let detail = res.statusText;
+    let body: CloudErrorBody | undefined;
+    try {
+      body = await res.json();
+      detail = body?.detail || body?.error || detail;
+    } catch {
+      // not JSON – keep the status text
+    }
+    throw new CloudError(res.status, detail, body);
+  }
+  return res;
+}
+
+function isAuthError(e: unknown): e is CloudError {
+  return e instanceof CloudError && (e.status === 401 || e.status === 403);
+}
+
+function isConflict(e: unknown): e is CloudError {
+  return e instanceof CloudError && e.status === 409;
+}
+
+function isLeaveRefused(e: unknown): e is CloudError {
+  return e instanceof CloudError && e.status === 422;
+}
+
+/** "Montana KSA" → "montana-ksa" (the id format the function accepts) */
+function workspaceSlug(name: string) {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9_-]+/g, "-")
+    .replace(/^[-_]+|-+$/g, "")
+    .slice(0, 64);
+}
+
+async function listWorkspaces(token: string): Promise<string[]> {
+  const res = await cloudFetch(`${API_BASE}?list`, token);
+  const json = await res.json();
+  return Array.isArray(json?.workspaces) ? json.workspaces : [];
+}
+
+async function fetchWorkspace(workspace: string, token: string) {
+  const res = await cloudFetch(workspaceUrl(workspace), token);
+  let data: WorkspaceDoc = {};
+  try {
+    const json: unknown = await res.json();
+    if (isObject(json)) data = json;
+  } catch {
+    data = {};
+  }
+  return {
+    data,
+    role: (res.headers.get("x-wfm-role") as Role | null) ?? null,
+    revision: res.headers.get("etag"),
+  };
+}
+
+/**
+ * `revision` is the ETag the data was loaded at: the PUT only lands on top of it (409
+ * otherwise). `null` = loaded an empty workspace, so only write if it is still empty;
+ * omitted = overwrite whatever is there (create / clone). Resolves to the new revision.
+ */
+async function putWorkspace(
+  workspace: string,
+  payload: WorkspaceDoc,
+  token: string,
+  revision?: string | null,
+): Promise<string | null> {
+  const headers: Record<string, string> =
+    revision === undefined ? {} : revision ? { "If-Match": revision } : { "If-None-Match": "*" };
+  const res = await cloudFetch(workspaceUrl(workspace), token, {
+    method: "PUT",
+    headers,
+    body: JSON.stringify(payload),
+  });
+  return res.headers.get("etag");
+}
+
+async function deleteWorkspace(workspace: string, token: string) {
+  await cloudFetch(workspaceUrl(workspace), token, { method: "DELETE" });
+}
+
+/** a stored snapshot of a workspace: automatic (taken on save) or labelled by hand */
+interface VersionInfo {
+  id: string;
+  savedAt: string;
+  label: string;
+  auto: boolean;
+}
+
+async function listVersions(workspace: string, token: string): Promise<VersionInfo[]> {
+  const res = await cloudFetch(`${workspaceUrl(workspace)}&versions`, token);
+  const json = await res.json();
+  return Array.isArray(json?.versions) ? json.versions : [];
+}
+
+async function fetchVersion(workspace: string, id: string, token: string) {
+  const res = await cloudFetch(
+    `${workspaceUrl(workspace)}&version=${encodeURIComponent(id)}`,
+    token,
+  );
+  return res.json();
+}
+
+/** snapshot what is stored now (flush pending edits first) under `label` */
+async function saveVersion(workspace: string, label: string, token: string): Promise<VersionInfo> {
+  const res = await cloudFetch(`${workspaceUrl(workspace)}&versions`, token, {
+    method: "POST",
+    body: JSON.stringify({ label }),
+  });
+  return (await res.json()).version;
+}
+
+/**
+ * A stored document upgraded to WORKSPACE_VERSION and checked against the schema; top-level
+ * fields with problems are left out, so the app keeps its defaults for them.
+ */
+function readWorkspaceDoc(raw: unknown) {
+  const { doc, issues } = checkWorkspace(raw);
+  const bad = new Set(issues.map((i) => i.path.split(/[.[]/)[0]));
+  const out = Object.fromEntries(Object.entries(doc).filter(([k]) => !bad.has(k)));
+  return { doc: out as StoredWorkspace, issues };
+}
+
+/**
+ * A document readWorkspaceDoc let through: each field present passed the schema. Blocks,
+ * groups, skills and channels still go through their migrate* helpers.
+ */
+interface StoredWorkspace {
+  agents?: Agent[];
+  roster?: unknown;
+  overrides?: unknown;
+  rotationGroups?: unknown;
+  seasonalPeriods?: SeasonalPeriod[];
+  skills?: unknown;
+  dailyAvg?: Record<Weekday, number>;
+  hourlyPctByDay?: Record<Weekday, number[]>;
+  volumeHistory?: Record<string, number>;
+  forecastWeeks?: number;
+  specialDays?: SpecialDays;
+  channels?: unknown;
+  occupancy?: number;
+  serviceBuffer?: number;
+  staffingModel?: StaffingModel;
+  asaTargetSec?: number;
+  patienceSec?: number;
+  siteTimezone?: string;
+  vacations?: Vacations;
+  autoPlanSettings?: Partial<AutoPlanSettings>;
+  laborRules?: Partial<LaborRules>;
+  version?: number;
+  [key: string]: unknown;
+}
+
+function versionTitle(v: VersionInfo) {
+  const name = v.label || (v.auto ? "Automatic" : "Version");
+  return `${name} · ${new Date(v.savedAt).toLocaleString()}`;
+}
+
+/** last known copy of each workspace in this browser, plus whether it still has to be sent */
+const CACHE_STORAGE_PREFIX = "montana-wfm.cache.";
+
+interface WorkspaceCache {
+  doc: WorkspaceDoc;
+  /** revision `doc` was built on (see putWorkspace) */
+  revision?: string | null;
+  /** edits made since the cloud last confirmed a save; the latest `doc` carries all of them */
+  pending: number;
+  cachedAt: string;
+}
+
+function readCache(workspace: string): WorkspaceCache | null {
+  try {
+    const raw = localStorage.getItem(CACHE_STORAGE_PREFIX + workspace);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeCache(workspace: string, cache: Omit<WorkspaceCache, "cachedAt">) {
+  try {
+    localStorage.setItem(
+      CACHE_STORAGE_PREFIX + workspace,
+      JSON.stringify({ ...cache, cachedAt: new Date().toISOString() }),
+    );
+  } catch (e) {
+    // quota or private mode: the app still works, it just cannot start offline
+    console.warn("[cache] write failed", e);
+  }
+}
+
+/** the function could not be reached at all (fetch threw), as opposed to answering non-2xx */
+function isNetworkError(e: unknown) {
+  return !(e instanceof CloudError);
+}
+
+/** how often an unreachable function is retried while edits are waiting */
+const SYNC_RETRY_MS = 30000;
 
 function debounce<T extends (...args: any[]) => void>(fn: T, ms = 800) {
   let t: number | undefined;
@@ -122,6 +545,210 @@ function debounce<T extends (...args: any[]) => void>(fn: T, ms = 800) {
   };
 }
 
+/** JSON with object keys sorted, so equal data compares equal whatever the key order */
+function stableJSON(v: unknown): string {
+  if (Array.isArray(v)) return `[${v.map(stableJSON).join(",")}]`;
+  if (v && typeof v === "object") {
+    const o = v as Record<string, unknown>;
+    const keys = Object.keys(o)
+      .filter((k) => o[k] !== undefined)
+      .sort();
+    return `{${keys.map((k) => `${JSON.stringify(k)}:${stableJSON(o[k])}`).join(",")}}`;
+  }
+  return JSON.stringify(v) ?? "null";
+}
+
+/**
+ * One piece of the workspace that differs between two payloads – my unsaved state vs what
+ * is stored (save conflict), or now vs a stored version (history) – kept or dropped as a
+ * unit. `path` is ["agents", name], [root, agent, weekday | date], ["vacations", name] or
+ * [settingKey].
+ */
+interface ConflictItem {
+  id: string;
+  group: "Agents" | "Days" | "Vacations" | "Forecast" | "Settings";
+  label: string;
+  path: string[];
+  mine: unknown;
+  theirs: unknown;
+}
+
+type ConflictChoice = "mine" | "theirs";
+
+/** top-level payload keys resolved as a whole in a conflict */
+const CONFLICT_SETTINGS: Array<[string, ConflictItem["group"], string]> = [
+  ["dailyAvg", "Forecast", "Daily volumes"],
+  ["hourlyPctByDay", "Forecast", "Intraday profiles"],
+  ["volumeHistory", "Forecast", "Volume history"],
+  ["specialDays", "Forecast", "Special days"],
+  ["forecastWeeks", "Forecast", "Forecast history weeks"],
+  ["channels", "Forecast", "Channels"],
+  ["occupancy", "Forecast", "Max occupancy"],
+  ["serviceBuffer", "Forecast", "Service buffer"],
+  ["staffingModel", "Forecast", "Staffing model"],
+  ["asaTargetSec", "Forecast", "ASA target"],
+  ["patienceSec", "Forecast", "Patience"],
+  ["skills", "Settings", "Skills"],
+  ["rotationGroups", "Settings", "Rotation groups"],
+  ["seasonalPeriods", "Settings", "Seasonal periods"],
+  ["autoPlanSettings", "Settings", "Auto plan settings"],
+  ["laborRules", "Settings", "Labor rules"],
+  ["siteTimezone", "Settings", "Site timezone"],
+];
+
+/** a stored or local payload with the same migrations the loader applies */
+interface PayloadView extends StoredWorkspace {
+  agents: Agent[];
+  roster: Roster;
+  overrides: RosterOverrides;
+  rotationGroups: RotationGroup[];
+  skills: Skill[];
+  channels: Record<Channel, ChannelConfig>;
+  vacations: Vacations;
+}
+
+function conflictView(raw: unknown): PayloadView {
+  const p: WorkspaceDoc = isObject(raw) ? raw : {};
+  return {
+    ...p,
+    agents: (Array.isArray(p.agents) ? p.agents : []) as Agent[],
+    roster: migrateRoster(p.roster),
+    overrides: migrateOverrides(p.overrides),
+    rotationGroups: migrateRotationGroups(
+      p.rotationGroups,
+      typeof p.siteTimezone === "string" && isValidTimezone(p.siteTimezone)
+        ? p.siteTimezone
+        : undefined,
+    ),
+    skills: migrateSkills(p.skills),
+    channels: migrateChannels(p),
+    vacations: (isObject(p.vacations) ? p.vacations : {}) as Vacations,
+  };
+}
+
+function diffPayloads(mineRaw: unknown, theirsRaw: unknown): ConflictItem[] {
+  const mine = conflictView(mineRaw);
+  const theirs = conflictView(theirsRaw);
+  const items: ConflictItem[] = [];
+  const add = (
+    group: ConflictItem["group"],
+    label: string,
+    path: string[],
+    a: unknown,
+    b: unknown,
+  ) => {
+    if (stableJSON(a) !== stableJSON(b)) {
+      items.push({ id: path.join("/"), group, label, path, mine: a, theirs: b });
+    }
+  };
+  const keysOf = (...objs: Array<Record<string, unknown> | undefined>) =>
+    Array.from(new Set(objs.flatMap((o) => Object.keys(o || {})))).sort();
+
+  const names = Array.from(new Set([...mine.agents, ...theirs.agents].map((a) => a.name)));
+  for (const name of names) {
+    const a = mine.agents.find((x: Agent) => x.name === name);
+    const b = theirs.agents.find((x: Agent) => x.name === name);
+    add("Agents", name, ["agents", name], a, b);
+  }
+  for (const name of keysOf(mine.roster, theirs.roster)) {
+    for (const d of WEEKDAYS) {
+      const a = mine.roster[name]?.[d];
+      add("Days", `${name} · ${d}`, ["roster", name, d], a, theirs.roster[name]?.[d]);
+    }
+  }
+  for (const name of keysOf(mine.overrides, theirs.overrides)) {
+    for (const date of keysOf(mine.overrides[name], theirs.overrides[name])) {
+      add(
+        "Days",
+        `${name} · ${date}`,
+        ["overrides", name, date],
+        mine.overrides[name]?.[date],
+        theirs.overrides[name]?.[date],
+      );
+    }
+  }
+  for (const name of keysOf(mine.vacations, theirs.vacations)) {
+    add("Vacations", name, ["vacations", name], mine.vacations[name], theirs.vacations[name]);
+  }
+  for (const [key, group, label] of CONFLICT_SETTINGS) {
+    add(group, label, [key], mine[key], theirs[key]);
+  }
+  return items;
+}
+
+/** what is stored, with the items I chose to keep mine written over it */
+function mergePayloads(
+  mineRaw: unknown,
+  theirsRaw: unknown,
+  items: ConflictItem[],
+  choices: Record<string, ConflictChoice>,
+) {
+  const mine = conflictView(mineRaw);
+  const out: PayloadView = JSON.parse(
+    JSON.stringify({ ...conflictView(theirsRaw), version: mine.version }),
+  );
+  const put = (obj: Record<string, unknown>, key: string, v: unknown) => {
+    if (v === undefined) delete obj[key];
+    else obj[key] = v;
+  };
+  for (const it of items) {
+    if (choices[it.id] !== "mine") continue;
+    const [root, name, sub] = it.path;
+    if (root === "agents") {
+      const at = out.agents.findIndex((a) => a.name === name);
+      if (it.mine === undefined) {
+        if (at >= 0) out.agents.splice(at, 1);
+      } else if (at >= 0) out.agents[at] = it.mine as Agent;
+      else out.agents.push(it.mine as Agent);
+    } else if (name === undefined) {
+      put(out, root, it.mine);
+    } else {
+      // roster / overrides / vacations: rows by agent name
+      const rows = out[root] as Record<string, Record<string, unknown>>;
+      if (sub === undefined) put(rows, name, it.mine);
+      else {
+        rows[name] = { ...(rows[name] ?? {}) };
+        put(rows[name], sub, it.mine);
+      }
+    }
+  }
+  // rows of agents the merge dropped would otherwise linger unseen
+  const kept = new Set(out.agents.map((a) => a.name));
+  for (const root of ["roster", "overrides", "vacations"] as const) {
+    const rows: Record<string, unknown> = out[root];
+    for (const name of Object.keys(rows)) if (!kept.has(name)) delete rows[name];
+  }
+  return out;
+}
+
+/** one side of a conflict item in a line: a block, vacation ranges, or the fields that differ */
+function describeConflictValue(item: ConflictItem, side: ConflictChoice) {
+  const v = side === "mine" ? item.mine : item.theirs;
+  const other = side === "mine" ? item.theirs : item.mine;
+  if (v === undefined) return "—";
+  if (item.group === "Days") return formatBlock(v as DayBlock);
+  if (item.group === "Vacations") {
+    const range = (r: LeaveRange) =>
+      `${r.start} → ${r.end}${leaveStatus(r) === "approved" ? "" : ` (${leaveStatus(r)})`}`;
+    return (v as Vacations[string]).map(range).join(", ") || "none";
+  }
+  const short = (x: unknown) => {
+    const str = typeof x === "string" ? x : JSON.stringify(x) ?? "—";
+    return str.length > 48 ? `${str.slice(0, 47)}…` : str;
+  };
+  if (item.group === "Agents" && other === undefined) {
+    const a = v as Agent;
+    return [a.level, a.country].filter(Boolean).join(" · ") || a.name;
+  }
+  if (isObject(v) && isObject(other)) {
+    const keys = Object.keys({ ...other, ...v }).filter(
+      (k) => stableJSON(v[k]) !== stableJSON(other[k]),
+    );
+    return keys.map((k) => `${k}: ${short(v[k])}`).join(", ");
+  }
+  return short(v);
+}
+
 /* =====================================================================================
    HELPERS
 ===================================================================================== */
@@ -134,12 +761,25 @@ function toHHMM(m: number) {
 function clamp(v: number, lo: number, hi: number) {
   return Math.max(lo, Math.min(hi, v));
 }
-function isoToday() {
-  return new Date().toISOString().slice(0, 10);
+/*
+ * Dates are calendar days ("YYYY-MM-DD") with no time zone; their math runs on UTC
+ * midnights so neither the browser's zone nor a DST change can shift a day. Instants are
+ * only turned into a date through an explicit IANA zone (see zonedParts).
+ */
+function isoParts(iso: string) {
+  const [y, m, d] = iso.split("-").map((n) => parseInt(n, 10));
+  return { y, m, d };
+}
+function isoFromUTC(ms: number) {
+  return new Date(ms).toISOString().slice(0, 10);
+}
+/** today in `timeZone` (default: the browser's zone) */
+function isoToday(timeZone?: string) {
+  return zonedParts(Date.now(), timeZone).date;
 }
 function weekdayNameFromISO(iso: string): Weekday {
-  const d = new Date(iso + "T00:00:00");
-  const wd = d.getDay(); // 0..6 (Sun..Sat)
+  const { y, m, d } = isoParts(iso);
+  const wd = new Date(Date.UTC(y, m - 1, d)).getUTCDay(); // 0..6 (Sun..Sat)
   const map = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"] as const;
   return map[wd] as Weekday;
 }
@@ -147,1179 +787,7613 @@ function compareISO(a: string, b: string) {
   return a < b ? -1 : a > b ? 1 : 0;
 }
 function addDaysISO(iso: string, days: number) {
-  const d = new Date(iso + "T00:00:00");
-  d.setDate(d.getDate() + days);
-  return d.toISOString().slice(0, 10);
+  const { y, m, d } = isoParts(iso);
+  return isoFromUTC(Date.UTC(y, m - 1, d + days));
+}
+function isValidTimezone(tz: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function agentTimezone(agent: Agent, siteTimezone: string) {
+  if (agent.timezone && isValidTimezone(agent.timezone)) return agent.timezone;
+  return COUNTRY_TIMEZONES[agent.country.trim().toUpperCase()] ?? siteTimezone;
+}
+
+/** "UTC+3", "UTC+5:30" – a zone's offset on a date */
+function zoneOffsetLabel(timeZone: string, dateISO: string) {
+  const off = zoneOffsetAt(timeZone, zonedToInstant(dateISO, 12 * 60, timeZone));
+  const abs = Math.abs(off);
+  const mm = abs % 60 ? `:${String(abs % 60).padStart(2, "0")}` : "";
+  return `UTC${off < 0 ? "-" : "+"}${Math.floor(abs / 60)}${mm}`;
+}
+
+/** the date in the same Saturday-first week as `iso` that falls on `day` */
+function dateForWeekday(iso: string, day: Weekday) {
+  const offset = WEEKDAYS.indexOf(day) - WEEKDAYS.indexOf(weekdayNameFromISO(iso));
+  return addDaysISO(iso, offset);
+}
+function daysBetweenISO(from: string, to: string) {
+  const utc = (iso: string) => {
+    const { y, m, d } = isoParts(iso);
+    return Date.UTC(y, m - 1, d);
+  };
+  return Math.round((utc(to) - utc(from)) / 86400000);
+}
+
+const zoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/** wall-clock date and minute of day of an instant in `timeZone` (default: the browser's) */
+function zonedParts(at: number, timeZone?: string) {
+  const key = timeZone ?? "";
+  let fmt = zoneFormatters.get(key);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+    zoneFormatters.set(key, fmt);
+  }
+  const parts = fmt.formatToParts(at);
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? "0";
+  return {
+    date: `${get("year")}-${get("month")}-${get("day")}`,
+    min: parseInt(get("hour"), 10) * 60 + parseInt(get("minute"), 10),
+  };
+}
+
+/** minutes `timeZone` is ahead of UTC at an instant (DST included) */
+function zoneOffsetAt(timeZone: string, at: number) {
+  const minute = Math.floor(at / 60000) * 60000;
+  const { date, min } = zonedParts(minute, timeZone);
+  const { y, m, d } = isoParts(date);
+  return Math.round((Date.UTC(y, m - 1, d) + min * 60000 - minute) / 60000);
+}
+
+/** the instant a wall-clock time on a date happens in `timeZone` */
+function zonedToInstant(dateISO: string, min: number, timeZone: string) {
+  const { y, m, d } = isoParts(dateISO);
+  const wall = Date.UTC(y, m - 1, d) + min * 60000;
+  // the offset at the guess can differ from the one at the answer across a DST change
+  const first = wall - zoneOffsetAt(timeZone, wall) * 60000;
+  return wall - zoneOffsetAt(timeZone, first) * 60000;
+}
+
+/**
+ * How many minutes to add to a wall-clock time on `dateISO` in `from` to get the same
+ * instant's wall-clock time in `to` (e.g. Riyadh → Cairo is -60, or -0 in Cairo's DST).
+ */
+function zoneShiftMinutes(dateISO: string, min: number, from: string, to: string) {
+  if (from === to) return 0;
+  const at = zonedToInstant(dateISO, min, from);
+  return zoneOffsetAt(to, at) - zoneOffsetAt(from, at);
 }
 function withinRange(date: string, start: string, end: string) {
   return compareISO(start, date) <= 0 && compareISO(date, end) <= 0;
 }
+function nextWeekday(d: Weekday): Weekday {
+  return WEEKDAYS[(WEEKDAYS.indexOf(d) + 1) % WEEKDAYS.length];
+}
+function prevWeekday(d: Weekday): Weekday {
+  return WEEKDAYS[(WEEKDAYS.indexOf(d) + WEEKDAYS.length - 1) % WEEKDAYS.length];
+}
 function halfHourLabel(k: number) {
   const h = Math.floor(k / 2);
   const m = k % 2 === 0 ? "00" : "30";
   return `${String(h).padStart(2, "0")}:${m}`;
 }
 
-/** half-hour coverage (48 buckets) given roster + agents + vacations */
-function halfHourCoverage(
-  roster: Roster,
-  agents: Agent[],
-  day: Weekday,
-  dateISO: string,
-  vacations: Vacations,
-) {
-  const cov = Array(48).fill(0);
-  for (const a of agents) {
-    if (isAgentOnVacation(a.name, dateISO, vacations)) continue;
-    const blk = roster[a.name]?.[day];
-    if (!blk || !blk.active) continue;
-    for (let k = 0; k < 48; k++) {
-      const hs = k * 30,
-        he = (k + 1) * 30;
-      const work = Math.max(0, Math.min(blk.endMin, he) - Math.max(blk.startMin, hs));
-      let brk = 0;
-      if ((blk.breakMins || 0) > 0 && blk.breakStartMin !== undefined) {
-        const bs = blk.breakStartMin;
-        const be = blk.breakStartMin + (blk.breakMins || 0);
-        brk = Math.max(0, Math.min(be, he) - Math.max(bs, hs));
-      }
-      if (work - brk > 0) cov[k]++;
+const DAY_MINS = 24 * 60;
+
+/** a stored block in the segment model (older single-window blocks are converted) */
+function migrateDayBlock(raw: unknown): DayBlock {
+  return upgradeBlock(raw);
+}
+
+function migrateOverrides(raw: unknown): RosterOverrides {
+  const out: RosterOverrides = {};
+  for (const [name, days] of Object.entries(isObject(raw) ? raw : {})) {
+    out[name] = {};
+    for (const [date, block] of Object.entries(isObject(days) ? days : {})) {
+      out[name][date] = migrateDayBlock(block);
     }
   }
-  return cov;
+  return out;
 }
 
-/** Export CSV compatible with Sharbatly tool (agent,day,start,end,breaks) */
-function exportCSV(roster: Roster, agents: Agent[]) {
-  const header = ["agent", "day", "active", "start", "end", "break_start", "break_minutes"];
-  const rows: string[] = [];
-  for (const a of agents) {
+/** groups without an anchor start today in `timeZone` (the site's) */
+function migrateRotationGroups(raw: unknown, timeZone?: string): RotationGroup[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.filter(isObject).map((g) => ({
+    id: String(g.id),
+    name: String(g.name ?? g.id),
+    anchorDate: typeof g.anchorDate === "string" ? g.anchorDate : isoToday(timeZone),
+    weeks: Array.isArray(g.weeks) && g.weeks.length ? g.weeks.map(migrateRoster) : [{}],
+  }));
+}
+
+function migrateRoster(raw: unknown): Roster {
+  const out: Roster = {};
+  for (const [name, days] of Object.entries(isObject(raw) ? raw : {})) {
+    const week = {} as Record<Weekday, DayBlock>;
     for (const d of WEEKDAYS) {
-      const blk = roster[a.name]?.[d] || DEFAULT_DAY;
-      rows.push(
-        [
-          a.name,
-          d,
-          blk.active ? "1" : "0",
-          toHHMM(blk.startMin),
-          toHHMM(blk.endMin),
-          blk.breakStartMin != null ? toHHMM(blk.breakStartMin) : "",
-          String(blk.breakMins || 0),
-        ].join(","),
-      );
+      if (isObject(days) && days[d]) week[d] = migrateDayBlock(days[d]);
     }
+    out[name] = week;
   }
-  return [header.join(","), ...rows].join("\n");
+  return out;
 }
 
-/** simple CSV parser for import */
-function parseCSV(text: string) {
-  const lines = text.trim().split(/\r?\n/);
-  const headers = lines[0].split(",").map((h) => h.trim());
-  const rows = lines.slice(1).map((line) => {
-    const parts = line.split(",").map((c) => c.trim());
-    const obj: Record<string, string> = {};
-    headers.forEach((h, i) => (obj[h] = parts[i] || ""));
-    return obj;
+/**
+ * Block times as absolute minutes from its own 00:00 (past 1440 = next day), anchored
+ * on the first segment's start.
+ */
+function blockSpan(blk: DayBlock) {
+  const anchor = blk.segments[0]?.startMin ?? 0;
+  const abs = (t: number) => (t < anchor ? t + DAY_MINS : t);
+  const segments = blk.segments.map((s) => {
+    const start = abs(s.startMin);
+    const end = s.endMin <= anchor ? s.endMin + DAY_MINS : s.endMin;
+    return { start, end: Math.max(start, end) };
   });
-  return { headers, rows };
+  const activities = blk.activities
+    .filter((x) => x.mins > 0)
+    .map((x) => ({ type: x.type, start: abs(x.startMin), end: abs(x.startMin) + x.mins }));
+  return {
+    start: segments.length ? Math.min(...segments.map((s) => s.start)) : anchor,
+    end: segments.length ? Math.max(...segments.map((s) => s.end)) : anchor,
+    segments,
+    activities,
+  };
 }
 
-/** vacations helper */
-function isAgentOnVacation(agent: string, isoDate: string, vacations: Vacations) {
-  const ranges = vacations[agent] ?? [];
-  for (const r of ranges) {
-    if (withinRange(isoDate, r.start, r.end)) return true;
-  }
-  return false;
+/** paid minutes: all work segments, activities included */
+function blockLengthMins(blk: DayBlock) {
+  return blockSpan(blk).segments.reduce((sum, s) => sum + s.end - s.start, 0);
 }
 
-/** merge overlapping / adjacent vacation ranges */
-function mergeRanges(ranges: Array<{ start: string; end: string }>) {
-  if (ranges.length <= 1) return ranges.slice().sort((a, b) => compareISO(a.start, b.start));
-  const ordered = ranges.slice().sort((a, b) => compareISO(a.start, b.start));
-  const out: Array<{ start: string; end: string }> = [];
-  for (const r of ordered) {
-    if (out.length === 0) {
-      out.push({ ...r });
-      continue;
-    }
-    const last = out[out.length - 1];
-    if (compareISO(r.start, addDaysISO(last.end, 1)) <= 0) {
-      if (compareISO(r.end, last.end) > 0) last.end = r.end;
-    } else {
-      out.push({ ...r });
-    }
-  }
-  return out;
+/** Minutes of work / each activity a block has inside [hs, he) on its absolute (0..2880) axis */
+function blockMinutesIn(block: DayBlock, hs: number, he: number) {
+  if (!block.active) return { work: 0, net: 0, acts: {} };
+  return spanMinutesIn(blockSpan(block), hs, he);
 }
 
-/* =====================================================================================
-   ERROR BOUNDARY
-===================================================================================== */
-
-class ErrorBoundary extends React.Component<{ children: React.ReactNode }, { error?: Error }> {
-  constructor(props: any) {
-    super(props);
-    this.state = {};
-  }
-  static getDerivedStateFromError(error: Error) {
-    return { error };
-  }
-  componentDidCatch(error: Error, info: any) {
-    console.error("[App crash]", error, info);
-  }
-  render() {
-    if (this.state.error) {
-      return (
-        <div className="p-6 text-slate-50">
-          <h1 className="text-xl font-bold mb-2">Something went wrong.</h1>
-          <p className="text-sm text-red-400 mb-4">
-            {String(this.state.error.message || this.state.error)}
-          </p>
-          <p className="text-xs opacity-70">Check the browser console for stack trace.</p>
-        </div>
-      );
+function spanMinutesIn(span: ReturnType<typeof blockSpan>, hs: number, he: number) {
+  const acts: Partial<Record<ActivityType, number>> = {};
+  let work = 0;
+  let off = 0;
+  for (const seg of span.segments) {
+    const lo = Math.max(seg.start, hs);
+    const hi = Math.min(seg.end, he);
+    if (hi <= lo) continue;
+    work += hi - lo;
+    // activities only take time out of the work they overlap
+    for (const x of span.activities) {
+      const m = Math.max(0, Math.min(x.end, hi) - Math.max(x.start, lo));
+      if (m > 0) {
+        acts[x.type] = (acts[x.type] || 0) + m;
+        off += m;
+      }
     }
-    return this.props.children as any;
   }
+  return { work, net: Math.max(0, work - off), acts };
 }
 
-/* =====================================================================================
-   MAIN APP
-===================================================================================== */
+/** net working minutes per half-hour, 96 buckets: the block's own day then the next */
+function blockWorkMinutes(blk: DayBlock) {
+  if (!blk.active) return Array(96).fill(0);
+  const span = blockSpan(blk);
+  return Array.from({ length: 96 }, (_, k) => spanMinutesIn(span, k * 30, (k + 1) * 30).net);
+}
 
-const halfHourBuckets = 48;
-
-const App: React.FC = () => {
-  const [agents, setAgents] = useState<Agent[]>([]);
-  const [roster, setRoster] = useState<Roster>({});
-  const [vacations, setVacations] = useState<Vacations>({});
+/**
+ * 1 for every half-hour in which the block has net working time (after breaks), else 0.
+ * 96 buckets: 0..47 are the block's own day, 48..95 the spill into the next day.
+ */
+function dayBlockCoverage(blk: DayBlock) {
+  return blockWorkMinutes(blk).map((m) => (m > 0 ? 1 : 0));
+}
 
-  const [selectedDate, setSelectedDate] = useState<string>(isoToday());
-  const [selectedDay, setSelectedDay] = useState<Weekday>(weekdayNameFromISO(isoToday()));
-  const [dark, setDark] = useState(false);
-  const [levelFilter, setLevelFilter] = useState<Level | "all">("all");
+/** 0-based week of the rotation cycle that `dateISO` falls in */
+function rotationWeekIndex(group: RotationGroup, dateISO: string) {
+  const n = group.weeks.length;
+  if (n <= 1) return 0;
+  const w = Math.floor(daysBetweenISO(group.anchorDate, dateISO) / 7);
+  return ((w % n) + n) % n;
+}
 
-  const [ahtMin, setAhtMin] = useState(6);
-  const [occupancy, setOccupancy] = useState(0.85);
-  const [serviceBuffer, setServiceBuffer] = useState(0);
+/** the seasonal period a date falls in, if any */
+function periodForDate(periods: SeasonalPeriod[], dateISO: string) {
+  return periods.find((p) => withinRange(dateISO, p.start, p.end));
+}
 
-  const [dailyAvg, setDailyAvg] = useState<Record<Weekday, number>>({ ...DAILY_AVG_DEFAULT });
-  const [hourlyPctByDay, setHourlyPctByDay] = useState<Record<Weekday, number[]>>(() => {
-    const base = [...HOURLY_LOAD_PCT_DEFAULT];
-    return {
-      Saturday: base,
-      Sunday: base,
-      Monday: base,
-      Tuesday: base,
-      Wednesday: base,
-      Thursday: base,
-      Friday: base,
-    };
-  });
+/**
+ * template block for a date: a seasonal period's template when one is in effect, else the
+ * agent's rotation week if it has one, else the weekday template
+ */
+function templateBlock(
+  roster: Roster,
+  groups: RotationGroup[],
+  agent: Agent,
+  dateISO: string,
+  periods: SeasonalPeriod[] = [],
+): DayBlock | undefined {
+  const day = weekdayNameFromISO(dateISO);
+  const period = periodForDate(periods, dateISO);
+  if (period) return period.roster[agent.name]?.[day];
+  const group = agent.rotationGroup ? groups.find((g) => g.id === agent.rotationGroup) : undefined;
+  const rotated = group?.weeks[rotationWeekIndex(group, dateISO)]?.[agent.name]?.[day];
+  return rotated ?? roster[agent.name]?.[day];
+}
 
-  // cloud sync
-  const isLoadingFromCloud = useRef(true);
-  const saveDebounced = useRef<(p: any) => void>(() => {});
-  const [saveStatus, setSaveStatus] = useState<"idle" | "saving" | "saved" | "error">("idle");
+/** the template in effect for the (Saturday-first) week containing `dateISO` */
+function templateForWeek(
+  roster: Roster,
+  groups: RotationGroup[],
+  agents: Agent[],
+  dateISO: string,
+  periods: SeasonalPeriod[] = [],
+): Roster {
+  const out: Roster = {};
+  for (const a of agents) {
+    const week = {} as Record<Weekday, DayBlock>;
+    for (const d of WEEKDAYS) {
+      const blk = templateBlock(roster, groups, a, dateForWeekday(dateISO, d), periods);
+      if (blk) week[d] = blk;
+    }
+    out[a.name] = week;
+  }
+  return out;
+}
 
-  // keep selectedDay in sync with selectedDate
-  useEffect(() => {
-    setSelectedDay(weekdayNameFromISO(selectedDate));
-  }, [selectedDate]);
+/**
+ * the block an agent actually works on a date: the date override, else the template –
+ * except on a company holiday, where only an override puts the agent on shift
+ */
+function effectiveBlock(
+  roster: Roster,
+  overrides: RosterOverrides,
+  agent: Agent,
+  dateISO: string,
+  groups: RotationGroup[] = [],
+  specialDays: SpecialDays = {},
+  periods: SeasonalPeriod[] = [],
+): DayBlock | undefined {
+  const override = overrides[agent.name]?.[dateISO];
+  if (override || specialDays[dateISO]?.holiday) return override;
+  return templateBlock(roster, groups, agent, dateISO, periods);
+}
 
-  // load from Netlify blob on first mount
-  useEffect(() => {
-    (async () => {
-      try {
-        const res = await fetch(`${API_BASE}?workspace=${encodeURIComponent(WORKSPACE)}`, {
-          method: "GET",
-          headers: { "content-type": "application/json" },
-        });
-        let cloud: any = {};
-        try {
-          cloud = await res.json();
-        } catch {
-          cloud = {};
-        }
-        if (cloud && Object.keys(cloud).length) {
-          if (Array.isArray(cloud.agents)) setAgents(cloud.agents);
-          if (cloud.roster) setRoster(cloud.roster);
-          if (cloud.dailyAvg) setDailyAvg(cloud.dailyAvg);
-          if (cloud.hourlyPctByDay) setHourlyPctByDay(cloud.hourlyPctByDay);
-          if (typeof cloud.ahtMin === "number") setAhtMin(cloud.ahtMin);
-          if (typeof cloud.occupancy === "number") setOccupancy(cloud.occupancy);
-          if (typeof cloud.serviceBuffer === "number") setServiceBuffer(cloud.serviceBuffer);
-          if (typeof cloud.selectedDate === "string") setSelectedDate(cloud.selectedDate);
-          if (cloud.vacations) setVacations(cloud.vacations);
-        }
-      } catch (e) {
-        console.warn("[cloud load] error", e);
-      } finally {
-        isLoadingFromCloud.current = false;
-      }
-    })();
-  }, []);
+/**
+ * what agents actually work in the (Saturday-first) week containing `dateISO`: each date's
+ * effective block, left out on approved leave
+ */
+function effectiveWeek(
+  roster: Roster,
+  overrides: RosterOverrides,
+  agents: Agent[],
+  dateISO: string,
+  vacations: Vacations,
+  groups: RotationGroup[] = [],
+  specialDays: SpecialDays = {},
+  periods: SeasonalPeriod[] = [],
+): Roster {
+  const out: Roster = {};
+  for (const a of agents) {
+    const week = {} as Record<Weekday, DayBlock>;
+    for (const d of WEEKDAYS) {
+      const date = dateForWeekday(dateISO, d);
+      if (isAgentOnVacation(a.name, date, vacations)) continue;
+      const blk = effectiveBlock(roster, overrides, a, date, groups, specialDays, periods);
+      if (blk) week[d] = blk;
+    }
+    out[a.name] = week;
+  }
+  return out;
+}
 
-  // prepare debounced saver
-  useEffect(() => {
-    saveDebounced.current = debounce(async (payload: any) => {
-      try {
-        setSaveStatus("saving");
-        const res = await fetch(`${API_BASE}?workspace=${encodeURIComponent(WORKSPACE)}`, {
-          method: "PUT",
-          headers: {
-            "content-type": "application/json",
-            ...(TOKEN ? { "x-wfm-token": TOKEN } : {}),
-          },
-          body: JSON.stringify(payload),
-        });
-        if (!res.ok) throw new Error(String(res.status));
-        setSaveStatus("saved");
-        setTimeout(() => setSaveStatus("idle"), 1200);
-      } catch (e) {
-        console.warn("[cloud save] error", e);
-        setSaveStatus("error");
-      }
-    }, 800);
-  }, []);
+/** agents on the floor in each half-hour of a date, including the previous day's carry-over */
+function halfHourAgents(
+  roster: Roster,
+  agents: Agent[],
+  dateISO: string,
+  vacations: Vacations,
+  overrides: RosterOverrides = {},
+  groups: RotationGroup[] = [],
+  specialDays: SpecialDays = {},
+  periods: SeasonalPeriod[] = [],
+) {
+  const out: Agent[][] = Array.from({ length: 48 }, () => []);
+  const prevDate = addDaysISO(dateISO, -1);
+  for (const a of agents) {
+    const on = Array(48).fill(0);
+    const blk = effectiveBlock(roster, overrides, a, dateISO, groups, specialDays, periods);
+    if (blk && blk.active && !isAgentOnVacation(a.name, dateISO, vacations)) {
+      dayBlockCoverage(blk).forEach((c, k) => k < 48 && (on[k] += c));
+    }
+    const carry = effectiveBlock(roster, overrides, a, prevDate, groups, specialDays, periods);
+    if (carry && carry.active && !isAgentOnVacation(a.name, prevDate, vacations)) {
+      dayBlockCoverage(carry).forEach((c, k) => k >= 48 && (on[k - 48] += c));
+    }
+    on.forEach((c, k) => c > 0 && out[k].push(a));
+  }
+  return out;
+}
 
-  // trigger save when key state changes
-  useEffect(() => {
-    if (isLoadingFromCloud.current) return;
-    const payload = {
-      agents,
-      roster,
-      dailyAvg,
-      hourlyPctByDay,
-      ahtMin,
-      occupancy,
-      serviceBuffer,
-      selectedDate,
-      selectedDay,
-      vacations,
-      brand: "Montana",
-      version: 1,
-      savedAt: new Date().toISOString(),
-    };
-    saveDebounced.current(payload);
-  }, [
-    agents,
+/**
+ * half-hour coverage (48 buckets) for a date given roster + overrides + agents + vacations.
+ * Overnight shifts from the previous date count too, checked against that date's vacations.
+ */
+function halfHourCoverage(
+  roster: Roster,
+  agents: Agent[],
+  dateISO: string,
+  vacations: Vacations,
+  overrides: RosterOverrides = {},
+  groups: RotationGroup[] = [],
+  specialDays: SpecialDays = {},
+  periods: SeasonalPeriod[] = [],
+) {
+  return halfHourAgents(
     roster,
-    dailyAvg,
-    hourlyPctByDay,
-    ahtMin,
-    occupancy,
-    serviceBuffer,
-    selectedDate,
-    selectedDay,
+    agents,
+    dateISO,
     vacations,
-  ]);
-
-  /* ===================================================================================
-     DERIVED METRICS
-  =================================================================================== */
+    overrides,
+    groups,
+    specialDays,
+    periods,
+  ).map((list) => list.length);
+}
 
-  const loadPct48 = useMemo(() => {
-    const arr = hourlyPctByDay[selectedDay] || HOURLY_LOAD_PCT_DEFAULT;
-    return arr.flatMap((v) => [v / 2, v / 2]); // split each hour into two half-hours
-  }, [selectedDay, hourlyPctByDay]);
+/** demand per half-hour for one day: daily volume spread over a 24h load profile */
+function dayDemand48(hourlyPct: number[], perDay: number) {
+  const load = hourlyPct.flatMap((v) => [v / 2, v / 2]);
+  const sum = load.reduce((a, b) => a + b, 0) || 1;
+  return load.map((p) => perDay * (p / sum));
+}
 
-  const coverage48 = useMemo(
-    () => halfHourCoverage(roster, agents, selectedDay, selectedDate, vacations),
-    [roster, agents, selectedDay, selectedDate, vacations],
-  );
+/** hourly profile as shares summing to 100 (an all-zero profile becomes flat) */
+function normalizeProfile(hourlyPct: number[]) {
+  const sum = hourlyPct.reduce((a, b) => a + Math.max(0, b), 0);
+  if (sum <= 0) return hourlyPct.map(() => 100 / hourlyPct.length);
+  return hourlyPct.map((v) => (Math.max(0, v) / sum) * 100);
+}
 
-  const demand48 = useMemo(() => {
-    const sum = loadPct48.reduce((a, b) => a + b, 0) || 1;
-    const basePerDay = dailyAvg[selectedDay] ?? MONTANA_DAILY_AVG;
-    return loadPct48.map((p) => basePerDay * (p / sum));
-  }, [loadPct48, selectedDay, dailyAvg]);
+/** set one hour's share and rescale the other hours so the profile still sums to 100 */
+function setProfileShare(hourlyPct: number[], hour: number, pct: number) {
+  const shares = normalizeProfile(hourlyPct);
+  const v = clamp(pct, 0, 100);
+  const rest = 100 - shares[hour];
+  const others = shares.length - 1;
+  return shares.map((s, h) => {
+    if (h === hour) return Math.round(v * 100) / 100;
+    const next = rest > 0 ? (s / rest) * (100 - v) : (100 - v) / others;
+    return Math.round(next * 100) / 100;
+  });
+}
 
-  const required48 = useMemo(
-    () =>
-      demand48.map(
-        (v30) => Math.ceil((v30 * ahtMin) / Math.max(0.1, 30 * occupancy)) + serviceBuffer,
-      ),
-    [demand48, ahtMin, occupancy, serviceBuffer],
-  );
+/**
+ * Every time in the block moved by `delta` minutes (wrapping at midnight), e.g. to show it
+ * in another zone; the block's shape and its after-midnight reading stay the same.
+ */
+function shiftBlock(blk: DayBlock, delta: number): DayBlock {
+  if (!delta) return blk;
+  const at = (t: number) => (((t + delta) % DAY_MINS) + DAY_MINS) % DAY_MINS;
+  return {
+    ...blk,
+    // a segment ending at midnight keeps 24:00 rather than wrapping to 00:00
+    segments: blk.segments.map((s) => ({
+      startMin: at(s.startMin),
+      endMin: at(s.endMin) || DAY_MINS,
+    })),
+    activities: blk.activities.map((x) => ({ ...x, startMin: at(x.startMin) })),
+  };
+}
 
-  const chartData = useMemo(() => {
-    const maxCov = Math.max(1, ...coverage48, ...required48);
-    const sum = loadPct48.reduce((a, b) => a + b, 0) || 1;
-    const scale = maxCov / Math.max(...loadPct48.map((v) => v / sum));
-    return Array.from({ length: halfHourBuckets }, (_, k) => ({
-      bucket: k,
-      coverage: coverage48[k],
-      required: required48[k],
-      load: +(((loadPct48[k] / sum) * scale).toFixed(2)),
-      label: halfHourLabel(k),
-    }));
-  }, [coverage48, required48, loadPct48]);
+function formatBlock(blk: DayBlock | undefined) {
+  if (!blk || !blk.active || blk.segments.length === 0) return "off";
+  const work = blk.segments.map((s) => `${toHHMM(s.startMin)}–${toHHMM(s.endMin)}`).join(", ");
+  const acts = blk.activities
+    .filter((x) => x.mins > 0)
+    .map((x) => `${x.type} ${toHHMM(x.startMin)} (${x.mins}m)`)
+    .join(", ");
+  const nextDay = blockSpan(blk).end > DAY_MINS ? " (+1)" : "";
+  return `${work}${nextDay}${acts ? ` · ${acts}` : ""}`;
+}
 
-  /* ===================================================================================
-     CSV IMPORT
-  =================================================================================== */
+/** "08:00-12:00;18:00-22:00" – segment list as written to / read from CSV */
+function formatSegmentsCSV(blk: DayBlock) {
+  return blk.segments.map((s) => `${toHHMM(s.startMin)}-${toHHMM(s.endMin)}`).join(";");
+}
 
-  const onImport = async (file: File) => {
-    try {
-      const text = await file.text();
-      const { headers, rows } = parseCSV(text);
-      const needed = ["agent", "day", "active", "start", "end", "break_start", "break_minutes"];
-      const ok = needed.every((h) => headers.includes(h));
-      if (!ok) {
-        alert("CSV headers must be: " + needed.join(", "));
-        return;
-      }
+/** "break@10:00+15;lunch@13:00+60" – activity list as written to / read from CSV */
+function formatActivitiesCSV(blk: DayBlock) {
+  return blk.activities.map((x) => `${x.type}@${toHHMM(x.startMin)}+${x.mins}`).join(";");
+}
 
-      const daySet = new Set(WEEKDAYS);
-      const toMin = (hhmm: string) => {
-        if (!hhmm) return undefined;
-        const [hh, mm] = hhmm.split(":").map((n) => parseInt(n, 10));
-        if (Number.isNaN(hh) || Number.isNaN(mm)) return undefined;
-        return Math.max(0, Math.min(23, hh)) * 60 + Math.max(0, Math.min(59, mm));
-      };
+/**
+ * Export CSV compatible with Sharbatly tool (agent,day,start,end,breaks).
+ * An end (or break start) earlier than the start means it falls after midnight.
+ * start/end/break_* summarise the day (first start, last end, longest break) for tools
+ * that only know one window; `segments` and `activities` carry the full day.
+ */
+function exportCSV(roster: Roster, agents: Agent[]) {
+  const header = [
+    "agent",
+    "day",
+    "active",
+    "start",
+    "end",
+    "break_start",
+    "break_minutes",
+    "segments",
+    "activities",
+  ];
+  const rows: string[] = [];
+  for (const a of agents) {
+    for (const d of WEEKDAYS) {
+      const blk = roster[a.name]?.[d] || DEFAULT_DAY;
+      const first = blk.segments[0] ?? DEFAULT_DAY.segments[0];
+      const last = blk.segments[blk.segments.length - 1] ?? first;
+      const longest = blk.activities
+        .filter((x) => x.type === "break" || x.type === "lunch")
+        .reduce<Activity | undefined>((m, x) => (!m || x.mins > m.mins ? x : m), undefined);
+      rows.push(
+        [
+          a.name,
+          d,
+          blk.active ? "1" : "0",
+          toHHMM(first.startMin),
+          toHHMM(last.endMin),
+          longest ? toHHMM(longest.startMin) : "",
+          String(longest?.mins || 0),
+          formatSegmentsCSV(blk),
+          formatActivitiesCSV(blk),
+        ].join(","),
+      );
+    }
+  }
+  return [header.join(","), ...rows].join("\n");
+}
 
-      const nextRoster: Roster = { ...roster };
-      let nextAgents = [...agents];
+/** save text as a file through a temporary link */
+function downloadCSV(csv: string, filename: string) {
+  const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  setTimeout(() => {
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }, 0);
+}
 
-      for (const r of rows) {
-        const name = r["agent"];
-        const day = r["day"] as Weekday;
-        if (!name || !daySet.has(day)) continue;
+/** CSV → rows; understands quoted fields ("" escapes, line breaks) as helpdesks export them */
+function parseCSV(text: string) {
+  const records: string[][] = [];
+  let field = "";
+  let record: string[] = [];
+  let quoted = false;
+  const src = text.replace(/^\uFEFF/, "").trim();
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ",") {
+      record.push(field.trim());
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      record.push(field.trim());
+      records.push(record);
+      field = "";
+      record = [];
+    } else field += ch;
+  }
+  record.push(field.trim());
+  records.push(record);
 
-        // ensure agent exists in list
-        if (!nextAgents.find((a) => a.name === name)) {
-          nextAgents.push({
-            name,
-            country: "SA",
-            level: "junior",
-            remote: true,
-            fridayAllowed: true,
-            breakPref: "60",
-          });
-        }
+  const headers = records[0];
+  const rows = records.slice(1).map((parts) => {
+    const obj: Record<string, string> = {};
+    headers.forEach((h, i) => (obj[h] = parts[i] || ""));
+    return obj;
+  });
+  return { headers, rows };
+}
 
-        const active =
-          r["active"] === "1" || (r["active"] || "").toLowerCase().trim() === "true";
-        const startMin = toMin(r["start"]) ?? DEFAULT_DAY.startMin;
-        const endMin = toMin(r["end"]) ?? DEFAULT_DAY.endMin;
-        const breakStartMin = toMin(r["break_start"]);
-        const breakMins = parseInt(r["break_minutes"] || "0", 10) || 0;
+const leaveStatus = (r: LeaveRange): LeaveStatus => r.status ?? "approved";
 
-        if (!nextRoster[name]) nextRoster[name] = {} as Record<Weekday, DayBlock>;
-        nextRoster[name][day] = {
-          active,
-          startMin,
-          endMin,
-          breakStartMin: breakMins > 0 ? breakStartMin : undefined,
-          breakMins: Math.max(0, breakMins),
-        };
-      }
+/** vacations helper: approved leave only; pending and rejected requests change nothing */
+function isAgentOnVacation(agent: string, isoDate: string, vacations: Vacations) {
+  const ranges = vacations[agent] ?? [];
+  for (const r of ranges) {
+    if (leaveStatus(r) === "approved" && withinRange(isoDate, r.start, r.end)) return true;
+  }
+  return false;
+}
 
-      setAgents(nextAgents);
-      setRoster(nextRoster);
-    } catch (e) {
-      console.warn("[import csv] failed", e);
-      alert("Failed to import CSV. See console for details.");
-    }
-  };
+const hijriFormatter = new Intl.DateTimeFormat("en-u-ca-islamic-umalqura", {
+  timeZone: "UTC",
+  year: "numeric",
+  month: "numeric",
+  day: "numeric",
+});
 
-  /* ===================================================================================
-     AGENT MANAGEMENT
-  =================================================================================== */
+/** the Umm al-Qura (Saudi) Hijri year / month / day of a date */
+function hijriParts(iso: string) {
+  const { y, m, d } = isoParts(iso);
+  const parts = hijriFormatter.formatToParts(new Date(Date.UTC(y, m - 1, d)));
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  return { year: get("year"), month: get("month"), day: get("day") };
+}
 
-  const [newName, setNewName] = useState("");
-  const [newCountry, setNewCountry] = useState("SA");
-  const [newLevel, setNewLevel] = useState<Level>("junior");
-  const [newRemote, setNewRemote] = useState(true);
-  const [newFridayAllowed, setNewFridayAllowed] = useState(true);
-  const [newBreakPref, setNewBreakPref] = useState<"none" | "60">("60");
+/** starting guess for the sale's ticket volume against a normal Friday; tune it per year */
+const WHITE_FRIDAY_MULTIPLIER = 1.5;
 
-  const addAgent = () => {
-    const name = newName.trim();
-    if (!name) return;
-    if (agents.find((a) => a.name === name)) {
-      alert("Agent with this name already exists.");
-      return;
-    }
-    const agent: Agent = {
-      name,
-      country: newCountry,
-      level: newLevel,
-      remote: newRemote,
-      fridayAllowed: newFridayAllowed,
-      breakPref: newBreakPref,
-    };
-    setAgents((prev) => [...prev, agent]);
+/**
+ * Saudi public holidays and sale days in a Gregorian year: Founding Day, both Eids, National
+ * Day and White Friday. The Eids are Shawwal 1–3 and Dhu al-Hijjah 9–12 by the Umm al-Qura
+ * calendar: an approximation, as the official dates follow the moon sighting (a day either
+ * way) and the announced holiday is often longer. Holidays keep a multiplier of 1.
+ */
+function saudiSpecialDays(year: number): SpecialDays {
+  const out: SpecialDays = {};
+  const holiday = (name: string) => ({ name, multiplier: 1, holiday: true });
+  out[`${year}-02-22`] = holiday("Founding Day");
+  out[`${year}-09-23`] = holiday("National Day");
+  for (let i = 0; i < 366; i++) {
+    const iso = addDaysISO(`${year}-01-01`, i);
+    if (!iso.startsWith(`${year}-`)) break;
+    const h = hijriParts(iso);
+    if (h.month === 10 && h.day <= 3) out[iso] = holiday("Eid al-Fitr");
+    if (h.month === 12 && h.day === 9) out[iso] = holiday("Arafat Day");
+    if (h.month === 12 && h.day >= 10 && h.day <= 12) out[iso] = holiday("Eid al-Adha");
+  }
+  // the last Friday of November
+  let friday = `${year}-11-30`;
+  while (weekdayNameFromISO(friday) !== "Friday") friday = addDaysISO(friday, -1);
+  out[friday] = { name: "White Friday", multiplier: WHITE_FRIDAY_MULTIPLIER };
+  return out;
+}
 
-    // build default week
-    setRoster((prev) => {
-      const next: Roster = { ...prev };
-      const week: Record<Weekday, DayBlock> = {} as any;
-      for (const d of WEEKDAYS) {
-        const base: DayBlock = {
-          active: d === "Friday" ? newFridayAllowed : true,
-          startMin: 9 * 60,
-          endMin: 17 * 60,
-          breakMins: newBreakPref === "60" ? 60 : 0,
-          breakStartMin: newBreakPref === "60" ? 13 * 60 : undefined,
-        };
-        week[d] = base;
-      }
-      next[name] = week;
-      return next;
-    });
+interface LeaveBalance {
+  entitlement: number;
+  /** approved leave, in working days */
+  used: number;
+  /** requested, not decided yet */
+  pending: number;
+  remaining: number;
+}
 
-    setNewName("");
-  };
+/**
+ * Working days of one request that fall in `year`: the dates the agent's roster (rotations,
+ * seasonal periods, overrides) has them working. Days off and company holidays cost nothing.
+ */
+function leaveWorkingDays(
+  r: LeaveRange,
+  agent: Agent,
+  year: number,
+  roster: Roster,
+  overrides: RosterOverrides,
+  groups: RotationGroup[],
+  specialDays: SpecialDays,
+  periods: SeasonalPeriod[],
+) {
+  const from = compareISO(r.start, `${year}-01-01`) > 0 ? r.start : `${year}-01-01`;
+  const to = compareISO(r.end, `${year}-12-31`) < 0 ? r.end : `${year}-12-31`;
+  let days = 0;
+  for (let d = from; compareISO(d, to) <= 0; d = addDaysISO(d, 1)) {
+    if (effectiveBlock(roster, overrides, agent, d, groups, specialDays, periods)?.active) days++;
+  }
+  return days;
+}
 
-  const removeAgent = (name: string) => {
+/** an agent's annual leave for `year`; rejected requests don't count */
+function leaveBalance(
+  agent: Agent,
+  vacations: Vacations,
+  year: number,
+  roster: Roster,
+  overrides: RosterOverrides,
+  groups: RotationGroup[],
+  specialDays: SpecialDays,
+  periods: SeasonalPeriod[],
+): LeaveBalance {
+  const entitlement = agent.annualLeaveDays ?? ANNUAL_LEAVE_DAYS_DEFAULT;
+  let used = 0;
+  let pending = 0;
+  for (const r of vacations[agent.name] ?? []) {
+    const status = leaveStatus(r);
+    if (status === "rejected") continue;
+    const n = leaveWorkingDays(r, agent, year, roster, overrides, groups, specialDays, periods);
+    if (status === "approved") used += n;
+    else pending += n;
+  }
+  return { entitlement, used, pending, remaining: entitlement - used };
+}
+
+/* =====================================================================================
+   STAFFING MODEL (Erlang C / Erlang A)
+===================================================================================== */
+
+type StaffingModel = "erlangC" | "erlangA";
+
+interface StaffingTargets {
+  model: StaffingModel;
+  /** share of contacts to answer within `slSec` (0..1) */
+  slPct: number;
+  slSec: number;
+  /** ceiling for average speed of answer (seconds) */
+  asaSec: number;
+  /** mean customer patience before abandoning – Erlang A only (seconds) */
+  patienceSec: number;
+  /** occupancy ceiling per interval (0..1) */
+  maxOccupancy: number;
+}
+
+interface IntervalStats {
+  /** share of offered contacts answered within the SL threshold (0..1) */
+  serviceLevel: number;
+  asaSec: number;
+  occupancy: number;
+  /** share of offered contacts that abandon (Erlang A, 0 for Erlang C) */
+  abandonPct: number;
+}
+
+const INTERVAL_SEC = 30 * 60;
+const MAX_AGENTS_PER_INTERVAL = 500;
+
+const STAFFING_TARGETS_DEFAULT: Omit<StaffingTargets, "maxOccupancy"> = {
+  model: "erlangC",
+  slPct: 0.8,
+  slSec: 60,
+  asaSec: 30,
+  patienceSec: 180,
+};
+
+/** Erlang C probability of waiting, via the Erlang B recursion (stable for large N) */
+function erlangC(agents: number, traffic: number) {
+  if (traffic <= 0) return 0;
+  if (agents <= traffic) return 1;
+  let b = 1;
+  for (let n = 1; n <= agents; n++) b = (traffic * b) / (n + traffic * b);
+  return (agents * b) / (agents - traffic * (1 - b));
+}
+
+function erlangCStats(
+  agents: number,
+  traffic: number,
+  ahtSec: number,
+  slSec: number,
+): IntervalStats {
+  if (agents <= traffic) {
+    return { serviceLevel: 0, asaSec: Infinity, occupancy: 1, abandonPct: 0 };
+  }
+  const pw = erlangC(agents, traffic);
+  return {
+    serviceLevel: 1 - pw * Math.exp(-((agents - traffic) * slSec) / ahtSec),
+    asaSec: (pw * ahtSec) / (agents - traffic),
+    occupancy: traffic / agents,
+    abandonPct: 0,
+  };
+}
+
+/**
+ * Erlang A (M/M/N+M): queue with exponential patience. Stationary distribution of the
+ * birth–death chain gives wait / abandonment; the SL comes from the tagged arrival's
+ * progress through the queue (uniformized), counting only contacts actually answered.
+ */
+function erlangAStats(
+  agents: number,
+  traffic: number,
+  ahtSec: number,
+  slSec: number,
+  patienceSec: number,
+): IntervalStats {
+  const mu = 1 / ahtSec;
+  const lambda = traffic * mu;
+  const theta = 1 / Math.max(1, patienceSec);
+
+  // unnormalised stationary probabilities, truncated once the tail is negligible
+  const p: number[] = [1];
+  let total = 1;
+  for (let n = 1; n < agents + 5000; n++) {
+    const rate = Math.min(n, agents) * mu + Math.max(0, n - agents) * theta;
+    const next = (p[n - 1] * lambda) / rate;
+    p.push(next);
+    total += next;
+    if (total > 1e200) {
+      for (let i = 0; i < p.length; i++) p[i] *= 1e-200;
+      total *= 1e-200;
+    }
+    if (n > agents && next < total * 1e-12) break;
+  }
+  const pi = p.map((v) => v / total);
+
+  let busy = 0;
+  let queue = 0;
+  for (let n = 0; n < pi.length; n++) {
+    busy += Math.min(n, agents) * pi[n];
+    queue += Math.max(0, n - agents) * pi[n];
+  }
+  if (agents === 0) {
+    return { serviceLevel: 0, asaSec: queue / lambda, occupancy: 1, abandonPct: 1 };
+  }
+
+  // arriving customer with i contacts ahead: moves up at N·mu + i·theta, abandons at theta
+  let v = pi.slice(agents);
+  const maxAhead = v.length - 1;
+  const unif = agents * mu + (maxAhead + 1) * theta;
+  const x = unif * slSec;
+  const kMax = Math.ceil(x + 8 * Math.sqrt(x) + 10);
+  let answeredImmediately = 0;
+  for (let n = 0; n < agents; n++) answeredImmediately += pi[n];
+  let served = 0;
+  let answeredInTime = 0;
+  let logPois = -x;
+  for (let k = 0; k <= kMax; k++) {
+    if (k > 0) logPois += Math.log(x) - Math.log(k);
+    answeredInTime += Math.exp(logPois) * served;
+    const next = new Array<number>(v.length).fill(0);
+    served += (v[0] * agents * mu) / unif;
+    for (let i = 0; i < v.length; i++) {
+      const out = agents * mu + i * theta + theta;
+      next[i] += v[i] * (1 - out / unif);
+      if (i > 0) next[i - 1] += (v[i] * (agents * mu + i * theta)) / unif;
+    }
+    v = next;
+  }
+
+  return {
+    serviceLevel: Math.min(1, answeredImmediately + answeredInTime),
+    asaSec: queue / lambda,
+    occupancy: busy / agents,
+    abandonPct: (theta * queue) / lambda,
+  };
+}
+
+/** Projected SL / ASA / occupancy for one half-hour with `agents` on the floor */
+function intervalStats(
+  agents: number,
+  volume30: number,
+  ahtMin: number,
+  targets: StaffingTargets,
+): IntervalStats {
+  const ahtSec = Math.max(1, ahtMin * 60);
+  const traffic = (volume30 * ahtSec) / INTERVAL_SEC;
+  if (traffic <= 0) return { serviceLevel: 1, asaSec: 0, occupancy: 0, abandonPct: 0 };
+  return targets.model === "erlangA"
+    ? erlangAStats(agents, traffic, ahtSec, targets.slSec, targets.patienceSec)
+    : erlangCStats(agents, traffic, ahtSec, targets.slSec);
+}
+
+/** Smallest headcount meeting the SL, ASA and occupancy targets for one half-hour */
+function requiredAgents(volume30: number, ahtMin: number, targets: StaffingTargets) {
+  const traffic = (volume30 * ahtMin * 60) / INTERVAL_SEC;
+  if (traffic <= 0) return 0;
+  let n = Math.max(1, Math.ceil(traffic / Math.max(0.1, targets.maxOccupancy)));
+  if (targets.model === "erlangC") n = Math.max(n, Math.floor(traffic) + 1);
+  for (; n < MAX_AGENTS_PER_INTERVAL; n++) {
+    const s = intervalStats(n, volume30, ahtMin, targets);
+    if (s.serviceLevel >= targets.slPct && s.asaSec <= targets.asaSec) return n;
+  }
+  return n;
+}
+
+/* Channels: chat (concurrent), email (asynchronous, answered within SLA hours), phone */
+
+const CHANNELS = ["chat", "email", "phone"] as const;
+type Channel = (typeof CHANNELS)[number];
+
+interface ChannelConfig {
+  enabled: boolean;
+  /** share of the daily volume arriving on this channel (%); enabled shares are normalised */
+  sharePct: number;
+  ahtMin: number;
+  /** contacts one agent works at once (chat); 1 for phone and email */
+  concurrency: number;
+  /** live channels: share answered within `slSec` (0..1) */
+  slPct: number;
+  slSec: number;
+  /** email: every message answered within this many hours */
+  slaHours: number;
+  /** own 24h intraday shape; unset = the weekday profile */
+  hourlyPct?: number[];
+}
+
+const CHANNEL_LABELS: Record<Channel, string> = { chat: "Chat", email: "Email", phone: "Phone" };
+const CHANNEL_COLORS: Record<Channel, string> = {
+  chat: "#8b5cf6",
+  email: "#f59e0b",
+  phone: "#0ea5e9",
+};
+
+const CHANNELS_DEFAULT: Record<Channel, ChannelConfig> = {
+  chat: {
+    enabled: true,
+    sharePct: 55,
+    ahtMin: 9,
+    concurrency: 2,
+    slPct: 0.8,
+    slSec: 60,
+    slaHours: 4,
+  },
+  email: {
+    enabled: true,
+    sharePct: 35,
+    ahtMin: 6,
+    concurrency: 1,
+    slPct: 0.8,
+    slSec: 60,
+    slaHours: 4,
+  },
+  phone: {
+    enabled: true,
+    sharePct: 10,
+    ahtMin: 6,
+    concurrency: 1,
+    slPct: 0.8,
+    slSec: 20,
+    slaHours: 4,
+  },
+};
+
+/**
+ * Stored channel settings → full configs. Older saves had one stream with a global AHT and
+ * SL target; those values seed every channel.
+ */
+function migrateChannels(cloud: unknown): Record<Channel, ChannelConfig> {
+  const legacy = legacyChannelSettings(cloud);
+  const stored = isObject(cloud) && isObject(cloud.channels) ? cloud.channels : {};
+  const out = {} as Record<Channel, ChannelConfig>;
+  for (const ch of CHANNELS) {
+    const saved = stored[ch];
+    out[ch] = { ...CHANNELS_DEFAULT[ch], ...(isObject(saved) ? saved : legacy) };
+  }
+  return out;
+}
+
+function isLiveChannel(ch: Channel) {
+  return ch !== "email";
+}
+
+/** what the intraday profile editor is shaping */
+type ProfileTarget = "weekday" | "special" | Channel;
+
+/** enabled channels' fraction of the daily volume */
+function channelShares(channels: Record<Channel, ChannelConfig>): Record<Channel, number> {
+  const total = CHANNELS.reduce(
+    (acc, ch) => acc + (channels[ch].enabled ? Math.max(0, channels[ch].sharePct) : 0),
+    0,
+  );
+  const out = {} as Record<Channel, number>;
+  for (const ch of CHANNELS) {
+    out[ch] = channels[ch].enabled && total > 0 ? Math.max(0, channels[ch].sharePct) / total : 0;
+  }
+  return out;
+}
+
+/** a channel's SL targets on top of the shared model / ASA / patience / occupancy settings */
+function channelTargets(base: StaffingTargets, cfg: ChannelConfig): StaffingTargets {
+  return { ...base, slPct: cfg.slPct, slSec: cfg.slSec };
+}
+
+/**
+ * Email is worked from a backlog: each half-hour's workload may be spread over the SLA window
+ * that follows it (clipped at the end of the day), and the floor needs enough agents to clear
+ * the spread workload at the occupancy ceiling.
+ */
+function backlogRequired48(volume48: number[], ahtMin: number, slaHours: number, maxOcc: number) {
+  const window = Math.max(1, Math.round(slaHours * 2));
+  const work = Array(volume48.length).fill(0);
+  volume48.forEach((v, k) => {
+    const span = Math.min(window, volume48.length - k);
+    for (let i = 0; i < span; i++) work[k + i] += (v * ahtMin) / span;
+  });
+  return work.map((mins) => Math.ceil(mins / (30 * Math.max(0.1, maxOcc)) - 1e-9));
+}
+
+/** half-hour agents needed for one channel's volume */
+function channelRequired48(
+  ch: Channel,
+  cfg: ChannelConfig,
+  volume48: number[],
+  base: StaffingTargets,
+) {
+  if (!cfg.enabled) return volume48.map(() => 0);
+  if (!isLiveChannel(ch)) {
+    return backlogRequired48(volume48, cfg.ahtMin, cfg.slaHours, base.maxOccupancy);
+  }
+  const targets = channelTargets(base, cfg);
+  const aht = cfg.ahtMin / Math.max(1, cfg.concurrency);
+  return volume48.map((v30) => requiredAgents(v30, aht, targets));
+}
+
+/** channels without their own intraday shapes, so a special day's profile applies to all */
+function withoutChannelProfiles(
+  channels: Record<Channel, ChannelConfig>,
+): Record<Channel, ChannelConfig> {
+  const out = { ...channels };
+  for (const ch of CHANNELS) {
+    const cfg = { ...channels[ch] };
+    delete cfg.hourlyPct;
+    out[ch] = cfg;
+  }
+  return out;
+}
+
+/** per-channel volume and required agents for one day, plus the combined required curve */
+function channelDay(
+  channels: Record<Channel, ChannelConfig>,
+  dayProfile: number[],
+  perDay: number,
+  base: StaffingTargets,
+) {
+  const shares = channelShares(channels);
+  const volume = {} as Record<Channel, number[]>;
+  const required = {} as Record<Channel, number[]>;
+  for (const ch of CHANNELS) {
+    volume[ch] = dayDemand48(channels[ch].hourlyPct ?? dayProfile, perDay * shares[ch]);
+    required[ch] = channelRequired48(ch, channels[ch], volume[ch], base);
+  }
+  const total = volume.chat.map((_, k) => CHANNELS.reduce((acc, ch) => acc + required[ch][k], 0));
+  return { volume, required, total };
+}
+
+/** split a whole headcount across weights (largest remainder) */
+function splitAgents(total: number, weights: number[]) {
+  const sum = weights.reduce((a, b) => a + b, 0);
+  if (sum <= 0 || total <= 0) return weights.map(() => 0);
+  const raw = weights.map((w) => (w / sum) * total);
+  const out = raw.map(Math.floor);
+  let left = total - out.reduce((a, b) => a + b, 0);
+  const order = raw.map((r, i) => ({ i, frac: r - out[i] })).sort((a, b) => b.frac - a.frac);
+  for (const { i } of order) {
+    if (left <= 0) break;
+    out[i]++;
+    left--;
+  }
+  return out;
+}
+
+/* Skills: demand split per skill, rostered agents allocated to the skills they hold */
+
+/** skill id → proficiency (0 = not held); agents without a skills list hold every skill */
+function agentSkillLevels(agent: Agent, skills: Skill[]): Record<string, 0 | Proficiency> {
+  const out: Record<string, 0 | Proficiency> = {};
+  for (const s of skills) out[s.id] = agent.skills ? 0 : 3;
+  for (const s of agent.skills ?? []) if (s.skill in out) out[s.skill] = s.proficiency;
+  return out;
+}
+
+function migrateSkills(raw: unknown): Skill[] {
+  if (!Array.isArray(raw)) return SKILLS_DEFAULT.map((s) => ({ ...s }));
+  return raw
+    .filter(isObject)
+    .filter((s) => typeof s.id === "string")
+    .map((s) => ({
+      id: String(s.id),
+      name: String(s.name ?? s.id),
+      sharePct: typeof s.sharePct === "number" && Number.isFinite(s.sharePct) ? s.sharePct : 0,
+    }));
+}
+
+function skillShares(skills: Skill[]): Record<string, number> {
+  const total = skills.reduce((acc, s) => acc + Math.max(0, s.sharePct), 0);
+  const out: Record<string, number> = {};
+  for (const s of skills) out[s.id] = total > 0 ? Math.max(0, s.sharePct) / total : 0;
+  return out;
+}
+
+/**
+ * Effective coverage per skill for the agents on the floor in one half-hour. Each agent works
+ * one skill: specialists are placed first, each on their skill with the largest unmet share of
+ * its requirement, and counts by PROFICIENCY_FACTOR.
+ */
+function allocateSkills(
+  onFloor: Agent[],
+  skills: Skill[],
+  required: Record<string, number>,
+): Record<string, number> {
+  const cov: Record<string, number> = {};
+  for (const s of skills) cov[s.id] = 0;
+  const held = onFloor
+    .map((a) => {
+      const levels = agentSkillLevels(a, skills);
+      return skills.filter((s) => levels[s.id] > 0).map((s) => ({
+        id: s.id,
+        factor: PROFICIENCY_FACTOR[levels[s.id] as Proficiency],
+      }));
+    })
+    .filter((list) => list.length > 0)
+    .sort((x, y) => x.length - y.length);
+  for (const options of held) {
+    let best = options[0];
+    let bestGap = -Infinity;
+    for (const o of options) {
+      const need = required[o.id] ?? 0;
+      const gap = need > 0 ? (need - cov[o.id]) / need : -cov[o.id] - 1;
+      if (gap > bestGap || (gap === bestGap && o.factor > best.factor)) {
+        best = o;
+        bestGap = gap;
+      }
+    }
+    cov[best.id] += best.factor;
+  }
+  return cov;
+}
+
+/* =====================================================================================
+   AUTO PLANNER
+===================================================================================== */
+
+interface AutoPlanSettings {
+  minShiftMins: number;
+  maxShiftMins: number;
+  maxWeeklyMins: number;
+  maxDaysPerWeek: number;
+  earliestStartMin: number;
+  latestEndMin: number;
+}
+
+const AUTO_PLAN_DEFAULT: AutoPlanSettings = {
+  minShiftMins: 6 * 60,
+  maxShiftMins: 9 * 60,
+  maxWeeklyMins: 45 * 60,
+  maxDaysPerWeek: 5,
+  earliestStartMin: 7 * 60,
+  latestEndMin: 24 * 60,
+};
+
+/** agent-half-hours short of (under) or above (over) the required curve */
+interface StaffingScore {
+  under: number;
+  over: number;
+}
+
+function staffingScore(required: number[], coverage: number[]): StaffingScore {
+  let under = 0;
+  let over = 0;
+  for (let k = 0; k < required.length; k++) {
+    const gap = (coverage[k] || 0) - required[k];
+    if (gap < 0) under -= gap;
+    else over += gap;
+  }
+  return { under, over };
+}
+
+/** weekday template coverage (no vacations), including overnight spill from the day before */
+function templateCoverage(roster: Roster, agents: Agent[], day: Weekday) {
+  const cov = Array(48).fill(0);
+  const prevDay = prevWeekday(day);
+  for (const a of agents) {
+    const blk = roster[a.name]?.[day];
+    if (blk) dayBlockCoverage(blk).forEach((c, k) => k < 48 && (cov[k] += c));
+    const carry = roster[a.name]?.[prevDay];
+    if (carry) dayBlockCoverage(carry).forEach((c, k) => k >= 48 && (cov[k - 48] += c));
+  }
+  return cov;
+}
+
+/** one shift for an agent: lunch (if the agent takes one) centred on a half-hour */
+function buildShift(agent: Agent, startMin: number, lengthMins: number): DayBlock {
+  const withBreak = agent.breakPref === "60" && lengthMins > 60;
+  return {
+    active: true,
+    segments: [{ startMin, endMin: (startMin + lengthMins) % DAY_MINS }],
+    activities: withBreak
+      ? [
+          {
+            type: "lunch",
+            startMin: (startMin + Math.floor(lengthMins / 60) * 30) % DAY_MINS,
+            mins: 60,
+          },
+        ]
+      : [],
+  };
+}
+
+/**
+ * Greedy shift generator. Agents take turns claiming one working day each; every turn
+ * picks the weekday + start + length that closes the most under-staffed half-hours,
+ * with over-staffing as the tie-breaker. Stops per agent at the day / weekly-hour caps, or
+ * once no shift would cover more gaps than it over-staffs.
+ */
+function autoPlanRoster(
+  agents: Agent[],
+  required: Record<Weekday, number[]>,
+  settings: AutoPlanSettings,
+): Roster {
+  const residual = {} as Record<Weekday, number[]>;
+  for (const d of WEEKDAYS) residual[d] = required[d].slice();
+
+  const plan: Roster = {};
+  const usedMins: Record<string, number> = {};
+  const usedDays: Record<string, number> = {};
+  for (const a of agents) {
+    const week = {} as Record<Weekday, DayBlock>;
+    for (const d of WEEKDAYS) week[d] = { ...buildShift(a, 9 * 60, 8 * 60), active: false };
+    plan[a.name] = week;
+    usedMins[a.name] = 0;
+    usedDays[a.name] = 0;
+  }
+
+  const minLen = Math.max(60, settings.minShiftMins);
+  const maxLen = Math.max(minLen, Math.min(settings.maxShiftMins, DAY_MINS - 30));
+  // shifts may start up to 23:30 and run past midnight when latestEnd > 24h
+  const earliest = clamp(settings.earliestStartMin, 0, DAY_MINS - 30);
+  const latest = clamp(settings.latestEndMin, earliest + minLen, earliest + DAY_MINS - 30);
+
+  // candidate shifts only depend on break preference, start and length
+  const shiftCache = new Map<string, { blk: DayBlock; cov: number[] }>();
+
+  let progress = true;
+  while (progress) {
+    progress = false;
+    for (const a of agents) {
+      const daysLeft = settings.maxDaysPerWeek - usedDays[a.name];
+      if (daysLeft <= 0) continue;
+      const minsLeft = settings.maxWeeklyMins - usedMins[a.name];
+      const lenCap = Math.min(maxLen, minsLeft - (daysLeft - 1) * minLen);
+      if (lenCap < minLen) continue;
+
+      let best: { day: Weekday; blk: DayBlock; cov: number[]; score: number } | null = null;
+      for (const d of WEEKDAYS) {
+        if (plan[a.name][d].active) continue;
+        if (d === "Friday" && !a.fridayAllowed) continue;
+        const res = residual[d];
+        const resNext = residual[nextWeekday(d)];
+        for (let len = minLen; len <= lenCap; len += 30) {
+          for (let start = earliest; start + len <= latest && start < DAY_MINS; start += 30) {
+            const key = `${a.breakPref}:${start}:${len}`;
+            let cached = shiftCache.get(key);
+            if (!cached) {
+              const blk = buildShift(a, start, len);
+              cached = { blk, cov: dayBlockCoverage(blk) };
+              shiftCache.set(key, cached);
+            }
+            const { blk, cov } = cached;
+            let score = 0;
+            for (let k = 0; k < 96; k++) {
+              if (!cov[k]) continue;
+              const r = k < 48 ? res[k] : resNext[k - 48];
+              score += r > 0 ? 10 : -1;
+            }
+            if (!best || score > best.score) best = { day: d, blk, cov, score };
+          }
+        }
+      }
+      // nothing left this agent can help with: another shift would only over-staff
+      if (!best || best.score <= 0) continue;
+
+      const { day, blk, cov } = best;
+      plan[a.name][day] = blk;
+      cov.forEach((c, k) => {
+        if (k < 48) residual[day][k] -= c;
+        else residual[nextWeekday(day)][k - 48] -= c;
+      });
+      usedDays[a.name]++;
+      usedMins[a.name] += blockLengthMins(blk);
+      progress = true;
+    }
+  }
+  return plan;
+}
+
+/** break must start this long after its segment starts and end this long before it ends */
+const BREAK_WINDOW = { afterStartMins: 2 * 60, beforeEndMins: 60 };
+
+/** activity types the stagger pass may move; meetings and training stay where they are */
+const MOVABLE_ACTIVITIES: ActivityType[] = ["break", "lunch"];
+
+/** minimum gap the stagger pass keeps between an agent's own breaks */
+const MIN_GAP_BETWEEN_BREAKS = 60;
+
+/** weekday template coverage as agent-fractions (15 of 30 minutes worked = 0.5) */
+function templateWork(roster: Roster, agents: Agent[], day: Weekday) {
+  const cov = Array(48).fill(0);
+  const prevDay = prevWeekday(day);
+  for (const a of agents) {
+    const blk = roster[a.name]?.[day];
+    if (blk) blockWorkMinutes(blk).forEach((m, k) => k < 48 && (cov[k] += m / 30));
+    const carry = roster[a.name]?.[prevDay];
+    if (carry) blockWorkMinutes(carry).forEach((m, k) => k >= 48 && (cov[k - 48] += m / 30));
+  }
+  return cov;
+}
+
+/**
+ * Re-place movable breaks on one weekday so they land where coverage has the most slack.
+ * Breaks are placed one by one (tightest window first), then every break is lifted and
+ * re-placed once more against the rest of the day. Works on a 96-bucket horizon (this day
+ * plus the next) so breaks of overnight shifts are weighed against the right demand.
+ * Coverage is fractional here so 15-minute breaks count for what they take.
+ */
+function staggerDayBreaks(
+  roster: Roster,
+  agents: Agent[],
+  day: Weekday,
+  required: Record<Weekday, number[]>,
+) {
+  const nextDay = nextWeekday(day);
+  const req = [...required[day], ...required[nextDay]];
+  const blocks: Record<string, DayBlock> = {};
+  const movable: Array<{ name: string; idx: number }> = [];
+  for (const a of agents) {
+    const blk = roster[a.name]?.[day];
+    if (!blk) continue;
+    blocks[a.name] = { ...blk, activities: blk.activities.map((x) => ({ ...x })) };
+    if (!blk.active) continue;
+    blk.activities.forEach((x, idx) => {
+      if (!x.pinned && x.mins > 0 && MOVABLE_ACTIVITIES.includes(x.type)) {
+        movable.push({ name: a.name, idx });
+      }
+    });
+  }
+
+  const cov = [...templateWork(roster, agents, day), ...templateWork(roster, agents, nextDay)];
+  const withoutItem = (name: string, idx: number): DayBlock => {
+    const blk = blocks[name];
+    return { ...blk, activities: blk.activities.filter((_, i) => i !== idx) };
+  };
+  const withItemAt = (name: string, idx: number, startMin: number): DayBlock => {
+    const blk = blocks[name];
+    return {
+      ...blk,
+      activities: blk.activities.map((x, i) => (i === idx ? { ...x, startMin } : x)),
+    };
+  };
+  const lostMinutes = (name: string, idx: number, blk: DayBlock) => {
+    const full = blockWorkMinutes(withoutItem(name, idx));
+    return blockWorkMinutes(blk).map((m, k) => full[k] - m);
+  };
+
+  // lift every movable activity out of the coverage first
+  for (const { name, idx } of movable) {
+    lostMinutes(name, idx, blocks[name]).forEach((m, k) => (cov[k] += m / 30));
+  }
+
+  /** candidate starts (absolute) inside the work segment the activity sits in */
+  const windowOf = (name: string, idx: number) => {
+    const blk = blocks[name];
+    const span = blockSpan(blk);
+    const x = blk.activities[idx];
+    const anchor = blk.segments[0]?.startMin ?? 0;
+    const at = x.startMin < anchor ? x.startMin + DAY_MINS : x.startMin;
+    const seg =
+      span.segments.find((s) => at >= s.start && at < s.end) ??
+      span.segments.find((s) => s.end - s.start >= x.mins) ??
+      span.segments[0];
+    if (!seg) return { lo: at, hi: at };
+    const lo = Math.ceil((seg.start + BREAK_WINDOW.afterStartMins) / 30) * 30;
+    const hi = Math.floor((seg.end - BREAK_WINDOW.beforeEndMins - x.mins) / 30) * 30;
+    // segment too short for the window: fall back to anywhere inside it
+    if (hi < lo) {
+      return {
+        lo: Math.ceil(seg.start / 30) * 30,
+        hi: Math.max(seg.start, Math.floor((seg.end - x.mins) / 30) * 30),
+      };
+    }
+    return { lo, hi };
+  };
+
+  const overlapsOwn = (name: string, idx: number, start: number) => {
+    const blk = blocks[name];
+    const anchor = blk.segments[0]?.startMin ?? 0;
+    const mins = blk.activities[idx].mins;
+    return blk.activities.some((o, i) => {
+      if (i === idx || o.mins <= 0) return false;
+      const os = o.startMin < anchor ? o.startMin + DAY_MINS : o.startMin;
+      return (
+        os < start + mins + MIN_GAP_BETWEEN_BREAKS && start < os + o.mins + MIN_GAP_BETWEEN_BREAKS
+      );
+    });
+  };
+
+  const place = (name: string, idx: number) => {
+    const { lo, hi } = windowOf(name, idx);
+    let bestStart = blocks[name].activities[idx].startMin;
+    let bestCost = Infinity;
+    for (let start = lo; start <= hi; start += 30) {
+      if (overlapsOwn(name, idx, start)) continue;
+      const lost = lostMinutes(name, idx, withItemAt(name, idx, start % DAY_MINS));
+      let cost = 0;
+      for (let k = 0; k < 96; k++) {
+        if (!lost[k]) continue;
+        const f = lost[k] / 30;
+        const gap = cov[k] - f - req[k];
+        // going short hurts far more than eating into a surplus
+        cost += gap < 0 ? 100 * Math.min(f, -gap) : -Math.min(gap, 3) * f;
+      }
+      if (cost < bestCost) {
+        bestCost = cost;
+        bestStart = start % DAY_MINS;
+      }
+    }
+    blocks[name] = withItemAt(name, idx, bestStart);
+    lostMinutes(name, idx, blocks[name]).forEach((m, k) => (cov[k] -= m / 30));
+  };
+
+  const lift = (name: string, idx: number) => {
+    lostMinutes(name, idx, blocks[name]).forEach((m, k) => (cov[k] += m / 30));
+  };
+
+  const width = (item: { name: string; idx: number }) => {
+    const { lo, hi } = windowOf(item.name, item.idx);
+    return hi - lo;
+  };
+  const order = movable.slice().sort((a, b) => width(a) - width(b));
+  for (const { name, idx } of order) place(name, idx);
+  for (const { name, idx } of order) {
+    lift(name, idx);
+    place(name, idx);
+  }
+  return blocks;
+}
+
+/** break stagger pass over every weekday in turn; returns a new roster */
+function staggerBreaks(roster: Roster, agents: Agent[], required: Record<Weekday, number[]>) {
+  const next: Roster = { ...roster };
+  for (const a of agents) if (next[a.name]) next[a.name] = { ...next[a.name] };
+  for (const d of WEEKDAYS) {
+    const placed = staggerDayBreaks(next, agents, d, required);
+    for (const name of Object.keys(placed)) next[name][d] = placed[name];
+  }
+  return next;
+}
+
+interface RosterChange {
+  agent: string;
+  day: Weekday;
+  from: string;
+  to: string;
+}
+
+function rosterDiff(agents: Agent[], before: Roster, after: Roster): RosterChange[] {
+  const out: RosterChange[] = [];
+  for (const a of agents) {
+    for (const d of WEEKDAYS) {
+      const from = formatBlock(before[a.name]?.[d]);
+      const to = formatBlock(after[a.name]?.[d]);
+      if (from !== to) out.push({ agent: a.name, day: d, from, to });
+    }
+  }
+  return out;
+}
+
+/* =====================================================================================
+   LABOR RULES (checked against the selected week as worked)
+===================================================================================== */
+
+/** 0 switches a rule off */
+interface LaborRules {
+  maxWeeklyMins: number;
+  maxConsecutiveDays: number;
+  minRestMins: number;
+  minShiftMins: number;
+  maxShiftMins: number;
+  /** longest stretch of work allowed without a break of at least breakMins */
+  breakAfterMins: number;
+  breakMins: number;
+}
+
+const LABOR_RULES_DEFAULT: LaborRules = {
+  maxWeeklyMins: 48 * 60,
+  maxConsecutiveDays: 6,
+  minRestMins: 11 * 60,
+  minShiftMins: 4 * 60,
+  maxShiftMins: 10 * 60,
+  breakAfterMins: 6 * 60,
+  breakMins: 30,
+};
+
+type LaborRuleId = "weekly" | "consecutive" | "rest" | "minShift" | "maxShift" | "break";
+
+const LABOR_RULE_LABELS: Record<LaborRuleId, string> = {
+  weekly: "Weekly hours",
+  consecutive: "Consecutive days",
+  rest: "Rest between shifts",
+  minShift: "Shift too short",
+  maxShift: "Shift too long",
+  break: "Missing break",
+};
+
+interface LaborViolation {
+  agent: string;
+  /** the day the violation shows on; the weekly rule has none */
+  day?: Weekday;
+  rule: LaborRuleId;
+  message: string;
+}
+
+const hoursLabel = (mins: number) => `${Math.round((mins / 60) * 10) / 10}h`;
+
+/** the longest run of work in a block not interrupted by a break / lunch ≥ minBreak or a gap */
+function longestWorkStretch(blk: DayBlock, minBreak: number) {
+  const span = blockSpan(blk);
+  const rests = span.activities
+    .filter((x) => MOVABLE_ACTIVITIES.includes(x.type) && x.end - x.start >= minBreak)
+    .sort((a, b) => a.start - b.start);
+  const pieces: Array<{ start: number; end: number }> = [];
+  for (const seg of [...span.segments].sort((a, b) => a.start - b.start)) {
+    let from = seg.start;
+    for (const r of rests) {
+      if (r.end <= from || r.start >= seg.end) continue;
+      if (r.start > from) pieces.push({ start: from, end: r.start });
+      from = Math.max(from, r.end);
+    }
+    if (from < seg.end) pieces.push({ start: from, end: seg.end });
+  }
+  // back-to-back segments are one stretch
+  let longest = 0;
+  let run: { start: number; end: number } | null = null;
+  for (const p of pieces) {
+    if (run && p.start <= run.end) run.end = Math.max(run.end, p.end);
+    else run = { ...p };
+    longest = Math.max(longest, run.end - run.start);
+  }
+  return longest;
+}
+
+/**
+ * Every rule broken by a week of blocks. The week repeats, so Friday's shift is followed by
+ * Saturday's for rest and consecutive days.
+ */
+function checkLaborRules(week: Roster, agents: Agent[], rules: LaborRules): LaborViolation[] {
+  const out: LaborViolation[] = [];
+  for (const a of agents) {
+    const blocks = WEEKDAYS.map((d) => {
+      const blk = week[a.name]?.[d];
+      return blk && blk.active && blk.segments.length ? blk : undefined;
+    });
+    const add = (rule: LaborRuleId, message: string, day?: Weekday) =>
+      out.push({ agent: a.name, day, rule, message });
+
+    const weekly = blocks.reduce((sum, b) => sum + (b ? blockLengthMins(b) : 0), 0);
+    if (rules.maxWeeklyMins && weekly > rules.maxWeeklyMins) {
+      add("weekly", `${hoursLabel(weekly)} a week, over ${hoursLabel(rules.maxWeeklyMins)}`);
+    }
+
+    if (rules.maxConsecutiveDays) {
+      const worked = blocks.filter(Boolean).length;
+      if (worked === WEEKDAYS.length && rules.maxConsecutiveDays < worked) {
+        add("consecutive", "works every day of the week", WEEKDAYS[rules.maxConsecutiveDays]);
+      } else if (worked < WEEKDAYS.length) {
+        // start counting after a day off so runs over the week's end are whole
+        const first = blocks.findIndex((b) => !b);
+        let run = 0;
+        for (let i = 1; i <= WEEKDAYS.length; i++) {
+          const k = (first + i) % WEEKDAYS.length;
+          run = blocks[k] ? run + 1 : 0;
+          if (run === rules.maxConsecutiveDays + 1) {
+            const message = `${run} days in a row (max ${rules.maxConsecutiveDays})`;
+            add("consecutive", message, WEEKDAYS[k]);
+          }
+        }
+      }
+    }
+
+    WEEKDAYS.forEach((d, i) => {
+      const blk = blocks[i];
+      if (!blk) return;
+      const len = blockLengthMins(blk);
+      if (rules.minShiftMins && len < rules.minShiftMins) {
+        add("minShift", `${hoursLabel(len)} shift, under ${hoursLabel(rules.minShiftMins)}`, d);
+      }
+      if (rules.maxShiftMins && len > rules.maxShiftMins) {
+        add("maxShift", `${hoursLabel(len)} shift, over ${hoursLabel(rules.maxShiftMins)}`, d);
+      }
+      if (rules.breakAfterMins) {
+        const stretch = longestWorkStretch(blk, rules.breakMins);
+        if (stretch > rules.breakAfterMins) {
+          add(
+            "break",
+            `${hoursLabel(stretch)} without a ${rules.breakMins} min break ` +
+              `(max ${hoursLabel(rules.breakAfterMins)})`,
+            d,
+          );
+        }
+      }
+      const prev = blocks[(i + WEEKDAYS.length - 1) % WEEKDAYS.length];
+      if (rules.minRestMins && prev) {
+        const rest = DAY_MINS + blockSpan(blk).start - blockSpan(prev).end;
+        if (rest < rules.minRestMins) {
+          add(
+            "rest",
+            rest < 0
+              ? `overlaps ${prevWeekday(d)}'s shift`
+              : `${hoursLabel(rest)} rest after ${prevWeekday(d)}, under ` +
+                  hoursLabel(rules.minRestMins),
+            d,
+          );
+        }
+      }
+    });
+  }
+  return out;
+}
+
+/* =====================================================================================
+   HOURS SUMMARY (paid / productive hours, FTE and utilization)
+===================================================================================== */
+
+/** the site's weekend; Saudi Arabia rests on Friday and Saturday */
+const WEEKEND_DAYS: Weekday[] = ["Friday", "Saturday"];
+
+const FTE_WEEK_MINS_DEFAULT = 40 * 60;
+
+interface HoursTotals {
+  /** paid: every work segment, activities included */
+  paidMins: number;
+  breakMins: number;
+  /** on the queue: paid minus breaks, meetings and training */
+  productiveMins: number;
+  daysWorked: number;
+  weekendDays: number;
+  vacationDays: number;
+}
+
+interface AgentHours extends HoursTotals {
+  agent: Agent;
+}
+
+type HoursGrouping = "level" | "country" | "remote";
+
+const HOURS_GROUPINGS: Record<HoursGrouping, { label: string; key: (a: Agent) => string }> = {
+  level: { label: "Level", key: (a) => a.level },
+  country: { label: "Country", key: (a) => a.country || "—" },
+  remote: { label: "Remote / on-site", key: (a) => (a.remote ? "remote" : "on-site") },
+};
+
+const emptyHours = (): HoursTotals => ({
+  paidMins: 0,
+  breakMins: 0,
+  productiveMins: 0,
+  daysWorked: 0,
+  weekendDays: 0,
+  vacationDays: 0,
+});
+
+function addHours(into: HoursTotals, h: HoursTotals) {
+  into.paidMins += h.paidMins;
+  into.breakMins += h.breakMins;
+  into.productiveMins += h.productiveMins;
+  into.daysWorked += h.daysWorked;
+  into.weekendDays += h.weekendDays;
+  into.vacationDays += h.vacationDays;
+  return into;
+}
+
+/** what each agent works on `days` dates from `startISO`, vacations and holidays applied */
+function agentHours(
+  agents: Agent[],
+  roster: Roster,
+  overrides: RosterOverrides,
+  vacations: Vacations,
+  groups: RotationGroup[],
+  specialDays: SpecialDays,
+  periods: SeasonalPeriod[],
+  startISO: string,
+  days: number,
+): AgentHours[] {
+  return agents.map((a) => {
+    const h: AgentHours = { agent: a, ...emptyHours() };
+    for (let i = 0; i < days; i++) {
+      const date = addDaysISO(startISO, i);
+      if (isAgentOnVacation(a.name, date, vacations)) {
+        h.vacationDays++;
+        continue;
+      }
+      const blk = effectiveBlock(roster, overrides, a, date, groups, specialDays, periods);
+      if (!blk || !blk.active || blk.segments.length === 0) continue;
+      const { net, acts } = blockMinutesIn(blk, 0, 2 * DAY_MINS);
+      h.paidMins += blockLengthMins(blk);
+      h.breakMins += (acts.break || 0) + (acts.lunch || 0);
+      h.productiveMins += net;
+      h.daysWorked++;
+      if (WEEKEND_DAYS.includes(weekdayNameFromISO(date))) h.weekendDays++;
+    }
+    return h;
+  });
+}
+
+/** totals per group, in first-seen order */
+function groupHours(rows: AgentHours[], grouping: HoursGrouping) {
+  const out = new Map<string, HoursTotals & { agents: number }>();
+  for (const r of rows) {
+    const key = HOURS_GROUPINGS[grouping].key(r.agent);
+    const g = out.get(key) ?? { ...emptyHours(), agents: 0 };
+    addHours(g, r);
+    g.agents++;
+    out.set(key, g);
+  }
+  return out;
+}
+
+/** productive share of paid time, 0..1 */
+const utilization = (h: HoursTotals) => (h.paidMins ? h.productiveMins / h.paidMins : 0);
+
+/** paid time as full-time equivalents over the period */
+const fteOf = (h: HoursTotals, fteWeekMins: number, days: number) =>
+  fteWeekMins > 0 ? h.paidMins / ((fteWeekMins * days) / 7) : 0;
+
+function exportHoursCSV(rows: AgentHours[], fteWeekMins: number, days: number) {
+  const hours = (m: number) => (m / 60).toFixed(2);
+  const cells = (h: HoursTotals) => [
+    hours(h.paidMins),
+    hours(h.breakMins),
+    hours(h.productiveMins),
+    (utilization(h) * 100).toFixed(1),
+    String(h.daysWorked),
+    String(h.weekendDays),
+    String(h.vacationDays),
+    fteOf(h, fteWeekMins, days).toFixed(2),
+  ];
+  const header = [
+    "group",
+    "name",
+    "agents",
+    "paid_hours",
+    "break_hours",
+    "productive_hours",
+    "utilization_pct",
+    "days_worked",
+    "weekend_days",
+    "vacation_days",
+    "fte",
+  ];
+  const lines = rows.map((r) => ["agent", r.agent.name, "1", ...cells(r)]);
+  for (const grouping of Object.keys(HOURS_GROUPINGS) as HoursGrouping[]) {
+    for (const [name, g] of groupHours(rows, grouping)) {
+      lines.push([grouping, name, String(g.agents), ...cells(g)]);
+    }
+  }
+  const total = rows.reduce((acc, r) => addHours(acc, r), emptyHours());
+  lines.push(["total", "all", String(rows.length), ...cells(total)]);
+  const quote = (v: string) => (/[",\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v);
+  return [header, ...lines].map((l) => l.map(quote).join(",")).join("\n");
+}
+
+/* =====================================================================================
+   TICKET HISTORY (derive the load profile from past tickets)
+===================================================================================== */
+
+type TicketExportFormat = "csv" | "zendesk" | "freshdesk";
+
+/** created-at column names per export, checked case-insensitively in order */
+const TICKET_EXPORT_FORMATS: Record<TicketExportFormat, { label: string; columns: string[] }> = {
+  csv: { label: "Generic CSV", columns: ["created_at", "created", "timestamp", "date"] },
+  zendesk: { label: "Zendesk", columns: ["Created at", "created_at"] },
+  freshdesk: { label: "Freshdesk", columns: ["Created time", "created_at"] },
+};
+
+/** days further than this many (scaled) MADs from their weekday median are dropped */
+const TICKET_OUTLIER_MADS = 3.5;
+/**
+ * floor for the MAD as a share of the median (and at least one ticket): when most days have
+ * the same total the MAD is 0, and any other day would count as an outlier
+ */
+const TICKET_OUTLIER_MIN_SPREAD = 0.1;
+
+interface TicketTable {
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+interface TicketProfile {
+  from: string;
+  to: string;
+  tickets: number;
+  /** days per weekday that made it into the averages */
+  sampleDays: Record<Weekday, number>;
+  excluded: Array<{ date: string; total: number }>;
+  /** only weekdays with at least one usable day are present */
+  dailyAvg: Partial<Record<Weekday, number>>;
+  hourlyPctByDay: Partial<Record<Weekday, number[]>>;
+}
+
+/**
+ * CSV or JSON export → flat rows. JSON may be an array of tickets or the
+ * `{ tickets: [...] }` / `{ results: [...] }` envelopes the helpdesk APIs return.
+ */
+function parseTicketExport(text: string): TicketTable {
+  const trimmed = text.trim();
+  if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+    const data = JSON.parse(trimmed);
+    const list: unknown[] = Array.isArray(data) ? data : data.tickets ?? data.results ?? [];
+    const rows = list.map((t) => {
+      const obj: Record<string, string> = {};
+      for (const [k, v] of Object.entries(isObject(t) ? t : {})) if (v != null) obj[k] = String(v);
+      return obj;
+    });
+    return { headers: Object.keys(rows[0] ?? {}), rows };
+  }
+  return parseCSV(trimmed);
+}
+
+function detectTicketFormat(headers: string[]): TicketExportFormat {
+  if (headers.includes("Created time")) return "freshdesk";
+  if (headers.includes("Created at")) return "zendesk";
+  return "csv";
+}
+
+function ticketTimestampColumn(headers: string[], format: TicketExportFormat) {
+  for (const c of TICKET_EXPORT_FORMATS[format].columns) {
+    const hit = headers.find((h) => h.toLowerCase() === c.toLowerCase());
+    if (hit) return hit;
+  }
+  return undefined;
+}
+
+/**
+ * Timestamp → site-local date and minute of day. Wall-clock values ("2024-03-05 14:32") are
+ * taken as-is; values with a zone ("…Z", "+03:00", "+0000") are converted to `timeZone`.
+ */
+function parseTicketTimestamp(
+  raw: string,
+  timeZone: string,
+): { date: string; min: number } | undefined {
+  const m = raw
+    .trim()
+    .match(/^(\d{4})-(\d{2})-(\d{2})[T ](\d{1,2}):(\d{2})(?::\d{2}(?:\.\d+)?)?\s*(Z|[+-]\d{2}:?\d{2})?$/i);
+  if (m) {
+    const [, y, mo, d, h, mi, zone] = m;
+    if (!zone) return { date: `${y}-${mo}-${d}`, min: parseInt(h, 10) * 60 + parseInt(mi, 10) };
+    const offset =
+      zone.toUpperCase() === "Z"
+        ? 0
+        : (zone[0] === "-" ? -1 : 1) *
+          (parseInt(zone.slice(1, 3), 10) * 60 + parseInt(zone.slice(-2), 10));
+    const utc = Date.UTC(+y, +mo - 1, +d, +h, +mi) - offset * 60000;
+    return zonedParts(utc, timeZone);
+  }
+  // other formats: Date.parse takes them as browser-local wall clock; read that clock back
+  const t = Date.parse(raw);
+  return Number.isNaN(t) ? undefined : zonedParts(t);
+}
+
+function median(xs: number[]) {
+  if (xs.length === 0) return 0;
+  const s = xs.slice().sort((a, b) => a - b);
+  const mid = Math.floor(s.length / 2);
+  return s.length % 2 ? s[mid] : (s[mid - 1] + s[mid]) / 2;
+}
+
+/** which of one weekday's daily totals are outliers (see TICKET_OUTLIER_MADS) */
+function ticketOutliers(totals: number[]): boolean[] {
+  const med = median(totals);
+  const mad = 1.4826 * median(totals.map((t) => Math.abs(t - med)));
+  const spread = Math.max(mad, TICKET_OUTLIER_MIN_SPREAD * med, 1);
+  return totals.map((t) => Math.abs(t - med) > TICKET_OUTLIER_MADS * spread);
+}
+
+/**
+ * Per-weekday daily volume and hourly profile from the last `weeks` weeks of tickets (ending at
+ * the newest ticket). Days without tickets count as zero-volume days; outliers per weekday
+ * (median ± TICKET_OUTLIER_MADS · MAD) are excluded before averaging.
+ */
+function deriveTicketProfile(
+  stamps: Array<{ date: string; min: number }>,
+  weeks: number,
+): TicketProfile | undefined {
+  if (stamps.length === 0) return undefined;
+  const to = stamps.reduce((acc, s) => (compareISO(s.date, acc) > 0 ? s.date : acc), stamps[0].date);
+  const from = addDaysISO(to, -(weeks * 7 - 1));
+
+  const byDate: Record<string, number[]> = {};
+  for (let d = from; compareISO(d, to) <= 0; d = addDaysISO(d, 1)) byDate[d] = Array(24).fill(0);
+  let tickets = 0;
+  for (const s of stamps) {
+    const hours = byDate[s.date];
+    if (!hours) continue;
+    hours[Math.floor(s.min / 60) % 24]++;
+    tickets++;
+  }
+
+  const sampleDays = Object.fromEntries(WEEKDAYS.map((d) => [d, 0])) as Record<Weekday, number>;
+  const excluded: TicketProfile["excluded"] = [];
+  const dailyAvg: TicketProfile["dailyAvg"] = {};
+  const hourlyPctByDay: TicketProfile["hourlyPctByDay"] = {};
+  for (const day of WEEKDAYS) {
+    const dates = Object.keys(byDate).filter((d) => weekdayNameFromISO(d) === day);
+    const totals = dates.map((d) => byDate[d].reduce((a, b) => a + b, 0));
+    const outliers = ticketOutliers(totals);
+    const hours = Array(24).fill(0);
+    let sum = 0;
+    dates.forEach((d, i) => {
+      if (outliers[i]) {
+        excluded.push({ date: d, total: totals[i] });
+        return;
+      }
+      byDate[d].forEach((n, h) => (hours[h] += n));
+      sum += totals[i];
+      sampleDays[day]++;
+    });
+    if (sampleDays[day] === 0 || sum === 0) continue;
+    dailyAvg[day] = Math.round(sum / sampleDays[day]);
+    hourlyPctByDay[day] = hours.map((n) => Math.round((n / sum) * 1000) / 10);
+  }
+  excluded.sort((a, b) => compareISO(a.date, b.date));
+  return { from, to, tickets, sampleDays, excluded, dailyAvg, hourlyPctByDay };
+}
+
+/** tickets per calendar date over the whole export, zero-filled between first and last date */
+function dailyTicketTotals(stamps: Array<{ date: string; min: number }>): Record<string, number> {
+  const out: Record<string, number> = {};
+  if (stamps.length === 0) return out;
+  let first = stamps[0].date;
+  let last = stamps[0].date;
+  for (const s of stamps) {
+    out[s.date] = (out[s.date] ?? 0) + 1;
+    if (compareISO(s.date, first) < 0) first = s.date;
+    if (compareISO(s.date, last) > 0) last = s.date;
+  }
+  for (let d = first; compareISO(d, last) <= 0; d = addDaysISO(d, 1)) out[d] = out[d] ?? 0;
+  return out;
+}
+
+/* =====================================================================================
+   VOLUME FORECAST (additive Holt-Winters, weekly season)
+===================================================================================== */
+
+const FORECAST_SEASON = 7;
+/** two full seasons are needed to initialise level, trend and seasonal indices */
+const FORECAST_MIN_HISTORY_DAYS = 2 * FORECAST_SEASON;
+const FORECAST_MAX_HORIZON_DAYS = 366;
+/** z for the 80% prediction band */
+const FORECAST_BAND_Z = 1.2816;
+
+interface HoltWintersParams {
+  alpha: number;
+  beta: number;
+  gamma: number;
+}
+
+interface HoltWintersFit extends HoltWintersParams {
+  level: number;
+  trend: number;
+  /** seasonal index for each position of the cycle, aligned to series index % season */
+  season: number[];
+  /** standard deviation of the one-step-ahead errors */
+  sigma: number;
+  n: number;
+}
+
+interface VolumeForecast {
+  date: string;
+  mean: number;
+  lo: number;
+  hi: number;
+}
+
+function holtWintersRun(y: number[], m: number, p: HoltWintersParams) {
+  const mean = (xs: number[]) => xs.reduce((a, b) => a + b, 0) / xs.length;
+  const first = y.slice(0, m);
+  let level = mean(first);
+  let trend = (mean(y.slice(m, 2 * m)) - level) / m;
+  const season = first.map((v) => v - level);
+  let sse = 0;
+  let count = 0;
+  for (let t = 0; t < y.length; t++) {
+    const s = season[t % m];
+    const err = y[t] - (level + trend + s);
+    if (t >= m) {
+      sse += err * err;
+      count++;
+    }
+    const prevLevel = level;
+    level = p.alpha * (y[t] - s) + (1 - p.alpha) * (level + trend);
+    trend = p.beta * (level - prevLevel) + (1 - p.beta) * trend;
+    season[t % m] = p.gamma * (y[t] - level) + (1 - p.gamma) * s;
+  }
+  return { level, trend, season, sse, sigma: Math.sqrt(sse / Math.max(1, count)) };
+}
+
+/** grid-searches the smoothing parameters for the lowest one-step-ahead SSE */
+function fitHoltWinters(y: number[], m = FORECAST_SEASON): HoltWintersFit | undefined {
+  if (y.length < 2 * m) return undefined;
+  let best: HoltWintersFit | undefined;
+  let bestSse = Infinity;
+  for (const alpha of [0.05, 0.1, 0.2, 0.3, 0.5, 0.7, 0.9])
+    for (const beta of [0, 0.01, 0.05, 0.1, 0.2])
+      for (const gamma of [0.05, 0.1, 0.2, 0.3, 0.5]) {
+        const run = holtWintersRun(y, m, { alpha, beta, gamma });
+        if (run.sse < bestSse) {
+          bestSse = run.sse;
+          best = { alpha, beta, gamma, ...run, n: y.length };
+        }
+      }
+  return best;
+}
+
+/**
+ * Per-date forecast from daily history. Runs from the day after the last history date up to
+ * `horizonDays` past `untilISO` (or past the history if that is later). Bands use the additive
+ * Holt-Winters h-step variance σ²(1 + Σ c_j²), c_j = α(1 + jβ) + γ(1 − α)·[j ≡ 0 mod m].
+ */
+function forecastVolumes(
+  history: Record<string, number>,
+  horizonDays: number,
+  untilISO: string,
+): { fit: HoltWintersFit; forecasts: VolumeForecast[] } | undefined {
+  const dates = Object.keys(history).sort(compareISO);
+  if (dates.length === 0) return undefined;
+  const first = dates[0];
+  const last = dates[dates.length - 1];
+  const y: number[] = [];
+  for (let d = first; compareISO(d, last) <= 0; d = addDaysISO(d, 1)) y.push(history[d] ?? 0);
+  if (y.length < FORECAST_MIN_HISTORY_DAYS) return undefined;
+  const fit = fitHoltWinters(y);
+  if (!fit) return undefined;
+
+  const end = compareISO(untilISO, last) > 0 ? untilISO : last;
+  const total = Math.min(FORECAST_MAX_HORIZON_DAYS, daysBetweenISO(last, end) + horizonDays);
+  const m = FORECAST_SEASON;
+  const forecasts: VolumeForecast[] = [];
+  let varSum = 1;
+  for (let h = 1; h <= total; h++) {
+    if (h > 1) {
+      const j = h - 1;
+      const c = fit.alpha * (1 + j * fit.beta) + (j % m === 0 ? fit.gamma * (1 - fit.alpha) : 0);
+      varSum += c * c;
+    }
+    const mean = fit.level + h * fit.trend + fit.season[(y.length + h - 1) % m];
+    const half = FORECAST_BAND_Z * fit.sigma * Math.sqrt(varSum);
+    forecasts.push({
+      date: addDaysISO(last, h),
+      mean: Math.max(0, Math.round(mean)),
+      lo: Math.max(0, Math.round(mean - half)),
+      hi: Math.max(0, Math.round(mean + half)),
+    });
+  }
+  return { fit, forecasts };
+}
+
+/* =====================================================================================
+   ERROR BOUNDARY
+===================================================================================== */
+
+class ErrorBoundary extends React.Component<{ children: React.ReactNode }, { error?: Error }> {
+  constructor(props: any) {
+    super(props);
+    this.state = {};
+  }
+  static getDerivedStateFromError(error: Error) {
+    return { error };
+  }
+  componentDidCatch(error: Error, info: any) {
+    console.error("[App crash]", error, info);
+  }
+  render() {
+    if (this.state.error) {
+      return (
+        <div className="p-6 text-slate-50">
+          <h1 className="text-xl font-bold mb-2">Something went wrong.</h1>
+          <p className="text-sm text-red-400 mb-4">
+            {String(this.state.error.message || this.state.error)}
+          </p>
+          <p className="text-xs opacity-70">Check the browser console for stack trace.</p>
+        </div>
+      );
+    }
+    return this.props.children as any;
+  }
+}
+
+/* =====================================================================================
+   MAIN APP
+===================================================================================== */
+
+const halfHourBuckets = 48;
+
+/** undo steps kept per session; edits under the same name this close together are one step */
+const UNDO_LIMIT = 100;
+const UNDO_GROUP_MS = 1500;
+
+/** step names for edits made without a named action, by the first payload key that changed */
+const UNDO_DEFAULT_LABELS: Array<[string, string]> = [
+  ["agents", "Edit agents"],
+  ["roster", "Edit shifts"],
+  ["overrides", "Edit date overrides"],
+  ["vacations", "Edit leave"],
+  ["rotationGroups", "Edit rotations"],
+  ["seasonalPeriods", "Edit seasonal periods"],
+  ["skills", "Edit skills"],
+  ["specialDays", "Edit special days"],
+  ["autoPlanSettings", "Edit auto plan settings"],
+  ["laborRules", "Edit labor rules"],
+];
+
+interface UndoStep {
+  label: string;
+  at: number;
+  before: StoredWorkspace;
+  after: StoredWorkspace;
+}
+
+/** one workspace's planner; remounted (keyed by workspace) when the workspace changes */
+const WorkspaceApp: React.FC<{
+  workspace: string;
+  token: string;
+  onWorkspaceChange: (id: string) => void;
+  onTokenChange: (token: string) => void;
+}> = ({ workspace, token, onWorkspaceChange, onTokenChange }) => {
+  const [agents, setAgents] = useState<Agent[]>([]);
+  const [roster, setRoster] = useState<Roster>({});
+  const [vacations, setVacations] = useState<Vacations>({});
+  const [overrides, setOverrides] = useState<RosterOverrides>({});
+  const [rotationGroups, setRotationGroups] = useState<RotationGroup[]>([]);
+  const [seasonalPeriods, setSeasonalPeriods] = useState<SeasonalPeriod[]>([]);
+  const [skills, setSkills] = useState<Skill[]>(() => migrateSkills(undefined));
+  const [editScope, setEditScope] = useState<"template" | "date">("template");
+
+  const [siteTimezone, setSiteTimezone] = useState(SITE_TIMEZONE_DEFAULT);
+  // times in the schedule grid: the site's zone, or each agent's own
+  const [tzView, setTzView] = useState<"site" | "agent">("site");
+  const [selectedDate, setSelectedDate] = useState<string>(() => {
+    const stored = localStorage.getItem(DATE_STORAGE_PREFIX + workspace) ?? "";
+    return /^\d{4}-\d{2}-\d{2}$/.test(stored) ? stored : isoToday(SITE_TIMEZONE_DEFAULT);
+  });
+  const [selectedDay, setSelectedDay] = useState<Weekday>(() => weekdayNameFromISO(selectedDate));
+  const [dark, setDark] = useState(false);
+  const [levelFilter, setLevelFilter] = useState<Level | "all">("all");
+
+  const [channels, setChannels] = useState<Record<Channel, ChannelConfig>>(() =>
+    migrateChannels({}),
+  );
+  const [occupancy, setOccupancy] = useState(0.85);
+  const [serviceBuffer, setServiceBuffer] = useState(0);
+  const [staffingModel, setStaffingModel] = useState<StaffingModel>(
+    STAFFING_TARGETS_DEFAULT.model,
+  );
+  const [asaTargetSec, setAsaTargetSec] = useState(STAFFING_TARGETS_DEFAULT.asaSec);
+  const [patienceSec, setPatienceSec] = useState(STAFFING_TARGETS_DEFAULT.patienceSec);
+  const [profileTarget, setProfileTarget] = useState<ProfileTarget>("weekday");
+
+  const [dailyAvg, setDailyAvg] = useState<Record<Weekday, number>>({ ...DAILY_AVG_DEFAULT });
+  const [hourlyPctByDay, setHourlyPctByDay] = useState<Record<Weekday, number[]>>(() => {
+    const base = [...HOURLY_LOAD_PCT_DEFAULT];
+    return {
+      Saturday: base,
+      Sunday: base,
+      Monday: base,
+      Tuesday: base,
+      Wednesday: base,
+      Thursday: base,
+      Friday: base,
+    };
+  });
+
+  // daily volume history (ISO date → tickets) feeding the date-based forecast
+  const [volumeHistory, setVolumeHistory] = useState<Record<string, number>>({});
+  const [forecastWeeks, setForecastWeeks] = useState(6);
+  // holidays and other special days (ISO date → demand multiplier / profile, holiday flag)
+  const [specialDays, setSpecialDays] = useState<SpecialDays>({});
+
+  const [autoPlanSettings, setAutoPlanSettings] = useState<AutoPlanSettings>({
+    ...AUTO_PLAN_DEFAULT,
+  });
+  const [planProposal, setPlanProposal] = useState<Roster | null>(null);
+  const [laborRules, setLaborRules] = useState<LaborRules>({ ...LABOR_RULES_DEFAULT });
+
+  // cloud sync
+  const isLoadingFromCloud = useRef(true);
+  const saveDebounced = useRef<(p: WorkspaceDoc) => void>(() => {});
+  const [saveStatus, setSaveStatus] = useState<
+    "idle" | "saving" | "saved" | "error" | "conflict"
+  >("idle");
+  // ETag of the stored data this session builds on; null = was empty, undefined = unknown
+  const revisionRef = useRef<string | null | undefined>(undefined);
+  // what is stored now, after a save was rejected as stale; saving waits for the merge
+  const [conflict, setConflict] = useState<{ theirs: unknown; revision: string | null } | null>(
+    null,
+  );
+  const conflictRef = useRef(conflict);
+  conflictRef.current = conflict;
+  // offline-first: the local cache is written on every change, the cloud catches up
+  const [online, setOnline] = useState(() => navigator.onLine);
+  const [pending, setPending] = useState(0);
+  const pendingRef = useRef(0);
+  const latestPayload = useRef<WorkspaceDoc | null>(null);
+  const [role, setRole] = useState<Role | null>(null);
+  const [authError, setAuthError] = useState<CloudError | null>(null);
+  // schema problems in what was loaded, or in a save the function rejected (400)
+  const [schemaIssues, setSchemaIssues] = useState<{
+    source: "load" | "save";
+    issues: SchemaIssue[];
+  } | null>(null);
+  // a document from a newer app version must not be written back by this one
+  const [tooNew, setTooNew] = useState(false);
+  // viewers, and anyone the function turned away, get the planner without editing or saving
+  const readOnly = role === "viewer" || authError !== null || tooNew;
+  // leave decisions are admin work; no role (auth off, older function) means admin
+  const canApprove = !readOnly && role !== "editor";
+  const readOnlyRef = useRef(readOnly);
+  readOnlyRef.current = readOnly;
+
+  // keep selectedDay in sync with selectedDate; the date is remembered in this browser only
+  useEffect(() => {
+    setSelectedDay(weekdayNameFromISO(selectedDate));
+    localStorage.setItem(DATE_STORAGE_PREFIX + workspace, selectedDate);
+  }, [selectedDate]);
+
+  // set every persisted piece of state from a stored payload
+  const applyCloud = (cloud: StoredWorkspace) => {
+    if (Array.isArray(cloud.agents)) setAgents(cloud.agents);
+    if (cloud.roster) setRoster(migrateRoster(cloud.roster));
+    if (cloud.overrides) setOverrides(migrateOverrides(cloud.overrides));
+    const tz =
+      typeof cloud.siteTimezone === "string" && isValidTimezone(cloud.siteTimezone)
+        ? cloud.siteTimezone
+        : siteTimezone;
+    if (cloud.rotationGroups) setRotationGroups(migrateRotationGroups(cloud.rotationGroups, tz));
+    if (Array.isArray(cloud.seasonalPeriods)) {
+      setSeasonalPeriods(
+        cloud.seasonalPeriods.map((p) => ({
+          ...p,
+          roster: migrateRoster(p.roster),
+        })),
+      );
+    }
+    if (cloud.skills) setSkills(migrateSkills(cloud.skills));
+    if (cloud.dailyAvg) setDailyAvg(cloud.dailyAvg);
+    if (cloud.hourlyPctByDay) setHourlyPctByDay(cloud.hourlyPctByDay);
+    if (cloud.volumeHistory) setVolumeHistory(cloud.volumeHistory);
+    if (cloud.specialDays) setSpecialDays(cloud.specialDays);
+    if (typeof cloud.forecastWeeks === "number") setForecastWeeks(cloud.forecastWeeks);
+    setChannels(migrateChannels(cloud));
+    if (typeof cloud.occupancy === "number") setOccupancy(cloud.occupancy);
+    if (typeof cloud.serviceBuffer === "number") setServiceBuffer(cloud.serviceBuffer);
+    if (cloud.staffingModel === "erlangC" || cloud.staffingModel === "erlangA")
+      setStaffingModel(cloud.staffingModel);
+    if (typeof cloud.asaTargetSec === "number") setAsaTargetSec(cloud.asaTargetSec);
+    if (typeof cloud.patienceSec === "number") setPatienceSec(cloud.patienceSec);
+    if (typeof cloud.siteTimezone === "string" && isValidTimezone(cloud.siteTimezone))
+      setSiteTimezone(cloud.siteTimezone);
+    if (cloud.vacations) setVacations(cloud.vacations);
+    if (cloud.autoPlanSettings)
+      setAutoPlanSettings({ ...AUTO_PLAN_DEFAULT, ...cloud.autoPlanSettings });
+    if (cloud.laborRules) setLaborRules({ ...LABOR_RULES_DEFAULT, ...cloud.laborRules });
+  };
+
+  // start from the local cache right away, then load (or reconcile with) the cloud copy
+  useEffect(() => {
+    (async () => {
+      const cache = readCache(workspace);
+      if (cache?.doc && Object.keys(cache.doc).length) {
+        lastDoc.current = null;
+        applyCloud(readWorkspaceDoc(cache.doc).doc);
+        revisionRef.current = cache.revision;
+        pendingRef.current = cache.pending || 0;
+        setPending(pendingRef.current);
+        latestPayload.current = cache.doc;
+      }
+      try {
+        let cloud: WorkspaceDoc = {};
+        let loadedRole: Role | null = null;
+        let revision: string | null | undefined;
+        try {
+          const res = await fetchWorkspace(workspace, token);
+          cloud = res.data;
+          loadedRole = res.role;
+          setRole(res.role);
+          setOnline(true);
+          const empty = !cloud || Object.keys(cloud).length === 0;
+          revision = res.revision ?? (empty ? null : undefined);
+        } catch (e) {
+          if (isAuthError(e)) setAuthError(e);
+          // unreachable: keep working from the cache; edits queue up until it is back
+          if (isNetworkError(e)) {
+            setOnline(false);
+            return;
+          }
+          // it answered with an error: what is stored is unknown, so keep the cache as it is
+          // and let the next save look before it writes (see putNow)
+          console.warn("[cloud load] error", e);
+          revisionUnknown.current = true;
+          return;
+        }
+
+        // edits made offline: send them if the cloud has not moved, otherwise merge
+        if (cache && cache.pending > 0 && loadedRole && loadedRole !== "viewer") {
+          if (cache.revision !== undefined && cache.revision === revision) {
+            saveDebounced.current(cache.doc);
+          } else {
+            setConflict({ theirs: cloud || {}, revision: revision ?? null });
+            setSaveStatus("conflict");
+          }
+          return;
+        }
+
+        revisionRef.current = revision;
+        pendingRef.current = 0;
+        setPending(0);
+        if (cloud && Object.keys(cloud).length) {
+          const { doc, issues } = readWorkspaceDoc(cloud);
+          if (issues.length) {
+            console.warn("[cloud load] invalid fields", issues);
+            setSchemaIssues({ source: "load", issues });
+          }
+          if (issues.some((i) => i.path === "version")) {
+            setTooNew(true);
+            return;
+          }
+          // the next save drops the skipped fields, so keep the stored copy as a version first
+          if (issues.length && loadedRole && loadedRole !== "viewer") {
+            await saveVersion(workspace, "Before skipping invalid fields", token).catch((e) =>
+              console.warn("[cloud load] snapshot failed", e),
+            );
+          }
+          // the loaded state is where undo history starts, not an edit
+          lastDoc.current = null;
+          syncedDoc.current = null;
+          applyCloud(doc);
+          writeCache(workspace, { doc: cloud, revision, pending: 0 });
+        }
+      } catch (e) {
+        console.warn("[cloud load] error", e);
+      } finally {
+        isLoadingFromCloud.current = false;
+      }
+    })();
+  }, []);
+
+  // prepare debounced saver; errors go to this render's handler (it reads current state)
+  useEffect(() => {
+    saveDebounced.current = debounce(async (payload: WorkspaceDoc) => {
+      try {
+        if (conflictRef.current) return;
+        await pushToCloud(payload);
+      } catch (e) {
+        onSaveErrorRef.current(e);
+      }
+    }, 800);
+  }, []);
+
+  // set when the load failed with an answer (not offline): the stored revision is unknown
+  const revisionUnknown = useRef(false);
+
+  // PUTs go out one at a time: each needs the revision the one before it got back
+  const pushQueue = useRef<Promise<unknown>>(Promise.resolve());
+  const pushToCloud = (payload: WorkspaceDoc) => {
+    const run = pushQueue.current.then(() => putNow(payload));
+    pushQueue.current = run.catch(() => undefined);
+    return run;
+  };
+
+  // PUT on top of the known revision; what was pending when it left is now in the cloud
+  const putNow = async (payload: WorkspaceDoc) => {
+    const sent = pendingRef.current;
+    setSaveStatus("saving");
+    if (revisionUnknown.current) {
+      // never write blind: load first, then save on top of it or merge like after a 409
+      const res = await fetchWorkspace(workspace, token);
+      revisionUnknown.current = false;
+      setRole(res.role);
+      const empty = !res.data || Object.keys(res.data).length === 0;
+      const revision = res.revision ?? (empty ? null : undefined);
+      if (res.role === "viewer") {
+        setSaveStatus("idle");
+        return;
+      }
+      if (revision !== revisionRef.current) {
+        setConflict({ theirs: res.data || {}, revision: revision ?? null });
+        setSaveStatus("conflict");
+        return;
+      }
+    }
+    const next = await putWorkspace(workspace, payload, token, revisionRef.current);
+    // an older function without ETags: keep writing unconditionally
+    revisionRef.current = next ?? undefined;
+    pendingRef.current = Math.max(0, pendingRef.current - sent);
+    setPending(pendingRef.current);
+    setOnline(true);
+    writeCache(workspace, {
+      doc: latestPayload.current ?? payload,
+      revision: revisionRef.current,
+      pending: pendingRef.current,
+    });
+    setSaveStatus("saved");
+    setTimeout(() => setSaveStatus("idle"), 1200);
+  };
+
+  const onSaveError = (e: unknown) => {
+    console.warn("[cloud save] error", e);
+    if (isNetworkError(e)) {
+      // still in the cache and counted as pending; sent again once the function answers
+      setOnline(false);
+      setSaveStatus("idle");
+    } else if (isAuthError(e)) {
+      setAuthError(e);
+      setSaveStatus("idle");
+    } else if (isConflict(e)) {
+      setConflict({ theirs: e.body?.data ?? {}, revision: e.body?.revision ?? null });
+      setSaveStatus("conflict");
+    } else if (isLeaveRefused(e)) {
+      setSaveStatus("error");
+      alert(`Not saved: ${e.detail}. The stored leave is loaded back; the rest is kept.`);
+      reloadLeave(e.body?.agents ?? []).catch(onSaveError);
+    } else {
+      if (e instanceof CloudError && Array.isArray(e.body?.issues)) {
+        setSchemaIssues({ source: "save", issues: e.body.issues });
+      }
+      setSaveStatus("error");
+    }
+  };
+
+  const onSaveErrorRef = useRef(onSaveError);
+  onSaveErrorRef.current = onSaveError;
+
+  // a save that decided leave was refused: take the stored leave and entitlements back (and
+  // agents removed with decided leave) and save the rest on top of it, or merge if someone
+  // saved in between
+  const reloadLeave = async (refused: string[]) => {
+    const res = await fetchWorkspace(workspace, token);
+    const revision = res.revision ?? null;
+    if (revision !== (revisionRef.current ?? null)) {
+      setConflict({ theirs: res.data || {}, revision });
+      setSaveStatus("conflict");
+      return;
+    }
+    const stored = conflictView(readWorkspaceDoc(res.data || {}).doc);
+    const storedAgent = new Map<string, Agent>(stored.agents.map((a: Agent) => [a.name, a]));
+    const here = new Set(agents.map((a) => a.name));
+    const removed = [...new Set(refused)].filter((n) => storedAgent.has(n) && !here.has(n));
+    const rowsOf = <T,>(rows: Record<string, T>) =>
+      Object.fromEntries(removed.filter((n) => rows[n]).map((n) => [n, rows[n]]));
+    track("Reload leave");
+    setVacations(stored.vacations);
+    setAgents((prev) => {
+      // by name: never add an agent twice (names key the roster)
+      const back = removed.filter((n) => !prev.some((a) => a.name === n));
+      return [
+        ...prev.map((a) => {
+          const next = { ...a };
+          const days = storedAgent.get(a.name)?.annualLeaveDays;
+          if (days === undefined) delete next.annualLeaveDays;
+          else next.annualLeaveDays = days;
+          return next;
+        }),
+        ...back.map((n) => storedAgent.get(n)!),
+      ];
+    });
+    if (removed.length) {
+      setRoster((prev) => ({ ...rowsOf(stored.roster), ...prev }));
+      setOverrides((prev) => ({ ...rowsOf(stored.overrides), ...prev }));
+    }
+  };
+
+  // everything persisted for the workspace (also what "Clone" copies)
+  const cloudPayload = useMemo(
+    () => ({
+      agents,
+      roster,
+      overrides,
+      rotationGroups,
+      seasonalPeriods,
+      skills,
+      dailyAvg,
+      hourlyPctByDay,
+      volumeHistory,
+      forecastWeeks,
+      specialDays,
+      channels,
+      occupancy,
+      serviceBuffer,
+      staffingModel,
+      asaTargetSec,
+      patienceSec,
+      siteTimezone,
+      vacations,
+      autoPlanSettings,
+      laborRules,
+      brand: "Montana",
+      version: WORKSPACE_VERSION,
+    }),
+    [
+      agents,
+      roster,
+      overrides,
+      rotationGroups,
+      seasonalPeriods,
+      skills,
+      dailyAvg,
+      hourlyPctByDay,
+      volumeHistory,
+      forecastWeeks,
+      specialDays,
+      channels,
+      occupancy,
+      serviceBuffer,
+      staffingModel,
+      asaTargetSec,
+      patienceSec,
+      siteTimezone,
+      vacations,
+      autoPlanSettings,
+      laborRules,
+    ],
+  );
+
+  // the first render's payload is every field's default (the cache and cloud load later)
+  const defaultPayload = useRef(cloudPayload);
+
+  // the payload the cloud was loaded with (null = take the next render as that); "" = none
+  const syncedDoc = useRef<string | null>("");
+
+  // every change goes to the local cache at once and counts as pending until the cloud has it
+  useEffect(() => {
+    if (isLoadingFromCloud.current || readOnlyRef.current) return;
+    const json = stableJSON(cloudPayload);
+    if (syncedDoc.current === null) syncedDoc.current = json;
+    if (json === syncedDoc.current) return;
+    syncedDoc.current = "";
+    const payload = { ...cloudPayload, savedAt: new Date().toISOString() };
+    latestPayload.current = payload;
+    pendingRef.current += 1;
+    setPending(pendingRef.current);
+    writeCache(workspace, {
+      doc: payload,
+      revision: revisionRef.current,
+      pending: pendingRef.current,
+    });
+    if (conflictRef.current) return;
+    saveDebounced.current(payload);
+  }, [cloudPayload]);
+
+  // back online (browser event, or a retry got through): send what is waiting
+  const flushPending = () => {
+    if (pendingRef.current === 0 || !latestPayload.current) return;
+    if (conflictRef.current || readOnlyRef.current) return;
+    saveDebounced.current(latestPayload.current);
+  };
+  const flushRef = useRef(flushPending);
+  flushRef.current = flushPending;
+  useEffect(() => {
+    const goOnline = () => {
+      setOnline(true);
+      flushRef.current();
+    };
+    const goOffline = () => setOnline(false);
+    window.addEventListener("online", goOnline);
+    window.addEventListener("offline", goOffline);
+    return () => {
+      window.removeEventListener("online", goOnline);
+      window.removeEventListener("offline", goOffline);
+    };
+  }, []);
+  useEffect(() => {
+    if (online || pending === 0) return;
+    const t = window.setInterval(() => flushRef.current(), SYNC_RETRY_MS);
+    return () => window.clearInterval(t);
+  }, [online, pending]);
+
+  // write the current state right away (not debounced), then snapshot it as a labelled version
+  const saveVersionNow = async (label: string) => {
+    try {
+      await pushToCloud({ ...cloudPayload, savedAt: new Date().toISOString() });
+    } catch (e) {
+      onSaveError(e);
+      throw e;
+    }
+    return saveVersion(workspace, label, token);
+  };
+
+  // keep a labelled copy of what is being replaced, then load the version as the state
+  const restoreVersion = async (v: VersionInfo, data: unknown) => {
+    await saveVersionNow(`Before restoring ${versionTitle(v)}`);
+    track(`Restore ${versionTitle(v)}`);
+    // fields the version predates go back to their defaults, not today's values
+    const restored = { ...defaultPayload.current, ...readWorkspaceDoc(data).doc };
+    applyCloud(mergePayloads(cloudPayload, restored, [], {}));
+  };
+
+  // conflict resolved: take the merge as the state and save it on top of their revision
+  const resolveConflict = (merged: StoredWorkspace) => {
+    if (!conflict) return;
+    revisionRef.current = conflict.revision;
+    conflictRef.current = null;
+    setConflict(null);
+    track("Merge save conflict");
+    // fields missing from their copy go back to their defaults (as in restoreVersion)
+    const doc = { ...defaultPayload.current, ...merged };
+    applyCloud(doc);
+    saveDebounced.current({ ...doc, savedAt: new Date().toISOString() });
+  };
+
+  /* ===================================================================================
+     UNDO / REDO
+  =================================================================================== */
+
+  const [undoStack, setUndoStack] = useState<UndoStep[]>([]);
+  const [redoStack, setRedoStack] = useState<UndoStep[]>([]);
+  // the document as of the last render; null = take the next one as the starting point
+  const lastDoc = useRef<StoredWorkspace | null>(null);
+  // set while undo / redo applies a step, so that change is not recorded as a new edit
+  const applyingStep = useRef(false);
+  // name of the action about to change state (see track)
+  const pendingAction = useRef<{ label: string; at: number } | null>(null);
+
+  /** name the state change that follows (one step for everything it sets) */
+  const track = (label: string) => {
+    pendingAction.current = { label, at: Date.now() };
+  };
+
+  useEffect(() => {
+    const doc: StoredWorkspace = cloudPayload;
+    const prev = lastDoc.current;
+    lastDoc.current = doc;
+    if (prev === null || isLoadingFromCloud.current) return;
+    if (applyingStep.current) {
+      applyingStep.current = false;
+      return;
+    }
+    const changed = Object.keys(doc).filter((k) => stableJSON(doc[k]) !== stableJSON(prev[k]));
+    if (changed.length === 0) return;
+
+    const now = Date.now();
+    const action = pendingAction.current;
+    pendingAction.current = null;
+    const label =
+      action && now - action.at < UNDO_GROUP_MS
+        ? action.label
+        : UNDO_DEFAULT_LABELS.find(([k]) => changed.includes(k))?.[1] ?? "Edit forecast settings";
+    setUndoStack((stack) => {
+      const top = stack[stack.length - 1];
+      if (top && top.label === label && now - top.at < UNDO_GROUP_MS) {
+        return [...stack.slice(0, -1), { ...top, at: now, after: doc }];
+      }
+      return [...stack, { label, at: now, before: prev, after: doc }].slice(-UNDO_LIMIT);
+    });
+    setRedoStack([]);
+  }, [cloudPayload]);
+
+  const applyStep = (doc: StoredWorkspace) => {
+    if (stableJSON(doc) === stableJSON(lastDoc.current)) return;
+    applyingStep.current = true;
+    applyCloud(doc);
+  };
+
+  /** undo the last `count` steps (the history dropdown undoes back to a chosen step) */
+  const undo = (count = 1) => {
+    if (readOnly || undoStack.length === 0) return;
+    const at = Math.max(0, undoStack.length - count);
+    const undone = undoStack.slice(at);
+    setUndoStack(undoStack.slice(0, at));
+    setRedoStack([...redoStack, ...[...undone].reverse()]);
+    applyStep(undone[0].before);
+  };
+
+  const redo = () => {
+    if (readOnly || redoStack.length === 0) return;
+    const step = redoStack[redoStack.length - 1];
+    setRedoStack(redoStack.slice(0, -1));
+    setUndoStack([...undoStack, step]);
+    applyStep(step.after);
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (and Ctrl+Y); text fields keep their own undo
+  const undoKeys = useRef({ undo, redo });
+  undoKeys.current = { undo, redo };
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const el = e.target as HTMLElement | null;
+      if (el && (el.tagName === "INPUT" || el.tagName === "TEXTAREA" || el.isContentEditable)) {
+        return;
+      }
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) undoKeys.current.undo();
+      else if ((key === "z" && e.shiftKey) || key === "y") undoKeys.current.redo();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, []);
+
+  /* ===================================================================================
+     DERIVED METRICS
+  =================================================================================== */
+
+  const onFloor48 = useMemo(
+    () =>
+      halfHourAgents(
+        roster,
+        agents,
+        selectedDate,
+        vacations,
+        overrides,
+        rotationGroups,
+        specialDays,
+        seasonalPeriods,
+      ),
+    [
+      roster,
+      agents,
+      selectedDate,
+      vacations,
+      overrides,
+      rotationGroups,
+      specialDays,
+      seasonalPeriods,
+    ],
+  );
+  const coverage48 = useMemo(() => onFloor48.map((list) => list.length), [onFloor48]);
+
+  const volumeForecast = useMemo(
+    () => forecastVolumes(volumeHistory, forecastWeeks * 7, selectedDate),
+    [volumeHistory, forecastWeeks, selectedDate],
+  );
+  const forecastByDate = useMemo(() => {
+    const out: Record<string, VolumeForecast> = {};
+    for (const f of volumeForecast?.forecasts ?? []) out[f.date] = f;
+    return out;
+  }, [volumeForecast]);
+
+  /**
+   * daily volume for a date: a seasonal period's own volume, else the forecast when there
+   * is one, else the weekday average – times the special day's multiplier
+   */
+  const dayVolume = (dateISO: string) => {
+    const day = weekdayNameFromISO(dateISO);
+    const base =
+      periodForDate(seasonalPeriods, dateISO)?.dailyAvg[day] ??
+      forecastByDate[dateISO]?.mean ??
+      dailyAvg[day] ??
+      MONTANA_DAILY_AVG;
+    return base * (specialDays[dateISO]?.multiplier ?? 1);
+  };
+
+  /** intraday profile for a date: the special day's, the seasonal period's, or the weekday's */
+  const dayProfile = (dateISO: string) => {
+    const day = weekdayNameFromISO(dateISO);
+    return (
+      specialDays[dateISO]?.hourlyPct ??
+      periodForDate(seasonalPeriods, dateISO)?.hourlyPctByDay[day] ??
+      hourlyPctByDay[day] ??
+      HOURLY_LOAD_PCT_DEFAULT
+    );
+  };
+
+  const specialDay: SpecialDay | undefined = specialDays[selectedDate];
+  const activePeriod = periodForDate(seasonalPeriods, selectedDate);
+
+  /** weekday intraday profiles being edited: the seasonal period's while one is in effect */
+  const weekdayProfiles = activePeriod?.hourlyPctByDay ?? hourlyPctByDay;
+  const setWeekdayProfiles = (
+    fn: (prev: Record<Weekday, number[]>) => Record<Weekday, number[]>,
+  ) => {
+    if (!activePeriod) return setHourlyPctByDay(fn);
+    setSeasonalPeriods((prev) =>
+      prev.map((p) =>
+        p.id === activePeriod.id ? { ...p, hourlyPctByDay: fn(p.hourlyPctByDay) } : p,
+      ),
+    );
+  };
+  // the special-day profile can only be edited while a date that has one is selected
+  const profileView: ProfileTarget =
+    profileTarget === "special" && !specialDay?.hourlyPct ? "weekday" : profileTarget;
+
+  /** a special day's own profile overrides the channels' shapes too */
+  const dayChannels = (dateISO: string) =>
+    specialDays[dateISO]?.hourlyPct ? withoutChannelProfiles(channels) : channels;
+
+  // shared model settings; each channel brings its own SL target (see channelTargets)
+  const staffingTargets = useMemo<StaffingTargets>(
+    () => ({
+      model: staffingModel,
+      slPct: STAFFING_TARGETS_DEFAULT.slPct,
+      slSec: STAFFING_TARGETS_DEFAULT.slSec,
+      asaSec: asaTargetSec,
+      patienceSec,
+      maxOccupancy: occupancy,
+    }),
+    [staffingModel, asaTargetSec, patienceSec, occupancy],
+  );
+
+  /** per-channel volume and required agents for the selected date */
+  const channelDemand = useMemo(
+    () =>
+      channelDay(
+        dayChannels(selectedDate),
+        dayProfile(selectedDate),
+        dayVolume(selectedDate),
+        staffingTargets,
+      ),
+    [
+      channels,
+      hourlyPctByDay,
+      selectedDate,
+      dailyAvg,
+      forecastByDate,
+      specialDays,
+      seasonalPeriods,
+      staffingTargets,
+    ],
+  );
+
+  const demand48 = useMemo(
+    () =>
+      channelDemand.volume.chat.map((_, k) =>
+        CHANNELS.reduce((acc, ch) => acc + channelDemand.volume[ch][k], 0),
+      ),
+    [channelDemand],
+  );
+
+  const required48 = useMemo(
+    () => channelDemand.total.map((n) => n + serviceBuffer),
+    [channelDemand, serviceBuffer],
+  );
+
+  /** required agents per skill: each skill's slice of the volume sized on its own */
+  const skillRequired = useMemo(() => {
+    const shares = skillShares(skills);
+    const out: Record<string, number[]> = {};
+    for (const sk of skills) {
+      out[sk.id] = channelDay(
+        dayChannels(selectedDate),
+        dayProfile(selectedDate),
+        dayVolume(selectedDate) * shares[sk.id],
+        staffingTargets,
+      ).total;
+    }
+    return out;
+  }, [
+    skills,
+    channels,
+    hourlyPctByDay,
+    selectedDate,
+    dailyAvg,
+    forecastByDate,
+    specialDays,
+    seasonalPeriods,
+    staffingTargets,
+  ]);
+
+  const skillCoverage = useMemo(() => {
+    const out: Record<string, number[]> = {};
+    for (const sk of skills) out[sk.id] = [];
+    onFloor48.forEach((list, k) => {
+      const need: Record<string, number> = {};
+      for (const sk of skills) need[sk.id] = skillRequired[sk.id][k];
+      const cov = allocateSkills(list, skills, need);
+      for (const sk of skills) out[sk.id].push(cov[sk.id]);
+    });
+    return out;
+  }, [onFloor48, skills, skillRequired]);
+
+  /** required curve for every weekday of the selected week – input to the auto planner */
+  const requiredByDay = useMemo(() => {
+    const out = {} as Record<Weekday, number[]>;
+    for (const d of WEEKDAYS) {
+      const date = dateForWeekday(selectedDate, d);
+      out[d] = channelDay(
+        dayChannels(date),
+        dayProfile(date),
+        dayVolume(date),
+        staffingTargets,
+      ).total.map((n) => n + serviceBuffer);
+    }
+    return out;
+  }, [
+    channels,
+    hourlyPctByDay,
+    dailyAvg,
+    forecastByDate,
+    specialDays,
+    seasonalPeriods,
+    selectedDate,
+    staffingTargets,
+    serviceBuffer,
+  ]);
+
+  /** rostered agents split across channels in proportion to what each channel needs */
+  const channelCoverage = useMemo(() => {
+    const out = {} as Record<Channel, number[]>;
+    for (const ch of CHANNELS) out[ch] = [];
+    coverage48.forEach((n, k) => {
+      const need = CHANNELS.map((ch) => channelDemand.required[ch][k]);
+      const weights = need.some((x) => x > 0)
+        ? need
+        : CHANNELS.map((ch) => channelDemand.volume[ch][k]);
+      splitAgents(n, weights).forEach((x, i) => out[CHANNELS[i]].push(x));
+    });
+    return out;
+  }, [coverage48, channelDemand]);
+
+  /** projected SL / ASA per half-hour on the live channels with their share of the floor */
+  const channelProjected = useMemo(() => {
+    const out = {} as Record<Channel, IntervalStats[]>;
+    for (const ch of CHANNELS.filter(isLiveChannel)) {
+      const cfg = channels[ch];
+      const targets = channelTargets(staffingTargets, cfg);
+      out[ch] = channelDemand.volume[ch].map((v30, k) =>
+        intervalStats(
+          channelCoverage[ch][k],
+          v30,
+          cfg.ahtMin / Math.max(1, cfg.concurrency),
+          targets,
+        ),
+      );
+    }
+    return out;
+  }, [channels, channelDemand, channelCoverage, staffingTargets]);
+
+  const liveChannels = useMemo(
+    () => CHANNELS.filter((ch) => isLiveChannel(ch) && channels[ch].enabled),
+    [channels],
+  );
+
+  /** volume-weighted SL of the live channels per half-hour (0..1) */
+  const projected48 = useMemo(
+    () =>
+      demand48.map((_, k) => {
+        let volume = 0;
+        let sl = 0;
+        for (const ch of liveChannels) {
+          volume += channelDemand.volume[ch][k];
+          sl += channelProjected[ch][k].serviceLevel * channelDemand.volume[ch][k];
+        }
+        return volume > 0 ? sl / volume : 1;
+      }),
+    [demand48, liveChannels, channelDemand, channelProjected],
+  );
+
+  const projectedDay = useMemo(() => {
+    let volume = 0;
+    let sl = 0;
+    let asa = 0;
+    let missed = 0;
+    demand48.forEach((_, k) => {
+      let below = false;
+      for (const ch of liveChannels) {
+        const v = channelDemand.volume[ch][k];
+        const st = channelProjected[ch][k];
+        volume += v;
+        sl += st.serviceLevel * v;
+        asa += (Number.isFinite(st.asaSec) ? st.asaSec : INTERVAL_SEC) * v;
+        if (v > 0 && st.serviceLevel < channels[ch].slPct) below = true;
+      }
+      if (below) missed++;
+    });
+    return {
+      serviceLevel: volume > 0 ? sl / volume : 1,
+      asaSec: volume > 0 ? asa / volume : 0,
+      missed,
+    };
+  }, [demand48, liveChannels, channels, channelDemand, channelProjected]);
+
+  /** SL reference line: the live channels' targets weighted by their daily volume */
+  const slTargetLine = useMemo(() => {
+    let volume = 0;
+    let target = 0;
+    for (const ch of liveChannels) {
+      const v = channelDemand.volume[ch].reduce((a, b) => a + b, 0);
+      volume += v;
+      target += channels[ch].slPct * v;
+    }
+    return volume > 0 ? target / volume : STAFFING_TARGETS_DEFAULT.slPct;
+  }, [liveChannels, channels, channelDemand]);
+
+  const chartData = useMemo(() => {
+    const maxCov = Math.max(1, ...coverage48, ...required48);
+    const scale = maxCov / Math.max(1e-9, ...demand48);
+    return Array.from({ length: halfHourBuckets }, (_, k) => {
+      const row: Record<string, number | string> = {
+        bucket: k,
+        coverage: coverage48[k],
+        required: required48[k],
+        load: +(demand48[k] * scale).toFixed(2),
+        serviceLevel: +(projected48[k] * 100).toFixed(1),
+        label: halfHourLabel(k),
+      };
+      for (const ch of CHANNELS) {
+        row[`required_${ch}`] = channelDemand.required[ch][k];
+        row[`coverage_${ch}`] = channelCoverage[ch][k];
+      }
+      return row;
+    });
+  }, [coverage48, required48, demand48, projected48, channelDemand, channelCoverage]);
+
+  /* ===================================================================================
+     PLANNING
+  =================================================================================== */
+
+  /** the template (weekday roster, rotation week or seasonal period) for the selected week */
+  const weekTemplate = useMemo(
+    () => templateForWeek(roster, rotationGroups, agents, selectedDate, seasonalPeriods),
+    [roster, rotationGroups, agents, selectedDate, seasonalPeriods],
+  );
+
+  // date overrides, holidays and leave change what is worked, so the rules look at those
+  const weekWorked = useMemo(
+    () =>
+      effectiveWeek(
+        roster,
+        overrides,
+        agents,
+        selectedDate,
+        vacations,
+        rotationGroups,
+        specialDays,
+        seasonalPeriods,
+      ),
+    [
+      roster,
+      overrides,
+      agents,
+      selectedDate,
+      vacations,
+      rotationGroups,
+      specialDays,
+      seasonalPeriods,
+    ],
+  );
+
+  // a seasonal period's shift cap tightens the labor rules and the auto planner
+  const laborViolations = useMemo(
+    () =>
+      checkLaborRules(
+        weekWorked,
+        agents,
+        activePeriod ? { ...laborRules, maxShiftMins: activePeriod.maxShiftMins } : laborRules,
+      ),
+    [weekWorked, agents, laborRules, activePeriod],
+  );
+
+  /**
+   * Write blocks back to wherever the selected week's template lives: the seasonal period
+   * the day falls in, the rotation week of each agent's group, or the plain weekday roster.
+   */
+  const applyTemplateWeek = (next: Roster, allDays: readonly Weekday[] = WEEKDAYS) => {
+    const inPeriod = (d: Weekday) =>
+      periodForDate(seasonalPeriods, dateForWeekday(selectedDate, d));
+    const periodDays = allDays.filter(inPeriod);
+    if (periodDays.length) {
+      setSeasonalPeriods((prev) =>
+        prev.map((p) => {
+          const mine = periodDays.filter((d) => inPeriod(d)?.id === p.id);
+          if (mine.length === 0) return p;
+          const roster: Roster = { ...p.roster };
+          for (const name of Object.keys(next)) {
+            const week = { ...(roster[name] || {}) } as Record<Weekday, DayBlock>;
+            for (const d of mine) if (next[name][d]) week[d] = next[name][d];
+            roster[name] = week;
+          }
+          return { ...p, roster };
+        }),
+      );
+    }
+    const days = allDays.filter((d) => !inPeriod(d));
+    if (days.length === 0) return;
+    const grouped = new Set(
+      agents
+        .filter((a) => a.rotationGroup && rotationGroups.some((g) => g.id === a.rotationGroup))
+        .map((a) => a.name),
+    );
+    setRoster((prev) => {
+      const out: Roster = { ...prev };
+      for (const name of Object.keys(next)) {
+        if (grouped.has(name)) continue;
+        const week = { ...(out[name] || {}) } as Record<Weekday, DayBlock>;
+        for (const d of days) if (next[name][d]) week[d] = next[name][d];
+        out[name] = week;
+      }
+      return out;
+    });
+    setRotationGroups((prev) =>
+      prev.map((g) => {
+        const members = agents.filter((a) => a.rotationGroup === g.id && next[a.name]);
+        if (members.length === 0) return g;
+        const weeks = g.weeks.map((w) => ({ ...w }));
+        for (const a of members) {
+          for (const d of days) {
+            const blk = next[a.name][d];
+            if (!blk) continue;
+            const i = rotationWeekIndex(g, dateForWeekday(selectedDate, d));
+            weeks[i][a.name] = { ...(weeks[i][a.name] || {}), [d]: blk } as Record<
+              Weekday,
+              DayBlock
+            >;
+          }
+        }
+        return { ...g, weeks };
+      }),
+    );
+  };
+
+  const generatePlan = () => {
+    const settings = activePeriod
+      ? {
+          ...autoPlanSettings,
+          maxShiftMins: Math.min(autoPlanSettings.maxShiftMins, activePeriod.maxShiftMins),
+        }
+      : autoPlanSettings;
+    return staggerBreaks(autoPlanRoster(agents, requiredByDay, settings), agents, requiredByDay);
+  };
+
+  // edits go to the week's template or, in date scope, to an override for selectedDate
+  const setDayBlock = (name: string, next: DayBlock) => {
+    track(`Edit ${name} · ${editScope === "date" ? selectedDate : selectedDay}`);
+    if (editScope === "date") {
+      setOverrides((p) => ({
+        ...p,
+        [name]: {
+          ...(p[name] || {}),
+          [selectedDate]: next,
+        },
+      }));
+      return;
+    }
+    applyTemplateWeek({ [name]: { [selectedDay]: next } as Record<Weekday, DayBlock> }, [
+      selectedDay,
+    ]);
+  };
+
+  /** put an agent on a rotation (or back on the weekday template), seeding every week */
+  const assignRotation = (name: string, groupId: string | undefined) => {
+    track(`Rotation for ${name}`);
+    setAgents((prev) =>
+      prev.map((a) => {
+        if (a.name !== name) return a;
+        const next = { ...a };
+        if (groupId) next.rotationGroup = groupId;
+        else delete next.rotationGroup;
+        return next;
+      }),
+    );
+    setRotationGroups((prev) =>
+      prev.map((g) => {
+        const weeks = g.weeks.map((w) => {
+          const out = { ...w };
+          delete out[name];
+          return out;
+        });
+        const base = roster[name];
+        if (g.id === groupId && base) weeks.forEach((w) => (w[name] = { ...base }));
+        return { ...g, weeks };
+      }),
+    );
+  };
+
+  const revertToTemplate = (name: string, dateISO: string) => {
+    track(`Revert ${name} · ${dateISO}`);
+    setOverrides((p) => {
+      const list = { ...(p[name] || {}) };
+      delete list[dateISO];
+      const out = { ...p };
+      if (Object.keys(list).length === 0) delete out[name];
+      else out[name] = list;
+      return out;
+    });
+  };
+
+  const staggerAllBreaks = () => {
+    track("Stagger breaks");
+    applyTemplateWeek(staggerBreaks(weekTemplate, agents, requiredByDay));
+  };
+
+  /* ===================================================================================
+     CSV IMPORT
+  =================================================================================== */
+
+  const onImport = async (file: File) => {
+    try {
+      const text = await file.text();
+      const { headers, rows } = parseCSV(text);
+      // either the segment columns or the older single-window columns must be present
+      const needed = ["agent", "day", "active", "start", "end", "break_start", "break_minutes"];
+      const hasSegments = headers.includes("segments");
+      const ok = hasSegments
+        ? ["agent", "day", "active"].every((h) => headers.includes(h))
+        : needed.every((h) => headers.includes(h));
+      if (!ok) {
+        alert("CSV headers must be: " + needed.join(", ") + " (optionally segments, activities)");
+        return;
+      }
+
+      const daySet = new Set(WEEKDAYS);
+      // "26:00" style hours past midnight are accepted and folded back into 0..23:59
+      const toMin = (hhmm: string) => {
+        if (!hhmm) return undefined;
+        const [hh, mm] = hhmm.split(":").map((n) => parseInt(n, 10));
+        if (Number.isNaN(hh) || Number.isNaN(mm)) return undefined;
+        return (
+          (Math.max(0, Math.min(47, hh)) * 60 + Math.max(0, Math.min(59, mm))) % DAY_MINS
+        );
+      };
+
+      const nextRoster: Roster = { ...roster };
+      let nextAgents = [...agents];
+
+      for (const r of rows) {
+        const name = r["agent"];
+        const day = r["day"] as Weekday;
+        if (!name || !daySet.has(day)) continue;
+
+        // ensure agent exists in list
+        if (!nextAgents.find((a) => a.name === name)) {
+          nextAgents.push({
+            name,
+            country: "SA",
+            level: "junior",
+            remote: true,
+            fridayAllowed: true,
+            breakPref: "60",
+          });
+        }
+
+        const active =
+          r["active"] === "1" || (r["active"] || "").toLowerCase().trim() === "true";
+
+        // segments: "08:00-12:00;18:00-22:00"
+        const segments: WorkSegment[] = [];
+        for (const part of (r["segments"] || "").split(";")) {
+          const [from, to] = part.split("-").map((t) => toMin(t.trim()));
+          if (from !== undefined && to !== undefined) segments.push({ startMin: from, endMin: to });
+        }
+        // activities: "break@10:00+15;lunch@13:00+60"
+        const activities: Activity[] = [];
+        for (const part of (r["activities"] || "").split(";")) {
+          const m = part.trim().match(/^(\w+)@([\d:]+)\+(\d+)$/);
+          const startMin = m ? toMin(m[2]) : undefined;
+          if (!m || startMin === undefined) continue;
+          const type = (ACTIVITY_TYPES as readonly string[]).includes(m[1])
+            ? (m[1] as ActivityType)
+            : "break";
+          activities.push({ type, startMin, mins: parseInt(m[3], 10) || 0 });
+        }
+
+        if (!nextRoster[name]) nextRoster[name] = {} as Record<Weekday, DayBlock>;
+        nextRoster[name][day] =
+          segments.length > 0
+            ? { active, segments, activities }
+            : migrateDayBlock({
+                active,
+                startMin: toMin(r["start"]) ?? DEFAULT_DAY.segments[0].startMin,
+                endMin: toMin(r["end"]) ?? DEFAULT_DAY.segments[0].endMin,
+                breakStartMin: toMin(r["break_start"]),
+                breakMins: parseInt(r["break_minutes"] || "0", 10) || 0,
+              });
+      }
+
+      track(`Import ${file.name}`);
+      setAgents(nextAgents);
+      setRoster(nextRoster);
+    } catch (e) {
+      console.warn("[import csv] failed", e);
+      alert("Failed to import CSV. See console for details.");
+    }
+  };
+
+  /* ===================================================================================
+     AGENT MANAGEMENT
+  =================================================================================== */
+
+  const [newName, setNewName] = useState("");
+  const [newCountry, setNewCountry] = useState("SA");
+  const [newLevel, setNewLevel] = useState<Level>("junior");
+  const [newRemote, setNewRemote] = useState(true);
+  const [newFridayAllowed, setNewFridayAllowed] = useState(true);
+  const [newBreakPref, setNewBreakPref] = useState<"none" | "60">("60");
+
+  const addAgent = () => {
+    const name = newName.trim();
+    if (!name) return;
+    if (agents.find((a) => a.name === name)) {
+      alert("Agent with this name already exists.");
+      return;
+    }
+    const agent: Agent = {
+      name,
+      country: newCountry,
+      level: newLevel,
+      remote: newRemote,
+      fridayAllowed: newFridayAllowed,
+      breakPref: newBreakPref,
+    };
+    track(`Add ${name}`);
+    setAgents((prev) => [...prev, agent]);
+
+    // build default week, in the plain template and every seasonal period
+    const week = {} as Record<Weekday, DayBlock>;
+    for (const d of WEEKDAYS) {
+      const base: DayBlock = {
+        active: d === "Friday" ? newFridayAllowed : true,
+        segments: [{ startMin: 9 * 60, endMin: 17 * 60 }],
+        activities:
+          newBreakPref === "60" ? [{ type: "lunch", startMin: 13 * 60, mins: 60 }] : [],
+      };
+      week[d] = base;
+    }
+    setRoster((prev) => ({ ...prev, [name]: week }));
+    setSeasonalPeriods((prev) =>
+      prev.map((p) => ({ ...p, roster: { ...p.roster, [name]: { ...week } } })),
+    );
+
+    setNewName("");
+  };
+
+  /** blank = follow the agent's country (or the site zone) */
+  const editAgentTimezone = (agent: Agent) => {
+    const raw = prompt(
+      `Timezone for ${agent.name} (IANA name, e.g. Africa/Cairo). Leave blank to follow ` +
+        `the country (${agentTimezone({ ...agent, timezone: undefined }, siteTimezone)}).`,
+      agent.timezone ?? "",
+    );
+    if (raw === null) return;
+    const tz = raw.trim();
+    if (tz && !isValidTimezone(tz)) {
+      alert(`"${tz}" is not a timezone this browser knows.`);
+      return;
+    }
+    track(`Timezone for ${agent.name}`);
+    setAgents((prev) =>
+      prev.map((a) => (a.name === agent.name ? { ...a, timezone: tz || undefined } : a)),
+    );
+  };
+
+  const removeAgent = (name: string) => {
+    const decided = (vacations[name] ?? []).some((r) => leaveStatus(r) !== "pending");
+    if (!canApprove && decided) {
+      alert(`${name} has approved or rejected leave, so only an admin can remove them.`);
+      return;
+    }
     if (!confirm(`Remove agent "${name}" from Montana roster?`)) return;
+    track(`Remove ${name}`);
     setAgents((prev) => prev.filter((a) => a.name !== name));
     setRoster((prev) => {
       const next = { ...prev };
       delete next[name];
       return next;
     });
-    setVacations((prev) => {
-      const next = { ...prev };
-      delete next[name];
-      return next;
+    setSeasonalPeriods((prev) =>
+      prev.map((p) => {
+        const roster = { ...p.roster };
+        delete roster[name];
+        return { ...p, roster };
+      }),
+    );
+    setVacations((prev) => {
+      const next = { ...prev };
+      delete next[name];
+      return next;
+    });
+    setOverrides((prev) => {
+      const next = { ...prev };
+      delete next[name];
+      return next;
+    });
+    setRotationGroups((prev) =>
+      prev.map((g) => ({
+        ...g,
+        weeks: g.weeks.map((w) => {
+          const out = { ...w };
+          delete out[name];
+          return out;
+        }),
+      })),
+    );
+  };
+
+  /* ===================================================================================
+     RENDER
+  =================================================================================== */
+
+  const containerClasses = dark
+    ? "w-full min-h-screen bg-slate-950 text-slate-50"
+    : "w-full min-h-screen bg-slate-100 text-slate-900";
+
+  return (
+    <ErrorBoundary>
+      <div className={containerClasses + " p-4 md:p-6"}>
+        {/* Header */}
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+          <div>
+            <h1 className="text-2xl font-bold tracking-tight">Montana CS WFM</h1>
+            <p className="text-xs text-slate-400 flex items-center gap-2 mt-1">
+              <Info className="w-3 h-3" />
+              Half-hour view in {siteTimezone} ({zoneOffsetLabel(siteTimezone, selectedDate)}).
+              Intraday load by weekday, special day and seasonal period.
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <div title="Site timezone: roster times, coverage and forecasts">
+              <Select
+                value={siteTimezone}
+                onValueChange={(tz) => {
+                  track("Site timezone");
+                  setSiteTimezone(tz);
+                }}
+              >
+                <SelectTrigger className="h-9 w-44" disabled={readOnly}>
+                  <SelectValue>
+                    {siteTimezone} · {zoneOffsetLabel(siteTimezone, selectedDate)}
+                  </SelectValue>
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from(new Set([siteTimezone, ...TIMEZONE_OPTIONS])).map((tz) => (
+                    <SelectItem key={tz} value={tz}>
+                      {tz} · {zoneOffsetLabel(tz, selectedDate)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <WorkspaceSwitcher
+              workspace={workspace}
+              token={token}
+              role={role}
+              current={cloudPayload}
+              onChange={onWorkspaceChange}
+              onTokenChange={onTokenChange}
+            />
+            <div className="flex items-center gap-2" title="Dark mode">
+              <Sun className="w-4 h-4" />
+              <Switch checked={dark} onCheckedChange={setDark} />
+              <Moon className="w-4 h-4" />
+            </div>
+            <div className="flex items-center gap-2">
+              <Calendar className="w-4 h-4" />
+              <Input
+                type="date"
+                className="h-9 w-[140px]"
+                value={selectedDate}
+                onChange={(e) =>
+                  setSelectedDate((e.target as HTMLInputElement).value || isoToday(siteTimezone))
+                }
+              />
+              <Button
+                variant="outline"
+                size="icon"
+                title="Jump to today"
+                onClick={() => setSelectedDate(isoToday(siteTimezone))}
+              >
+                <RotateCcw className="w-4 h-4" />
+              </Button>
+            </div>
+            {!readOnly && (
+              <UndoHistory
+                undoStack={undoStack}
+                redoStack={redoStack}
+                onUndo={undo}
+                onRedo={redo}
+              />
+            )}
+            <div
+              className="text-xs px-2 py-1 rounded-full border border-slate-200/70 dark:border-slate-700"
+              title={
+                pending
+                  ? `${pending} change(s) kept in this browser and not yet in the cloud`
+                  : undefined
+              }
+            >
+              {authError?.status === 401 && "🔒 Sign-in required"}
+              {authError?.status === 403 && "🚫 No access"}
+              {!authError && role === "viewer" && "👁️ Read-only"}
+              {!authError && role !== "viewer" && !online && (
+                <>📴 Offline{pending > 0 && ` · ${pending} pending`}</>
+              )}
+              {!authError && role !== "viewer" && online && (
+                <>
+                  {saveStatus === "idle" && pending > 0 && `⏳ ${pending} pending`}
+                  {saveStatus === "saving" && "💾 Saving..."}
+                  {saveStatus === "saved" && "✅ Saved to cloud"}
+                  {saveStatus === "error" && "⚠️ Save failed"}
+                  {saveStatus === "conflict" && "🔀 Conflict"}
+                  {saveStatus === "idle" && pending === 0 && "☁️ Cloud idle"}
+                </>
+              )}
+            </div>
+            <div className="hidden md:flex items-center gap-2" title="Upload CSV">
+              <input
+                id="csvfile"
+                type="file"
+                accept=".csv"
+                className="hidden"
+                onChange={(e) => {
+                  const f = e.target.files && e.target.files[0];
+                  if (f) onImport(f);
+                }}
+              />
+              <Button
+                variant="outline"
+                disabled={readOnly}
+                onClick={() => document.getElementById("csvfile")?.click()}
+              >
+                <Upload className="w-4 h-4 mr-2" />
+                Import CSV
+              </Button>
+            </div>
+            <Button
+              variant="outline"
+              disabled={readOnly || agents.length === 0}
+              onClick={() => setPlanProposal(generatePlan())}
+            >
+              <RefreshCw className="w-4 h-4 mr-2" />
+              Auto plan
+            </Button>
+            <Button
+              onClick={() => downloadCSV(exportCSV(roster, agents), "Montana_CS_Roster.csv")}
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Export CSV
+            </Button>
+          </div>
+        </div>
+
+        {authError && (
+          <AuthNotice
+            error={authError}
+            workspace={workspace}
+            token={token}
+            onTokenChange={onTokenChange}
+          />
+        )}
+
+        {schemaIssues && (
+          <SchemaNotice
+            source={schemaIssues.source}
+            issues={schemaIssues.issues}
+            blocked={tooNew}
+            onDismiss={() => setSchemaIssues(null)}
+          />
+        )}
+
+        {conflict && (
+          <ConflictDialog
+            mine={cloudPayload}
+            theirs={conflict.theirs}
+            onResolve={resolveConflict}
+          />
+        )}
+
+        {planProposal && (
+          <AutoPlanReview
+            agents={agents}
+            roster={weekTemplate}
+            proposal={planProposal}
+            requiredByDay={requiredByDay}
+            settings={autoPlanSettings}
+            onSettingsChange={setAutoPlanSettings}
+            onRegenerate={() => setPlanProposal(generatePlan())}
+            onAccept={() => {
+              track("Auto plan");
+              applyTemplateWeek(planProposal);
+              setPlanProposal(null);
+            }}
+            onDiscard={() => setPlanProposal(null)}
+          />
+        )}
+
+        {activePeriod && (
+          <Card className="mb-4 shadow-sm border-indigo-300 dark:border-indigo-700">
+            <CardContent className="p-3 flex flex-wrap items-center gap-2 text-sm">
+              <Moon className="w-4 h-4 text-indigo-500" />
+              <span className="font-medium">{activePeriod.name}</span>
+              <span className="font-mono text-xs text-slate-400">
+                {activePeriod.start} → {activePeriod.end}
+              </span>
+              <span className="text-xs text-slate-500 dark:text-slate-400">
+                in effect: its own shifts, intraday profile and daily volumes, max shift{" "}
+                {activePeriod.maxShiftMins / 60}h. Template edits go to the period.
+              </span>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Quick day picker */}
+        <div className="flex flex-wrap gap-2 mb-2" aria-label="Quick day picker">
+          {WEEKDAYS.map((d) => (
+            <Button
+              key={d}
+              size="sm"
+              variant={d === selectedDay ? "default" : "outline"}
+              onClick={() => setSelectedDate(dateForWeekday(selectedDate, d))}
+            >
+              {d.slice(0, 3)}
+            </Button>
+          ))}
+        </div>
+        <p className="text-xs text-slate-400 mb-4">
+          Showing schedule for <span className="font-mono">{selectedDate}</span> ·{" "}
+          <span className="font-semibold">{selectedDay}</span>
+          {specialDay && (
+            <>
+              {" "}
+              ·{" "}
+              <span
+                className="text-amber-600 dark:text-amber-400"
+                title="Special day – see the Forecast tab"
+              >
+                {specialDay.name || "Special day"}
+                {specialDay.multiplier !== 1 && ` (volume ×${specialDay.multiplier})`}
+                {specialDay.hourlyPct && " · own profile"}
+                {specialDay.holiday &&
+                  " · company holiday: agents off unless given a date override"}
+              </span>
+            </>
+          )}
+        </p>
+
+        <Tabs defaultValue="schedule" className="space-y-4">
+          <TabsList className="grid grid-cols-6 w-full md:w-auto">
+            <TabsTrigger value="schedule">Schedule</TabsTrigger>
+            <TabsTrigger value="hours">Hours</TabsTrigger>
+            <TabsTrigger value="forecast">Forecast</TabsTrigger>
+            <TabsTrigger value="skills">Skills</TabsTrigger>
+            <TabsTrigger value="vacations">Leave</TabsTrigger>
+            <TabsTrigger value="history">History</TabsTrigger>
+          </TabsList>
+
+          {/* Schedule tab */}
+          <TabsContent value="schedule">
+            <div className="grid grid-cols-12 gap-4">
+              {/* Left column: notes + filters + manage agents */}
+              <Card className="col-span-12 md:col-span-4 shadow-sm">
+                <CardContent className="p-4 space-y-4">
+                  <div className="text-xs space-y-1">
+                    <div className="flex items-center gap-2 text-amber-400">
+                      <AlertTriangle className="w-3 h-3" />
+                      Notes
+                    </div>
+                    <ul className="list-disc pl-4 text-slate-400">
+                      <li>
+                        Agents on vacation for <span className="font-mono">{selectedDate}</span> are
+                        hidden.
+                      </li>
+                      <li>Use Export CSV to share with ops.</li>
+                      <li>An end time before the start time means the shift ends the next day.</li>
+                    </ul>
+                  </div>
+
+                  <div className="space-y-2">
+                    <div className="flex items-center gap-2 text-sm font-medium">
+                      <Users className="w-4 h-4" />
+                      Filter by level
+                    </div>
+                    <Tabs value={levelFilter} onValueChange={(v) => setLevelFilter(v as any)}>
+                      <TabsList className="grid grid-cols-4">
+                        <TabsTrigger value="all">All</TabsTrigger>
+                        <TabsTrigger value="senior">Senior</TabsTrigger>
+                        <TabsTrigger value="mid">Mid</TabsTrigger>
+                        <TabsTrigger value="junior">Junior</TabsTrigger>
+                      </TabsList>
+                    </Tabs>
+                  </div>
+
+                  {/* Manage agents */}
+                  <Editable readOnly={readOnly}>
+                    <div className="space-y-2">
+                      <div className="flex items-center gap-2 text-sm font-medium">
+                        <UserPlus className="w-4 h-4" />
+                        Manage agents
+                      </div>
+                      {agents.length === 0 ? (
+                        <p className="text-xs text-slate-400">No agents yet. Add one below.</p>
+                      ) : (
+                        <div className="space-y-1 max-h-40 overflow-y-auto pr-1">
+                          {agents.map((a) => (
+                            <div
+                              key={a.name}
+                              className="flex items-center justify-between rounded-xl border border-slate-200/80 px-2 py-1 text-xs dark:border-slate-700"
+                            >
+                              <div className="flex flex-col">
+                                <span className="font-medium">{a.name}</span>
+                                <span className="text-[11px] text-slate-500 dark:text-slate-400">
+                                  {a.level} · {a.remote ? "remote" : "on-site"} · {a.country} ·{" "}
+                                  <button
+                                    className="underline decoration-dotted hover:text-slate-700 dark:hover:text-slate-200"
+                                    onClick={() => editAgentTimezone(a)}
+                                    title={`${agentTimezone(a, siteTimezone)}${
+                                      a.timezone ? "" : " (from country)"
+                                    } – click to change`}
+                                  >
+                                    {zoneOffsetLabel(agentTimezone(a, siteTimezone), selectedDate)}
+                                  </button>
+                                </span>
+                              </div>
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                onClick={() => removeAgent(a.name)}
+                                title="Remove agent"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+
+                      {/* Add new agent */}
+                      <div className="mt-2 space-y-1">
+                        <Input
+                          placeholder="Agent name"
+                          value={newName}
+                          onChange={(e) => setNewName(e.target.value)}
+                        />
+                        <div className="grid grid-cols-2 gap-2">
+                          <Input
+                            placeholder="Country"
+                            value={newCountry}
+                            onChange={(e) => setNewCountry(e.target.value)}
+                          />
+                          <Select
+                            value={newLevel}
+                            onValueChange={(v) => setNewLevel(v as Level)}
+                          >
+                            <SelectTrigger>
+                              <SelectValue placeholder="Level" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="junior">junior</SelectItem>
+                              <SelectItem value="mid">mid</SelectItem>
+                              <SelectItem value="senior">senior</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div className="flex items-center justify-between text-xs mt-1">
+                          <div className="flex items-center gap-2">
+                            <span>Remote</span>
+                            <Switch checked={newRemote} onCheckedChange={setNewRemote} />
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <span>Friday</span>
+                            <Switch
+                              checked={newFridayAllowed}
+                              onCheckedChange={setNewFridayAllowed}
+                            />
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-2 text-xs mt-1">
+                          <span>Break</span>
+                          <Select
+                            value={newBreakPref}
+                            onValueChange={(v) => setNewBreakPref(v as "none" | "60")}
+                          >
+                            <SelectTrigger className="h-8 text-xs">
+                              <SelectValue placeholder="Break" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="none">No break</SelectItem>
+                              <SelectItem value="60">60 min</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <Button className="mt-2 w-full" size="sm" onClick={addAgent}>
+                          <Plus className="w-4 h-4 mr-2" />
+                          Add agent
+                        </Button>
+                      </div>
+                    </div>
+                  </Editable>
+                </CardContent>
+              </Card>
+
+              {/* Right column: chart */}
+              <Card className="col-span-12 md:col-span-8 shadow-sm">
+                <CardContent className="p-4">
+                  <div className="flex items-center gap-2 text-sm text-slate-400 mb-2">
+                    <Clock className="w-4 h-4" />
+                    Coverage vs. required (half-hour · {selectedDay})
+                  </div>
+                  <div className="w-full h-64">
+                    <ResponsiveContainer>
+                      <ComposedChart data={chartData}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis dataKey="label" tick={{ fontSize: 10 }} interval={3} />
+                        <YAxis allowDecimals={false} tick={{ fontSize: 12 }} />
+                        <Tooltip />
+                        <Legend
+                          verticalAlign="top"
+                          align="center"
+                          height={28}
+                          wrapperStyle={{ paddingTop: 4 }}
+                        />
+                        <Bar dataKey="coverage" name="Agents covering" fill="#22c55e" />
+                        <Bar dataKey="required" name="Required agents" fill="#ef4444" />
+                        <Line
+                          type="monotone"
+                          dataKey="load"
+                          name="Ticket load (scaled)"
+                          dot={false}
+                          stroke="#7c3aed"
+                          strokeWidth={2}
+                        />
+                      </ComposedChart>
+                    </ResponsiveContainer>
+                  </div>
+                </CardContent>
+              </Card>
+
+              {/* Agent rows */}
+              <Card className="col-span-12 shadow-sm">
+                <CardContent className="p-4">
+                  <div className="mb-1 flex flex-wrap items-center justify-between gap-2">
+                    <div className="font-medium">
+                      {selectedDay} — Agent hours & breaks (half-hour timeline)
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={readOnly || agents.length === 0}
+                      onClick={staggerAllBreaks}
+                      title="Spread unpinned breaks on every weekday to avoid coverage dips"
+                    >
+                      <Coffee className="w-4 h-4 mr-2" />
+                      Stagger breaks
+                    </Button>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2 mb-3">
+                    <span className="text-xs text-slate-400">Edits apply to</span>
+                    <Tabs
+                      value={editScope}
+                      onValueChange={(v) => setEditScope(v as "template" | "date")}
+                    >
+                      <TabsList className="grid grid-cols-2">
+                        <TabsTrigger value="template">Every {selectedDay}</TabsTrigger>
+                        <TabsTrigger value="date">Only {selectedDate}</TabsTrigger>
+                      </TabsList>
+                    </Tabs>
+                    {rotationGroups.length > 0 && (
+                      <div className="flex items-center gap-1">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setSelectedDate(addDaysISO(selectedDate, -7))}
+                          title="Previous week (rotation weeks follow the selected date)"
+                        >
+                          ‹ Week
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setSelectedDate(addDaysISO(selectedDate, 7))}
+                          title="Next week (rotation weeks follow the selected date)"
+                        >
+                          Week ›
+                        </Button>
+                      </div>
+                    )}
+                    <span className="text-xs text-slate-400">Times shown in</span>
+                    <Tabs value={tzView} onValueChange={(v) => setTzView(v as "site" | "agent")}>
+                      <TabsList className="grid grid-cols-2">
+                        <TabsTrigger value="site">Site time</TabsTrigger>
+                        <TabsTrigger value="agent">Agent's time</TabsTrigger>
+                      </TabsList>
+                    </Tabs>
+                    <span className="text-xs text-slate-400">
+                      · Agents on vacation on <span className="font-mono">{selectedDate}</span>{" "}
+                      are hidden below.
+                    </span>
+                  </div>
+                  <Editable readOnly={readOnly}>
+                    <div className="overflow-x-auto">
+                      <div
+                        className="min-w-[1500px] grid gap-2 auto-rows-auto"
+                        style={{
+                          gridTemplateColumns:
+                            "160px 80px 380px 420px minmax(0,1fr)",
+                        }}
+                      >
+                        <div className="text-xs font-semibold">Agent</div>
+                        <div className="text-xs font-semibold text-center">Active</div>
+                        <div className="text-xs font-semibold">Work segments</div>
+                        <div className="text-xs font-semibold">Breaks & activities</div>
+                        <div className="text-xs font-semibold">
+                          Half-hour timeline (site time)
+                        </div>
+
+                        {agents
+                          .filter((a) => levelFilter === "all" || a.level === levelFilter)
+                          .filter((a) => !isAgentOnVacation(a.name, selectedDate, vacations))
+                          .map((a) => {
+                            const template =
+                              templateBlock(
+                                roster,
+                                rotationGroups,
+                                a,
+                                selectedDate,
+                                seasonalPeriods,
+                              ) ?? DEFAULT_DAY;
+                            const group = activePeriod
+                              ? undefined
+                              : rotationGroups.find((g) => g.id === a.rotationGroup);
+                            const override = overrides[a.name]?.[selectedDate];
+                            // on a company holiday the date starts off until an override is made
+                            const blk =
+                              editScope === "date"
+                                ? override ??
+                                  (specialDay?.holiday ? { ...template, active: false } : template)
+                                : template;
+                            const prevDate = addDaysISO(selectedDate, -1);
+                            const carryIn = isAgentOnVacation(a.name, prevDate, vacations)
+                              ? undefined
+                              : editScope === "date"
+                              ? effectiveBlock(
+                                  roster,
+                                  overrides,
+                                  a,
+                                  prevDate,
+                                  rotationGroups,
+                                  specialDays,
+                                  seasonalPeriods,
+                                )
+                              : templateBlock(roster, rotationGroups, a, prevDate, seasonalPeriods);
+                            // the editors show the agent's local clock; the grid stores site time
+                            const tz = agentTimezone(a, siteTimezone);
+                            const delta =
+                              tzView === "agent"
+                                ? zoneShiftMinutes(
+                                    selectedDate,
+                                    blk.segments[0]?.startMin ?? 0,
+                                    siteTimezone,
+                                    tz,
+                                  )
+                                : 0;
+                            const shown = shiftBlock(blk, delta);
+                            const firstStart = blk.segments[0]?.startMin;
+                            const dayHint =
+                              delta && firstStart !== undefined && blk.active
+                                ? firstStart + delta < 0
+                                  ? "starts the day before, local"
+                                  : firstStart + delta >= DAY_MINS
+                                  ? "starts the next day, local"
+                                  : ""
+                                : "";
+                            const setShown = (next: DayBlock) =>
+                              setDayBlock(a.name, shiftBlock(next, -delta));
+                            const broken = laborViolations.filter(
+                              (v) => v.agent === a.name && (!v.day || v.day === selectedDay),
+                            );
+                            return (
+                              <React.Fragment key={a.name + selectedDay}>
+                                <div
+                                  className={`py-2 pr-3 text-sm sticky left-0 z-20 w-[160px] shrink-0 ${
+                                    broken.length
+                                      ? "bg-red-50 dark:bg-red-950 border-l-2 border-red-500 pl-2"
+                                      : "bg-slate-50 dark:bg-slate-950"
+                                  }`}
+                                >
+                                  <div className="font-medium flex items-center gap-1 min-w-0">
+                                    {broken.length > 0 && (
+                                      <span title={broken.map((v) => v.message).join("\n")}>
+                                        <AlertTriangle className="w-3 h-3 text-red-500" />
+                                      </span>
+                                    )}
+                                    <span className="truncate">{a.name}</span>
+                                  </div>
+                                  <div className="text-[11px] opacity-70 whitespace-nowrap truncate">
+                                    {a.level} · {a.remote ? "remote" : "on-site"} · {a.country}
+                                  </div>
+                                  {tz !== siteTimezone && (
+                                    <div
+                                      className="text-[11px] text-slate-500 truncate"
+                                      title={`${tz}${dayHint ? ` – ${dayHint}` : ""}`}
+                                    >
+                                      🕑 {zoneOffsetLabel(tz, selectedDate)}
+                                      {dayHint && <span className="text-amber-600"> · {dayHint}</span>}
+                                    </div>
+                                  )}
+                                  {group && (
+                                    <div
+                                      className="text-[11px] text-sky-600 dark:text-sky-400 truncate"
+                                      title={`Rotation ${group.name}, anchored ${group.anchorDate}`}
+                                    >
+                                      {group.name} · wk {rotationWeekIndex(group, selectedDate) + 1}/
+                                      {group.weeks.length}
+                                    </div>
+                                  )}
+                                  {override && (
+                                    <div className="flex items-center gap-1 mt-1">
+                                      <Badge
+                                        className="bg-violet-500 text-white dark:bg-violet-500 dark:text-white"
+                                        title={`${selectedDate}: ${formatBlock(override)}`}
+                                      >
+                                        Override
+                                      </Badge>
+                                      <button
+                                        className="rounded-full hover:bg-slate-100 dark:hover:bg-slate-800 p-1"
+                                        onClick={() => revertToTemplate(a.name, selectedDate)}
+                                        title="Revert to template"
+                                      >
+                                        <RotateCcw className="w-3 h-3" />
+                                      </button>
+                                    </div>
+                                  )}
+                                </div>
+                                <div className="flex items-center justify-center w-[80px] shrink-0">
+                                  <Switch
+                                    checked={blk.active}
+                                    onCheckedChange={(checked) =>
+                                      setDayBlock(a.name, { ...blk, active: checked })
+                                    }
+                                    title="Enable/disable this agent"
+                                  />
+                                </div>
+                                <WorkSegmentsEditor
+                                  block={shown}
+                                  onChange={setShown}
+                                  nextDay={nextWeekday(selectedDay)}
+                                />
+                                <ActivitiesEditor block={shown} onChange={setShown} />
+                                <TimelineRowHalfHour block={blk} carryIn={carryIn} />
+                              </React.Fragment>
+                            );
+                          })}
+                      </div>
+                    </div>
+                  </Editable>
+                </CardContent>
+              </Card>
+
+              <LaborRulesPanel
+                rules={laborRules}
+                onRulesChange={setLaborRules}
+                violations={laborViolations}
+                agents={agents}
+                selectedDay={selectedDay}
+                onSelectDay={(d) => setSelectedDate(dateForWeekday(selectedDate, d))}
+                readOnly={readOnly}
+              />
+
+              {/* Heatbar */}
+              <Card className="col-span-12 shadow-sm">
+                <CardContent className="p-4">
+                  <div className="mb-1 text-sm font-medium">
+                    Half-hour coverage ({selectedDay})
+                  </div>
+                  <CoverageHeatbarHalfHour coverage={coverage48} />
+                </CardContent>
+              </Card>
+
+              <Editable readOnly={readOnly}>
+                <RotationManager
+                  groups={rotationGroups}
+                  setGroups={setRotationGroups}
+                  agents={agents}
+                  selectedDate={selectedDate}
+                  timeZone={siteTimezone}
+                  onAssign={assignRotation}
+                />
+              </Editable>
+
+              <Editable readOnly={readOnly}>
+                <SeasonalPeriodsManager
+                  periods={seasonalPeriods}
+                  setPeriods={setSeasonalPeriods}
+                  roster={roster}
+                  hourlyPctByDay={hourlyPctByDay}
+                  dailyAvg={dailyAvg}
+                  selectedDate={selectedDate}
+                  onSelectDate={setSelectedDate}
+                />
+              </Editable>
+            </div>
+          </TabsContent>
+
+          {/* Hours tab */}
+          <TabsContent value="hours">
+            <HoursSummary
+              agents={agents}
+              roster={roster}
+              overrides={overrides}
+              vacations={vacations}
+              groups={rotationGroups}
+              specialDays={specialDays}
+              periods={seasonalPeriods}
+              selectedDate={selectedDate}
+            />
+          </TabsContent>
+
+          {/* Forecast tab */}
+          <TabsContent value="forecast">
+            <div className="grid grid-cols-12 gap-4">
+              <Editable readOnly={readOnly}>
+                <Card className="col-span-12 md:col-span-4 shadow-sm">
+                  <CardContent className="p-4 space-y-3">
+                    <div className="flex items-center gap-2 text-sm font-medium">
+                      <SlidersHorizontal className="w-4 h-4" />
+                      Forecast settings
+                    </div>
+                    <label className="text-xs font-medium">Staffing model</label>
+                    <Select
+                      value={staffingModel}
+                      onValueChange={(v) => setStaffingModel(v as StaffingModel)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="erlangC">erlangC</SelectItem>
+                        <SelectItem value="erlangA">erlangA</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <div className="grid grid-cols-2 gap-2">
+                      <div>
+                        <label className="text-xs font-medium">ASA target (s)</label>
+                        <Input
+                          type="number"
+                          value={asaTargetSec}
+                          min={1}
+                          max={3600}
+                          onChange={(e) =>
+                            setAsaTargetSec(
+                              Math.max(1, parseInt((e.target as HTMLInputElement).value || "30", 10)),
+                            )
+                          }
+                        />
+                      </div>
+                      {staffingModel === "erlangA" && (
+                        <div>
+                          <label className="text-xs font-medium">Patience (s)</label>
+                          <Input
+                            type="number"
+                            value={patienceSec}
+                            min={1}
+                            max={3600}
+                            onChange={(e) =>
+                              setPatienceSec(
+                                Math.max(
+                                  1,
+                                  parseInt((e.target as HTMLInputElement).value || "180", 10),
+                                ),
+                              )
+                            }
+                          />
+                        </div>
+                      )}
+                    </div>
+                    <label className="text-xs font-medium">Max occupancy</label>
+                    <Slider
+                      value={[Math.round(occupancy * 100)]}
+                      min={50}
+                      max={95}
+                      step={1}
+                      onValueChange={([v]) => setOccupancy(v / 100)}
+                    />
+                    <div className="text-xs">{Math.round(occupancy * 100)}%</div>
+                    <label className="text-xs font-medium">
+                      Buffer (extra agents / 30-min)
+                    </label>
+                    <Input
+                      type="number"
+                      value={serviceBuffer}
+                      min={0}
+                      max={10}
+                      onChange={(e) =>
+                        setServiceBuffer(
+                          parseInt((e.target as HTMLInputElement).value || "0", 10),
+                        )
+                      }
+                    />
+                    <label className="text-xs font-medium">Day</label>
+                    <Select
+                      value={selectedDay}
+                      onValueChange={(v) =>
+                        setSelectedDate(dateForWeekday(selectedDate, v as Weekday))
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {WEEKDAYS.map((d) => (
+                          <SelectItem key={d} value={d}>
+                            {d}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </CardContent>
+                </Card>
+              </Editable>
+
+              <Card className="col-span-12 md:col-span-8 shadow-sm">
+                <CardContent className="p-4">
+                  <div className="flex items-center gap-2 text-sm text-slate-400 mb-2">
+                    <Activity className="w-4 h-4" />
+                    Demand vs Required vs Coverage (half-hour · {selectedDay})
+                  </div>
+                  <div className="w-full h-64">
+                    <ResponsiveContainer>
+                      <ComposedChart data={chartData}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis dataKey="label" tick={{ fontSize: 10 }} interval={3} />
+                        <YAxis allowDecimals={false} tick={{ fontSize: 12 }} />
+                        <Tooltip />
+                        <Legend
+                          verticalAlign="top"
+                          align="center"
+                          height={28}
+                          wrapperStyle={{ paddingTop: 4 }}
+                        />
+                        <YAxis
+                          yAxisId="sl"
+                          orientation="right"
+                          domain={[0, 100]}
+                          tick={{ fontSize: 12 }}
+                          unit="%"
+                        />
+                        <ReferenceLine
+                          yAxisId="sl"
+                          y={Math.round(slTargetLine * 100)}
+                          stroke="#0ea5e9"
+                          strokeDasharray="4 4"
+                        />
+                        {CHANNELS.filter((ch) => channels[ch].enabled).map((ch) => (
+                          <Bar
+                            key={`required_${ch}`}
+                            dataKey={`required_${ch}`}
+                            name={`Required · ${CHANNEL_LABELS[ch]}`}
+                            stackId="required"
+                            fill={CHANNEL_COLORS[ch]}
+                            fillOpacity={0.35}
+                          />
+                        ))}
+                        {CHANNELS.filter((ch) => channels[ch].enabled).map((ch) => (
+                          <Bar
+                            key={`coverage_${ch}`}
+                            dataKey={`coverage_${ch}`}
+                            name={`Coverage · ${CHANNEL_LABELS[ch]}`}
+                            stackId="coverage"
+                            fill={CHANNEL_COLORS[ch]}
+                          />
+                        ))}
+                        <Line
+                          type="monotone"
+                          dataKey="load"
+                          name="Load (scaled)"
+                          dot={false}
+                          stroke="#7c3aed"
+                          strokeWidth={2}
+                        />
+                        <Line
+                          yAxisId="sl"
+                          type="monotone"
+                          dataKey="serviceLevel"
+                          name="Projected SL (%)"
+                          dot={false}
+                          stroke="#0ea5e9"
+                          strokeWidth={2}
+                        />
+                      </ComposedChart>
+                    </ResponsiveContainer>
+                  </div>
+                  <p className="text-xs text-slate-400 mt-2">
+                    {forecastByDate[selectedDate] ? (
+                      <>
+                        Forecast for <span className="font-mono">{selectedDate}</span>:{" "}
+                        <span className="font-mono">{forecastByDate[selectedDate].mean}</span>{" "}
+                        tickets (80%{" "}
+                        <span className="font-mono">
+                          {forecastByDate[selectedDate].lo}–{forecastByDate[selectedDate].hi}
+                        </span>
+                        ) ·{" "}
+                      </>
+                    ) : (
+                      <>
+                        {selectedDay} average:{" "}
+                        <span className="font-mono">{dayVolume(selectedDate)}</span> tickets ·{" "}
+                      </>
+                    )}
+                    {staffingModel === "erlangA" ? "Erlang A" : "Erlang C"} · projected day SL{" "}
+                    <span className="font-mono">
+                      {(projectedDay.serviceLevel * 100).toFixed(1)}%
+                    </span>{" "}
+                    on live channels · ASA{" "}
+                    <span className="font-mono">{Math.round(projectedDay.asaSec)}s</span> ·{" "}
+                    {projectedDay.missed} half-hours below target
+                  </p>
+                </CardContent>
+              </Card>
+
+              <Editable readOnly={readOnly}>
+                <ChannelSettings
+                  channels={channels}
+                  setChannels={setChannels}
+                  volume={channelDemand.volume}
+                  required={channelDemand.required}
+                  coverage={channelCoverage}
+                />
+              </Editable>
+
+              <LoadProfileEditor
+                readOnly={readOnly}
+                day={selectedDay}
+                period={activePeriod?.name}
+                special={
+                  specialDay?.hourlyPct
+                    ? `${selectedDate} · ${specialDay.name || "special day"}`
+                    : undefined
+                }
+                target={profileView}
+                onTargetChange={setProfileTarget}
+                profile={
+                  (profileView === "special" && specialDay?.hourlyPct) ||
+                  (profileView !== "weekday" &&
+                    profileView !== "special" &&
+                    channels[profileView].hourlyPct) ||
+                  weekdayProfiles[selectedDay] ||
+                  HOURLY_LOAD_PCT_DEFAULT
+                }
+                onChange={(next) =>
+                  profileView === "weekday"
+                    ? setWeekdayProfiles((prev) => ({ ...prev, [selectedDay]: next }))
+                    : profileView === "special"
+                    ? setSpecialDays((prev) => ({
+                        ...prev,
+                        [selectedDate]: { ...prev[selectedDate], hourlyPct: next },
+                      }))
+                    : setChannels((prev) => ({
+                        ...prev,
+                        [profileView]: { ...prev[profileView], hourlyPct: next },
+                      }))
+                }
+                onCopy={(days) =>
+                  setWeekdayProfiles((prev) => {
+                    const src = prev[selectedDay] || HOURLY_LOAD_PCT_DEFAULT;
+                    const next = { ...prev };
+                    for (const d of days) next[d] = [...src];
+                    return next;
+                  })
+                }
+                onReset={() => {
+                  if (profileView === "weekday") {
+                    setWeekdayProfiles((prev) => ({
+                      ...prev,
+                      [selectedDay]: [...HOURLY_LOAD_PCT_DEFAULT],
+                    }));
+                    return;
+                  }
+                  if (profileView === "special") {
+                    setSpecialDays((prev) => {
+                      const day = { ...prev[selectedDate] };
+                      delete day.hourlyPct;
+                      return { ...prev, [selectedDate]: day };
+                    });
+                    setProfileTarget("weekday");
+                    return;
+                  }
+                  setChannels((prev) => {
+                    const cfg = { ...prev[profileView] };
+                    delete cfg.hourlyPct;
+                    return { ...prev, [profileView]: cfg };
+                  });
+                }}
+              />
+
+              <Editable readOnly={readOnly}>
+                <VolumeForecastPanel
+                  history={volumeHistory}
+                  forecast={volumeForecast}
+                  selectedDate={selectedDate}
+                  weeks={forecastWeeks}
+                  onWeeksChange={setForecastWeeks}
+                  onClearHistory={() => {
+                    if (!confirm("Clear the daily volume history? Demand goes back to weekday averages."))
+                      return;
+                    setVolumeHistory({});
+                  }}
+                />
+              </Editable>
+
+              <Editable readOnly={readOnly}>
+                <SpecialDaysManager
+                  specialDays={specialDays}
+                  setSpecialDays={setSpecialDays}
+                  selectedDate={selectedDate}
+                  onSelectDate={setSelectedDate}
+                  weekdayProfile={(iso) =>
+                    hourlyPctByDay[weekdayNameFromISO(iso)] || HOURLY_LOAD_PCT_DEFAULT
+                  }
+                />
+              </Editable>
+
+              <Editable readOnly={readOnly}>
+                <TicketHistoryImport
+                  hourlyPctByDay={hourlyPctByDay}
+                  dailyAvg={dailyAvg}
+                  selectedDay={selectedDay}
+                  timeZone={siteTimezone}
+                  onApply={(p, totals) => {
+                    track("Apply ticket history");
+                    setHourlyPctByDay((prev) => ({ ...prev, ...p.hourlyPctByDay }));
+                    setDailyAvg((prev) => ({ ...prev, ...p.dailyAvg }));
+                    setVolumeHistory((prev) => ({ ...prev, ...totals }));
+                  }}
+                />
+              </Editable>
+            </div>
+          </TabsContent>
+
+          {/* Skills tab */}
+          <TabsContent value="skills">
+            <div className="grid grid-cols-12 gap-4">
+              <SkillCoverageView
+                skills={skills}
+                required={skillRequired}
+                coverage={skillCoverage}
+                totalRequired={required48}
+                totalCoverage={coverage48}
+                selectedDate={selectedDate}
+              />
+              <Editable readOnly={readOnly}>
+                <SkillsManager
+                  skills={skills}
+                  setSkills={setSkills}
+                  agents={agents}
+                  setAgents={setAgents}
+                />
+              </Editable>
+            </div>
+          </TabsContent>
+
+          {/* Leave tab */}
+          <TabsContent value="vacations">
+            <LeaveManager
+              vacations={vacations}
+              setVacations={setVacations}
+              agents={agents}
+              setAgents={setAgents}
+              roster={roster}
+              overrides={overrides}
+              groups={rotationGroups}
+              specialDays={specialDays}
+              periods={seasonalPeriods}
+              timeZone={siteTimezone}
+              readOnly={readOnly}
+              canApprove={canApprove}
+            />
+          </TabsContent>
+
+          {/* History tab */}
+          <TabsContent value="history">
+            <VersionHistory
+              workspace={workspace}
+              token={token}
+              readOnly={readOnly}
+              current={cloudPayload}
+              onSaveVersion={saveVersionNow}
+              onRestore={restoreVersion}
+            />
+          </TabsContent>
+        </Tabs>
+      </div>
+    </ErrorBoundary>
+  );
+};
+
+/* =====================================================================================
+   SUB-COMPONENTS
+===================================================================================== */
+
+/** disables every control inside without touching layout (read-only workspaces) */
+function Editable({ readOnly, children }: { readOnly: boolean; children: React.ReactNode }) {
+  return (
+    <fieldset disabled={readOnly} className="contents">
+      {children}
+    </fieldset>
+  );
+}
+
+/* Auth notice: the function answered 401 (no / unknown token) or 403 (role too low) */
+
+function AuthNotice({
+  error,
+  workspace,
+  token,
+  onTokenChange,
+}: {
+  error: CloudError;
+  workspace: string;
+  token: string;
+  onTokenChange: (token: string) => void;
+}) {
+  const [draft, setDraft] = useState("");
+  const signIn = error.status === 401;
+  return (
+    <Card className="mb-4 shadow-sm border-amber-300 dark:border-amber-700">
+      <CardContent className="p-4 flex flex-wrap items-center gap-3">
+        <Lock className="w-5 h-5 text-amber-500" />
+        <div className="flex-1 min-w-[240px]">
+          <div className="text-sm font-medium">
+            {signIn ? "Sign-in required" : `No access to workspace "${workspace}"`}
+          </div>
+          <div className="text-xs text-slate-400">
+            {signIn
+              ? "Enter an access token to load and edit this workspace."
+              : "Your token does not have the role needed here. Changes are not saved."}{" "}
+            <span className="font-mono">({error.detail})</span>
+          </div>
+        </div>
+        <Input
+          type="password"
+          className="w-56"
+          placeholder="Access token"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && draft.trim() && onTokenChange(draft.trim())}
+        />
+        <Button size="sm" disabled={!draft.trim()} onClick={() => onTokenChange(draft.trim())}>
+          {signIn ? "Sign in" : "Use this token"}
+        </Button>
+        {token && (
+          <Button size="sm" variant="outline" onClick={() => onTokenChange("")}>
+            Sign out
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/* Schema notice: fields the loader skipped, or why the function rejected a save */
+
+function SchemaNotice({
+  source,
+  issues,
+  blocked,
+  onDismiss,
+}: {
+  source: "load" | "save";
+  issues: SchemaIssue[];
+  blocked: boolean;
+  onDismiss: () => void;
+}) {
+  const shown = issues.slice(0, 8);
+  return (
+    <Card className="mb-4 shadow-sm border-amber-300 dark:border-amber-700">
+      <CardContent className="p-4 space-y-2">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <AlertTriangle className="w-4 h-4 text-amber-500" />
+          {blocked
+            ? "This workspace was saved by a newer version of the app"
+            : source === "load"
+            ? "Some saved data was invalid and has been skipped"
+            : "The server rejected the last save"}
+          <Button size="icon" variant="ghost" className="ml-auto" onClick={onDismiss}>
+            <XIcon className="w-4 h-4" />
+          </Button>
+        </div>
+        <div className="text-xs text-slate-400">
+          {blocked
+            ? "It is shown read-only so this version does not overwrite it. Reload to update."
+            : source === "load"
+            ? "Defaults are used for these fields; the stored copy is kept in History."
+            : "Nothing was saved. Fix these fields (or undo the last change) to save again."}
+        </div>
+        <ul className="text-xs font-mono space-y-0.5">
+          {shown.map((i, k) => (
+            <li key={k}>
+              {i.path}: {i.message}
+            </li>
+          ))}
+          {issues.length > shown.length && <li>… and {issues.length - shown.length} more</li>}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
+
+/* Save conflict: someone saved since this session loaded; pick mine / theirs per item */
+
+function ConflictDialog({
+  mine,
+  theirs,
+  onResolve,
+}: {
+  mine: StoredWorkspace;
+  theirs: unknown;
+  onResolve: (merged: StoredWorkspace) => void;
+}) {
+  const items = useMemo(() => diffPayloads(mine, theirs), [mine, theirs]);
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({});
+  const choiceOf = (id: string): ConflictChoice => choices[id] ?? "mine";
+  const resolveAll = (side: ConflictChoice) =>
+    onResolve(
+      mergePayloads(mine, theirs, items, Object.fromEntries(items.map((it) => [it.id, side]))),
+    );
+  const groups = Array.from(new Set(items.map((it) => it.group)));
+  const savedAt = isObject(theirs) ? theirs.savedAt : undefined;
+  const savedBy = typeof savedAt === "string" ? new Date(savedAt) : undefined;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4">
+      <Card className="w-full max-w-4xl max-h-[85vh] overflow-auto shadow-sm">
+        <CardContent className="p-4 space-y-3">
+          <div className="flex items-center gap-2 text-sm font-medium">
+            <GitMerge className="w-4 h-4" />
+            Someone else saved this workspace
+            <Badge variant="secondary">{items.length} differences</Badge>
+          </div>
+          <p className="text-xs text-slate-400">
+            Your last change was not saved because the stored copy changed
+            {savedBy ? ` (saved ${savedBy.toLocaleString()})` : ""}. Keep yours, keep theirs, or
+            pick per item and merge.
+          </p>
+          {items.length === 0 && (
+            <div className="text-xs text-slate-400">
+              Nothing differs in agents, days, vacations or settings.
+            </div>
+          )}
+          {groups.map((g) => (
+            <div key={g}>
+              <div className="text-xs font-medium mb-1">{g}</div>
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-left text-xs text-slate-400">
+                    <th className="py-1 pr-2 w-48">Item</th>
+                    <th className="py-1 pr-2">Mine</th>
+                    <th className="py-1 pr-2">Theirs</th>
+                    <th className="py-1 w-36">Keep</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {items
+                    .filter((it) => it.group === g)
+                    .map((it) => (
+                      <tr key={it.id} className="border-t border-slate-200 dark:border-slate-800">
+                        <td className="py-1 pr-2 font-medium">{it.label}</td>
+                        <td className="py-1 pr-2 break-all">{describeConflictValue(it, "mine")}</td>
+                        <td className="py-1 pr-2 break-all">
+                          {describeConflictValue(it, "theirs")}
+                        </td>
+                        <td className="py-1">
+                          <div className="flex gap-1">
+                            {(["mine", "theirs"] as const).map((side) => (
+                              <Button
+                                key={side}
+                                size="sm"
+                                variant={choiceOf(it.id) === side ? "default" : "outline"}
+                                onClick={() => setChoices((c) => ({ ...c, [it.id]: side }))}
+                              >
+                                {side === "mine" ? "Mine" : "Theirs"}
+                              </Button>
+                            ))}
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                </tbody>
+              </table>
+            </div>
+          ))}
+          <div className="flex flex-wrap justify-end gap-2 pt-1">
+            <Button variant="outline" onClick={() => resolveAll("theirs")}>
+              Keep theirs
+            </Button>
+            <Button variant="outline" onClick={() => resolveAll("mine")}>
+              Keep mine
+            </Button>
+            <Button
+              disabled={items.length === 0}
+              onClick={() =>
+                onResolve(
+                  mergePayloads(
+                    mine,
+                    theirs,
+                    items,
+                    Object.fromEntries(items.map((it) => [it.id, choiceOf(it.id)])),
+                  ),
+                )
+              }
+            >
+              Merge selected
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+/** hours : minutes; `allowDayEnd` also takes 24:00 (1440), the end of the day */
+function TimeInput({
+  value,
+  onChange,
+  disabled,
+  allowDayEnd,
+}: {
+  value: number;
+  onChange: (v: number) => void;
+  disabled?: boolean;
+  allowDayEnd?: boolean;
+}) {
+  const hh = Math.floor(value / 60);
+  const mm = value % 60;
+  const maxHour = allowDayEnd ? 24 : 23;
+  const set = (h: number, m: number) => onChange(h === 24 ? DAY_MINS : h * 60 + m);
+  return (
+    <div className="flex items-center gap-1 shrink-0">
+      <Input
+        type="number"
+        inputMode="numeric"
+        pattern="[0-9]*"
+        className="h-9 w-16 text-center font-mono [font-variant-numeric:tabular-nums]"
+        min={0}
+        max={maxHour}
+        value={hh}
+        disabled={!!disabled}
+        onChange={(e) => {
+          const v = parseInt((e.target as HTMLInputElement).value || "0", 10);
+          set(clamp(v, 0, maxHour), mm);
+        }}
+      />
+      <span className="text-xs px-1 opacity-70">:</span>
+      <Input
+        type="number"
+        inputMode="numeric"
+        pattern="[0-9]*"
+        className="h-9 w-16 text-center font-mono [font-variant-numeric:tabular-nums]"
+        min={0}
+        max={59}
+        value={mm}
+        disabled={!!disabled || hh === 24}
+        onChange={(e) => {
+          const v = parseInt((e.target as HTMLInputElement).value || "0", 10);
+          set(hh, clamp(v, 0, 59));
+        }}
+      />
+    </div>
+  );
+}
+
+function WorkSegmentsEditor({
+  block,
+  onChange,
+  nextDay,
+}: {
+  block: DayBlock;
+  onChange: (b: DayBlock) => void;
+  nextDay: Weekday;
+}) {
+  const endsNextDay = block.active && blockSpan(block).end > DAY_MINS;
+  const setSegment = (i: number, seg: WorkSegment) =>
+    onChange({ ...block, segments: block.segments.map((s, j) => (j === i ? seg : s)) });
+  const addSegment = () => {
+    const last = block.segments[block.segments.length - 1] ?? DEFAULT_DAY.segments[0];
+    const startMin = (last.endMin + 60) % DAY_MINS;
+    onChange({
+      ...block,
+      segments: [...block.segments, { startMin, endMin: (startMin + 4 * 60) % DAY_MINS }],
+    });
+  };
+  return (
+    <div className="flex flex-col gap-1 w-[380px] shrink-0">
+      {block.segments.map((seg, i) => (
+        <div key={i} className="flex items-center gap-1">
+          <TimeInput
+            value={seg.startMin}
+            onChange={(v) => setSegment(i, { ...seg, startMin: v })}
+            disabled={!block.active}
+          />
+          <span className="text-xs opacity-60">–</span>
+          <TimeInput
+            value={seg.endMin}
+            onChange={(v) => setSegment(i, { ...seg, endMin: v })}
+            disabled={!block.active}
+            allowDayEnd
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            title="Remove segment"
+            onClick={() =>
+              onChange({ ...block, segments: block.segments.filter((_, j) => j !== i) })
+            }
+            disabled={!block.active || block.segments.length <= 1}
+          >
+            <XIcon className="w-3 h-3" />
+          </Button>
+        </div>
+      ))}
+      <div className="flex items-center gap-2">
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={addSegment}
+          disabled={!block.active}
+          title="Add a split-shift segment"
+        >
+          <Plus className="w-3 h-3 mr-1" />
+          Segment
+        </Button>
+        {endsNextDay && (
+          <span
+            className="text-[10px] font-semibold text-violet-500"
+            title={`Ends on ${nextDay}`}
+          >
+            +1 ends {nextDay}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function ActivitiesEditor({
+  block,
+  onChange,
+}: {
+  block: DayBlock;
+  onChange: (b: DayBlock) => void;
+}) {
+  const setActivity = (i: number, x: Activity) =>
+    onChange({ ...block, activities: block.activities.map((a, j) => (j === i ? x : a)) });
+  const addActivity = () => {
+    const first = block.segments[0] ?? DEFAULT_DAY.segments[0];
+    onChange({
+      ...block,
+      activities: [
+        ...block.activities,
+        { type: "break", startMin: (first.startMin + 2 * 60) % DAY_MINS, mins: 15 },
+      ],
+    });
+  };
+  return (
+    <div className="flex flex-col gap-1 w-[420px] shrink-0">
+      {block.activities.map((x, i) => (
+        <div key={i} className="flex items-center gap-1">
+          <div className="w-24 shrink-0">
+            <Select
+              value={x.type}
+              onValueChange={(v) => setActivity(i, { ...x, type: v as ActivityType })}
+            >
+              <SelectTrigger className="h-9 text-xs" disabled={!block.active}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ACTIVITY_TYPES.map((t) => (
+                  <SelectItem key={t} value={t}>
+                    {t}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <TimeInput
+            value={x.startMin}
+            onChange={(v) => setActivity(i, { ...x, startMin: v })}
+            disabled={!block.active}
+          />
+          <Input
+            type="number"
+            className="h-9 w-16 text-center font-mono [font-variant-numeric:tabular-nums]"
+            value={x.mins}
+            min={0}
+            max={180}
+            step={5}
+            title="Minutes"
+            onChange={(e) =>
+              setActivity(i, {
+                ...x,
+                mins: clamp(parseInt((e.target as HTMLInputElement).value || "0", 10), 0, 180),
+              })
+            }
+            disabled={!block.active}
+          />
+          <Button
+            type="button"
+            variant={x.pinned ? "default" : "ghost"}
+            size="icon"
+            title={x.pinned ? "Pinned – Stagger breaks will not move it" : "Pin this activity"}
+            onClick={() => setActivity(i, { ...x, pinned: !x.pinned })}
+            disabled={!block.active}
+          >
+            {x.pinned ? <Pin className="w-4 h-4" /> : <PinOff className="w-4 h-4 opacity-50" />}
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            title="Remove"
+            onClick={() =>
+              onChange({ ...block, activities: block.activities.filter((_, j) => j !== i) })
+            }
+            disabled={!block.active}
+          >
+            <XIcon className="w-3 h-3" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        className="self-start"
+        onClick={addActivity}
+        disabled={!block.active}
+      >
+        <Plus className="w-3 h-3 mr-1" />
+        Break / activity
+      </Button>
+    </div>
+  );
+}
+
+const ACTIVITY_COLORS: Record<ActivityType, string> = {
+  break: "bg-amber-300",
+  lunch: "bg-orange-400",
+  meeting: "bg-sky-300",
+  training: "bg-indigo-300",
+};
+
+/** One day's timeline; `carryIn` is the previous day's block, drawn where it runs past midnight */
+function TimelineRowHalfHour({ block, carryIn }: { block: DayBlock; carryIn?: DayBlock }) {
+  const seg: { k: number; type: "work" | ActivityType | "off"; carried: boolean }[] = [];
+  for (let k = 0; k < halfHourBuckets; k++) {
+    const hs = k * 30,
+      he = (k + 1) * 30;
+    const own = blockMinutesIn(block, hs, he);
+    const prev = carryIn ? blockMinutesIn(carryIn, hs + DAY_MINS, he + DAY_MINS) : own;
+    const carried = own.work === 0 && prev.work > 0;
+    const { net, acts } = carried ? prev : own;
+    const topAct = (Object.keys(acts) as ActivityType[]).sort(
+      (x, y) => (acts[y] || 0) - (acts[x] || 0),
+    )[0];
+    seg.push({ k, type: net > 0 ? "work" : topAct ?? "off", carried });
+  }
+  return (
+    <div
+      className="grid"
+      style={{ gridTemplateColumns: "repeat(48, minmax(0,1fr))", gap: "2px" }}
+    >
+      {seg.map((s) => (
+        <div
+          key={s.k}
+          className={`h-7 rounded-sm ${
+            s.type === "work"
+              ? "bg-emerald-300"
+              : s.type === "off"
+              ? "bg-slate-200"
+              : ACTIVITY_COLORS[s.type]
+          } ${s.carried ? "opacity-60" : ""}`}
+          title={
+            halfHourLabel(s.k) +
+            (s.type !== "work" && s.type !== "off" ? ` · ${s.type}` : "") +
+            (s.carried ? " · overnight from previous day" : "")
+          }
+        />
+      ))}
+    </div>
+  );
+}
+
+function CoverageHeatbarHalfHour({ coverage }: { coverage: number[] }) {
+  const max = Math.max(1, ...coverage);
+  return (
+    <div
+      className="grid"
+      style={{ gridTemplateColumns: "repeat(48, minmax(0,1fr))", gap: "4px" }}
+    >
+      {coverage.map((c, k) => (
+        <div key={k} className="flex flex-col items-center">
+          <div
+            className="w-full h-10 rounded-sm bg-violet-400"
+            style={{ opacity: 0.2 + (0.8 * c) / max }}
+          />
+          <div className="mt-1 text-[10px] text-slate-400">
+            {k % 2 === 0 ? `${String(k / 2).padStart(2, "0")}:00` : ""}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/* Undo / redo: buttons plus a dropdown of recent steps; picking one undoes back through it */
+
+function UndoHistory({
+  undoStack,
+  redoStack,
+  onUndo,
+  onRedo,
+}: {
+  undoStack: UndoStep[];
+  redoStack: UndoStep[];
+  onUndo: (count?: number) => void;
+  onRedo: () => void;
+}) {
+  const recent = undoStack.slice(-15).reverse();
+  return (
+    <div className="flex items-center gap-1">
+      <Button
+        variant="outline"
+        size="icon"
+        title={undoStack.length ? `Undo ${undoStack[undoStack.length - 1].label} (Ctrl+Z)` : "Undo"}
+        disabled={undoStack.length === 0}
+        onClick={() => onUndo()}
+      >
+        <Undo2 className="w-4 h-4" />
+      </Button>
+      <Button
+        variant="outline"
+        size="icon"
+        title={
+          redoStack.length
+            ? `Redo ${redoStack[redoStack.length - 1].label} (Ctrl+Shift+Z)`
+            : "Redo"
+        }
+        disabled={redoStack.length === 0}
+        onClick={onRedo}
+      >
+        <Redo2 className="w-4 h-4" />
+      </Button>
+      <Select value="" onValueChange={(v) => onUndo(Number(v) + 1)}>
+        <SelectTrigger className="h-9 w-36" disabled={recent.length === 0}>
+          <SelectValue>
+            {recent.length ? `History (${undoStack.length})` : "No history"}
+          </SelectValue>
+        </SelectTrigger>
+        <SelectContent>
+          {recent.map((step, i) => (
+            <SelectItem key={`${step.at}-${i}`} value={String(i)} title="Undo back to here">
+              <span className="truncate">{step.label}</span>
+              <span className="ml-auto pl-2 text-xs text-slate-400">
+                {new Date(step.at).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+              </span>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+/* Workspace switcher: pick, create, clone or delete a workspace (one blob per workspace) */
+
+function WorkspaceSwitcher({
+  workspace,
+  token,
+  role,
+  current,
+  onChange,
+  onTokenChange,
+}: {
+  workspace: string;
+  token: string;
+  /** role on the open workspace; null until the function has answered */
+  role: Role | null;
+  /** the open workspace's payload, cloned as-is */
+  current: WorkspaceDoc;
+  onChange: (id: string) => void;
+  onTokenChange: (token: string) => void;
+}) {
+  const [list, setList] = useState<string[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    listWorkspaces(token)
+      .then(setList)
+      .catch((e) => console.warn("[workspaces] list error", e));
+  }, [token]);
+
+  const options = list.includes(workspace) ? list : [...list, workspace].sort();
+
+  const askId = (label: string) => {
+    const raw = prompt(label);
+    if (!raw) return undefined;
+    const id = workspaceSlug(raw);
+    if (!id) {
+      alert("Use letters or digits in the workspace name.");
+      return undefined;
+    }
+    if (options.includes(id)) {
+      alert(`Workspace "${id}" already exists.`);
+      return undefined;
+    }
+    return id;
+  };
+
+  const run = async (label: string, fn: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await fn();
+    } catch (e) {
+      console.warn(`[workspaces] ${label} error`, e);
+      alert(
+        isAuthError(e)
+          ? `Could not ${label} the workspace: ${e.detail}`
+          : `Could not ${label} the workspace.`,
+      );
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const create = () => {
+    const id = askId("Name of the new workspace");
+    if (!id) return;
+    run("create", async () => {
+      await putWorkspace(
+        id,
+        { version: WORKSPACE_VERSION, savedAt: new Date().toISOString() },
+        token,
+      );
+      onChange(id);
+    });
+  };
+
+  const clone = () => {
+    const id = askId(`Clone "${workspace}" as`);
+    if (!id) return;
+    run("clone", async () => {
+      await putWorkspace(id, { ...current, savedAt: new Date().toISOString() }, token);
+      onChange(id);
     });
   };
 
-  /* ===================================================================================
-     RENDER
-  =================================================================================== */
+  const remove = () => {
+    if (!confirm(`Delete workspace "${workspace}" and everything in it? This cannot be undone.`))
+      return;
+    run("delete", async () => {
+      await deleteWorkspace(workspace, token);
+      localStorage.removeItem(CACHE_STORAGE_PREFIX + workspace);
+      onChange(options.find((w) => w !== workspace) ?? DEFAULT_WORKSPACE);
+    });
+  };
 
-  const containerClasses = dark
-    ? "w-full min-h-screen bg-slate-950 text-slate-50"
-    : "w-full min-h-screen bg-slate-100 text-slate-900";
+  return (
+    <div className="flex items-center gap-1" title="Workspace">
+      <Select value={workspace} onValueChange={onChange}>
+        <SelectTrigger className="h-9 w-40">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {options.map((w) => (
+            <SelectItem key={w} value={w}>
+              {w}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {role !== "viewer" && (
+        <>
+          <Button
+            variant="ghost"
+            size="icon"
+            disabled={busy}
+            title="New workspace"
+            onClick={create}
+          >
+            <Plus className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            disabled={busy}
+            title="Clone this workspace"
+            onClick={clone}
+          >
+            <Copy className="w-4 h-4" />
+          </Button>
+        </>
+      )}
+      {role === "admin" && (
+        <Button
+          variant="ghost"
+          size="icon"
+          disabled={busy}
+          title="Delete this workspace"
+          onClick={remove}
+        >
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      )}
+      <Button
+        variant="ghost"
+        size="icon"
+        title={token ? "Change or clear the access token" : "Enter an access token"}
+        onClick={() => {
+          const next = prompt("Access token (leave empty to sign out)", token);
+          if (next !== null) onTokenChange(next.trim());
+        }}
+      >
+        <KeyRound className="w-4 h-4" />
+      </Button>
+    </div>
+  );
+}
+
+/* Rotation groups: N-week cycles with an anchor date, and who follows which */
+
+function RotationManager({
+  groups,
+  setGroups,
+  agents,
+  selectedDate,
+  timeZone,
+  onAssign,
+}: {
+  groups: RotationGroup[];
+  setGroups: React.Dispatch<React.SetStateAction<RotationGroup[]>>;
+  agents: Agent[];
+  selectedDate: string;
+  /** the site's; "today" is taken there */
+  timeZone: string;
+  onAssign: (name: string, groupId: string | undefined) => void;
+}) {
+  const [name, setName] = useState("");
+  const [weeks, setWeeks] = useState(2);
+  const [anchorDate, setAnchorDate] = useState(() =>
+    dateForWeekday(isoToday(timeZone), "Saturday"),
+  );
+
+  const addGroup = () => {
+    const n = name.trim();
+    if (!n) return;
+    if (groups.some((g) => g.name === n)) {
+      alert("A rotation with this name already exists.");
+      return;
+    }
+    setGroups((prev) => [
+      ...prev,
+      {
+        id: "rot-" + Date.now().toString(36),
+        name: n,
+        anchorDate,
+        weeks: Array.from({ length: weeks }, () => ({})),
+      },
+    ]);
+    setName("");
+  };
+
+  const updateGroup = (id: string, patch: Partial<RotationGroup>) =>
+    setGroups((prev) => prev.map((g) => (g.id === id ? { ...g, ...patch } : g)));
+
+  // new weeks start as a copy of week 1
+  const resizeGroup = (g: RotationGroup, n: number) => {
+    const count = clamp(n, 1, 8);
+    const next = g.weeks.slice(0, count);
+    while (next.length < count) next.push(JSON.parse(JSON.stringify(g.weeks[0] ?? {})));
+    updateGroup(g.id, { weeks: next });
+  };
+
+  const removeGroup = (g: RotationGroup) => {
+    if (!confirm(`Delete rotation "${g.name}"? Its agents go back to the weekday template.`))
+      return;
+    for (const a of agents) if (a.rotationGroup === g.id) onAssign(a.name, undefined);
+    setGroups((prev) => prev.filter((x) => x.id !== g.id));
+  };
 
   return (
-    <ErrorBoundary>
-      <div className={containerClasses + " p-4 md:p-6"}>
-        {/* Header */}
-        <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+    <Card className="col-span-12 shadow-sm">
+      <CardContent className="p-4 space-y-4">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <Repeat className="w-4 h-4" />
+          Rotation groups
+        </div>
+        <p className="text-xs text-slate-400">
+          Agents in a rotation follow week 1, 2, … of the cycle counted from its anchor date.
+          Step through weeks above to edit each week of the cycle.
+        </p>
+
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-2 items-end">
+          <div className="col-span-2">
+            <label className="text-xs font-medium">Name</label>
+            <Input
+              placeholder="e.g. Early / late"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
           <div>
-            <h1 className="text-2xl font-bold tracking-tight">Montana CS WFM</h1>
-            <p className="text-xs text-slate-400 flex items-center gap-2 mt-1">
-              <Info className="w-3 h-3" />
-              Half-hour view. Saudi timezone. Montana ticket profile applied to all days.
-            </p>
+            <label className="text-xs font-medium">Weeks</label>
+            <Input
+              type="number"
+              value={weeks}
+              min={1}
+              max={8}
+              onChange={(e) =>
+                setWeeks(clamp(parseInt((e.target as HTMLInputElement).value || "2", 10), 1, 8))
+              }
+            />
+          </div>
+          <div>
+            <label className="text-xs font-medium">Week 1 starts</label>
+            <Input
+              type="date"
+              value={anchorDate}
+              onChange={(e) =>
+                setAnchorDate((e.target as HTMLInputElement).value || isoToday(timeZone))
+              }
+            />
+          </div>
+          <Button onClick={addGroup}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add rotation
+          </Button>
+        </div>
+
+        {groups.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="min-w-[640px] text-sm">
+              <thead>
+                <tr className="text-left text-xs text-slate-400">
+                  <th className="py-2 pr-4">Rotation</th>
+                  <th className="py-2 pr-4">Weeks</th>
+                  <th className="py-2 pr-4">Week 1 starts</th>
+                  <th className="py-2 pr-4">Week on {selectedDate}</th>
+                  <th className="py-2 pr-4">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {groups.map((g) => (
+                  <tr key={g.id} className="border-t border-slate-200 dark:border-slate-800">
+                    <td className="py-2 pr-4">
+                      <Input
+                        value={g.name}
+                        onChange={(e) => updateGroup(g.id, { name: e.target.value })}
+                      />
+                    </td>
+                    <td className="py-2 pr-4">
+                      <Input
+                        type="number"
+                        className="w-20"
+                        value={g.weeks.length}
+                        min={1}
+                        max={8}
+                        onChange={(e) =>
+                          resizeGroup(g, parseInt((e.target as HTMLInputElement).value || "1", 10))
+                        }
+                      />
+                    </td>
+                    <td className="py-2 pr-4">
+                      <Input
+                        type="date"
+                        value={g.anchorDate}
+                        onChange={(e) =>
+                          updateGroup(g.id, {
+                            anchorDate: (e.target as HTMLInputElement).value || g.anchorDate,
+                          })
+                        }
+                      />
+                    </td>
+                    <td className="py-2 pr-4 font-mono text-xs">
+                      {rotationWeekIndex(g, selectedDate) + 1} / {g.weeks.length}
+                    </td>
+                    <td className="py-2 pr-4">
+                      <Button size="sm" variant="outline" onClick={() => removeGroup(g)}>
+                        <Trash2 className="w-4 h-4 mr-2" />
+                        Delete
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {groups.length > 0 && agents.length > 0 && (
+          <div>
+            <div className="text-sm font-medium mb-2">Assign agents</div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+              {agents.map((a) => (
+                <div key={a.name} className="flex items-center gap-2 text-xs">
+                  <span className="w-32 truncate font-medium">{a.name}</span>
+                  <Select
+                    value={a.rotationGroup ?? "none"}
+                    onValueChange={(v) => onAssign(a.name, v === "none" ? undefined : v)}
+                  >
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue>
+                        {groups.find((g) => g.id === a.rotationGroup)?.name ?? "Weekday template"}
+                      </SelectValue>
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Weekday template</SelectItem>
+                      {groups.map((g) => (
+                        <SelectItem key={g.id} value={g.id}>
+                          {g.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/* Seasonal periods: date ranges (Ramadan, summer…) with their own template, demand and cap */
+
+function SeasonalPeriodsManager({
+  periods,
+  setPeriods,
+  roster,
+  hourlyPctByDay,
+  dailyAvg,
+  selectedDate,
+  onSelectDate,
+}: {
+  periods: SeasonalPeriod[];
+  setPeriods: React.Dispatch<React.SetStateAction<SeasonalPeriod[]>>;
+  /** the plain weekday template, profiles and volumes a new period starts from */
+  roster: Roster;
+  hourlyPctByDay: Record<Weekday, number[]>;
+  dailyAvg: Record<Weekday, number>;
+  selectedDate: string;
+  onSelectDate: (iso: string) => void;
+}) {
+  const [name, setName] = useState("");
+  const [start, setStart] = useState(selectedDate);
+  const [end, setEnd] = useState(addDaysISO(selectedDate, 29));
+  const [maxShiftMins, setMaxShiftMins] = useState(6 * 60);
+  const [volumesFor, setVolumesFor] = useState<string | null>(null);
+
+  /** the other period a range would overlap, if any */
+  const clash = (from: string, to: string, id?: string) =>
+    periods.find(
+      (p) => p.id !== id && compareISO(from, p.end) <= 0 && compareISO(p.start, to) <= 0,
+    );
+
+  const addPeriod = () => {
+    const n = name.trim();
+    if (!n) return;
+    if (compareISO(start, end) > 0) {
+      alert("End date must be on or after start date.");
+      return;
+    }
+    const other = clash(start, end);
+    if (other) {
+      alert(`Overlaps "${other.name}" (${other.start} → ${other.end}).`);
+      return;
+    }
+    setPeriods((prev) => [
+      ...prev,
+      {
+        id: "season-" + Date.now().toString(36),
+        name: n,
+        start,
+        end,
+        roster: JSON.parse(JSON.stringify(roster)),
+        hourlyPctByDay: JSON.parse(JSON.stringify(hourlyPctByDay)),
+        dailyAvg: { ...dailyAvg },
+        maxShiftMins,
+      },
+    ]);
+    setName("");
+  };
+
+  const updatePeriod = (id: string, patch: Partial<SeasonalPeriod>) =>
+    setPeriods((prev) => prev.map((p) => (p.id === id ? { ...p, ...patch } : p)));
+
+  const moveRange = (p: SeasonalPeriod, from: string, to: string) => {
+    if (!from || !to || compareISO(from, to) > 0) return;
+    const other = clash(from, to, p.id);
+    if (other) {
+      alert(`Overlaps "${other.name}" (${other.start} → ${other.end}).`);
+      return;
+    }
+    updatePeriod(p.id, { start: from, end: to });
+  };
+
+  const removePeriod = (p: SeasonalPeriod) => {
+    if (!confirm(`Delete "${p.name}"? Its shifts, profiles and volumes are lost.`)) return;
+    setPeriods((prev) => prev.filter((x) => x.id !== p.id));
+  };
+
+  return (
+    <Card className="col-span-12 shadow-sm">
+      <CardContent className="p-4 space-y-4">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <Moon className="w-4 h-4" />
+          Seasonal periods
+        </div>
+        <p className="text-xs text-slate-400">
+          While the selected date is inside a period, the schedule, intraday profile and daily
+          volumes are the period's own, and its max shift caps the labor rules and auto plan. A
+          new period starts as a copy of the weekday template.
+        </p>
+
+        <div className="grid grid-cols-2 md:grid-cols-6 gap-2 items-end">
+          <div className="col-span-2">
+            <label className="text-xs font-medium">Name</label>
+            <Input
+              placeholder="e.g. Ramadan 2027"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div>
+            <label className="text-xs font-medium">Start</label>
+            <Input
+              type="date"
+              value={start}
+              onChange={(e) => setStart((e.target as HTMLInputElement).value || start)}
+            />
+          </div>
+          <div>
+            <label className="text-xs font-medium">End</label>
+            <Input
+              type="date"
+              value={end}
+              onChange={(e) => setEnd((e.target as HTMLInputElement).value || end)}
+            />
+          </div>
+          <div>
+            <label className="text-xs font-medium">Max shift (h)</label>
+            <Input
+              type="number"
+              value={maxShiftMins / 60}
+              min={1}
+              max={16}
+              step={0.5}
+              onChange={(e) =>
+                setMaxShiftMins(
+                  Math.round(
+                    clamp(parseFloat((e.target as HTMLInputElement).value || "6"), 1, 16) * 60,
+                  ),
+                )
+              }
+            />
+          </div>
+          <Button onClick={addPeriod}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add period
+          </Button>
+        </div>
+
+        {periods.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="min-w-[720px] text-sm">
+              <thead>
+                <tr className="text-left text-xs text-slate-400">
+                  <th className="py-2 pr-4">Period</th>
+                  <th className="py-2 pr-4">Start</th>
+                  <th className="py-2 pr-4">End</th>
+                  <th className="py-2 pr-4">Max shift (h)</th>
+                  <th className="py-2 pr-4">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {periods.map((p) => (
+                  <React.Fragment key={p.id}>
+                    <tr
+                      className={`border-t border-slate-200 dark:border-slate-800 ${
+                        withinRange(selectedDate, p.start, p.end)
+                          ? "bg-indigo-50 dark:bg-indigo-950/40"
+                          : ""
+                      }`}
+                    >
+                      <td className="py-2 pr-4">
+                        <Input
+                          value={p.name}
+                          onChange={(e) => updatePeriod(p.id, { name: e.target.value })}
+                        />
+                      </td>
+                      <td className="py-2 pr-4">
+                        <Input
+                          type="date"
+                          value={p.start}
+                          onChange={(e) =>
+                            moveRange(p, (e.target as HTMLInputElement).value, p.end)
+                          }
+                        />
+                      </td>
+                      <td className="py-2 pr-4">
+                        <Input
+                          type="date"
+                          value={p.end}
+                          onChange={(e) =>
+                            moveRange(p, p.start, (e.target as HTMLInputElement).value)
+                          }
+                        />
+                      </td>
+                      <td className="py-2 pr-4">
+                        <Input
+                          type="number"
+                          className="w-20"
+                          value={p.maxShiftMins / 60}
+                          min={1}
+                          max={16}
+                          step={0.5}
+                          onChange={(e) =>
+                            updatePeriod(p.id, {
+                              maxShiftMins: Math.round(
+                                clamp(
+                                  parseFloat((e.target as HTMLInputElement).value || "6"),
+                                  1,
+                                  16,
+                                ) * 60,
+                              ),
+                            })
+                          }
+                        />
+                      </td>
+                      <td className="py-2 pr-4">
+                        <div className="flex gap-2">
+                          <Button size="sm" variant="outline" onClick={() => onSelectDate(p.start)}>
+                            Go to
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setVolumesFor(volumesFor === p.id ? null : p.id)}
+                          >
+                            Volumes
+                          </Button>
+                          <Button size="sm" variant="outline" onClick={() => removePeriod(p)}>
+                            <Trash2 className="w-4 h-4 mr-2" />
+                            Delete
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                    {volumesFor === p.id && (
+                      <tr>
+                        <td colSpan={5} className="pb-3">
+                          <div className="grid grid-cols-7 gap-2">
+                            {WEEKDAYS.map((d) => (
+                              <div key={d}>
+                                <label className="text-[11px] font-medium">
+                                  {d.slice(0, 3)} tickets
+                                </label>
+                                <Input
+                                  type="number"
+                                  min={0}
+                                  value={p.dailyAvg[d] ?? 0}
+                                  onChange={(e) =>
+                                    updatePeriod(p.id, {
+                                      dailyAvg: {
+                                        ...p.dailyAvg,
+                                        [d]: Math.max(
+                                          0,
+                                          parseInt((e.target as HTMLInputElement).value || "0", 10),
+                                        ),
+                                      },
+                                    })
+                                  }
+                                />
+                              </div>
+                            ))}
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/* Auto plan review: settings, before/after score and diff against the current roster */
+
+function AutoPlanReview({
+  agents,
+  roster,
+  proposal,
+  requiredByDay,
+  settings,
+  onSettingsChange,
+  onRegenerate,
+  onAccept,
+  onDiscard,
+}: {
+  agents: Agent[];
+  roster: Roster;
+  proposal: Roster;
+  requiredByDay: Record<Weekday, number[]>;
+  settings: AutoPlanSettings;
+  onSettingsChange: (s: AutoPlanSettings) => void;
+  onRegenerate: () => void;
+  onAccept: () => void;
+  onDiscard: () => void;
+}) {
+  const scores = useMemo(
+    () =>
+      WEEKDAYS.map((d) => ({
+        day: d,
+        before: staffingScore(requiredByDay[d], templateCoverage(roster, agents, d)),
+        after: staffingScore(requiredByDay[d], templateCoverage(proposal, agents, d)),
+      })),
+    [requiredByDay, roster, proposal, agents],
+  );
+  const totals = scores.reduce(
+    (acc, s) => ({
+      before: { under: acc.before.under + s.before.under, over: acc.before.over + s.before.over },
+      after: { under: acc.after.under + s.after.under, over: acc.after.over + s.after.over },
+    }),
+    { before: { under: 0, over: 0 }, after: { under: 0, over: 0 } },
+  );
+  const changes = useMemo(() => rosterDiff(agents, roster, proposal), [agents, roster, proposal]);
+
+  const hoursField = (label: string, key: keyof AutoPlanSettings, min: number, max: number) => (
+    <div>
+      <label className="text-xs font-medium">{label}</label>
+      <Input
+        type="number"
+        value={settings[key] / 60}
+        min={min}
+        max={max}
+        step={0.5}
+        onChange={(e) =>
+          onSettingsChange({
+            ...settings,
+            [key]: Math.round(
+              clamp(parseFloat((e.target as HTMLInputElement).value || "0"), min, max) * 60,
+            ),
+          })
+        }
+      />
+    </div>
+  );
+
+  return (
+    <Card className="mb-4 shadow-sm border-violet-300 dark:border-violet-700">
+      <CardContent className="p-4 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex items-center gap-2 text-sm font-medium">
+            <RefreshCw className="w-4 h-4" />
+            Auto plan proposal
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={onRegenerate}>
+              <RefreshCw className="w-4 h-4 mr-2" />
+              Regenerate
+            </Button>
+            <Button variant="outline" size="sm" onClick={onDiscard}>
+              <XIcon className="w-4 h-4 mr-2" />
+              Discard
+            </Button>
+            <Button size="sm" onClick={onAccept}>
+              Accept plan
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+          {hoursField("Min shift (h)", "minShiftMins", 1, 12)}
+          {hoursField("Max shift (h)", "maxShiftMins", 1, 16)}
+          {hoursField("Max weekly (h)", "maxWeeklyMins", 1, 84)}
+          <div>
+            <label className="text-xs font-medium">Max days / week</label>
+            <Input
+              type="number"
+              value={settings.maxDaysPerWeek}
+              min={1}
+              max={7}
+              onChange={(e) =>
+                onSettingsChange({
+                  ...settings,
+                  maxDaysPerWeek: clamp(
+                    parseInt((e.target as HTMLInputElement).value || "5", 10),
+                    1,
+                    7,
+                  ),
+                })
+              }
+            />
+          </div>
+          {hoursField("Earliest start (h)", "earliestStartMin", 0, 23)}
+          {hoursField("Latest end (h, >24 = next day)", "latestEndMin", 1, 30)}
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-[640px] text-sm">
+            <thead>
+              <tr className="text-left text-xs text-slate-400">
+                <th className="py-1 pr-4">Day</th>
+                <th className="py-1 pr-4">Under (before → after)</th>
+                <th className="py-1 pr-4">Over (before → after)</th>
+              </tr>
+            </thead>
+            <tbody className="font-mono text-xs">
+              {scores.map((s) => (
+                <tr key={s.day} className="border-t border-slate-200 dark:border-slate-800">
+                  <td className="py-1 pr-4 font-sans">{s.day}</td>
+                  <td className="py-1 pr-4">
+                    {s.before.under} → {s.after.under}
+                  </td>
+                  <td className="py-1 pr-4">
+                    {s.before.over} → {s.after.over}
+                  </td>
+                </tr>
+              ))}
+              <tr className="border-t border-slate-300 dark:border-slate-700 font-semibold">
+                <td className="py-1 pr-4 font-sans">Week</td>
+                <td className="py-1 pr-4">
+                  {totals.before.under} → {totals.after.under}
+                </td>
+                <td className="py-1 pr-4">
+                  {totals.before.over} → {totals.after.over}
+                </td>
+              </tr>
+            </tbody>
+          </table>
+          <p className="text-[11px] text-slate-400 mt-1">
+            Scores are agent half-hours below / above the required curve for the weekday
+            template.
+          </p>
+        </div>
+
+        <div>
+          <div className="text-sm font-medium mb-2">Changes ({changes.length})</div>
+          {changes.length === 0 ? (
+            <p className="text-xs text-slate-400">The proposal matches the current roster.</p>
+          ) : (
+            <div className="max-h-56 overflow-y-auto space-y-1 pr-1">
+              {changes.map((c) => (
+                <div
+                  key={c.agent + c.day}
+                  className="grid grid-cols-[160px_100px_1fr] gap-2 text-xs"
+                >
+                  <span className="font-medium truncate">{c.agent}</span>
+                  <span>{c.day}</span>
+                  <span className="font-mono">
+                    <span className="text-red-500">{c.from}</span>
+                    <span className="opacity-60"> → </span>
+                    <span className="text-emerald-600">{c.to}</span>
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+/* Labor rules: the rule set and every violation in the selected week's template */
+
+function LaborRulesPanel({
+  rules,
+  onRulesChange,
+  violations,
+  agents,
+  selectedDay,
+  onSelectDay,
+  readOnly,
+}: {
+  rules: LaborRules;
+  onRulesChange: (r: LaborRules) => void;
+  violations: LaborViolation[];
+  agents: Agent[];
+  selectedDay: Weekday;
+  onSelectDay: (d: Weekday) => void;
+  readOnly: boolean;
+}) {
+  const byAgent = useMemo(
+    () =>
+      agents
+        .map((a) => ({ agent: a.name, items: violations.filter((v) => v.agent === a.name) }))
+        .filter((g) => g.items.length > 0),
+    [agents, violations],
+  );
+
+  const field = (label: string, key: keyof LaborRules, unit: "h" | "min" | "days") => {
+    const scale = unit === "h" ? 60 : 1;
+    return (
+      <div>
+        <label className="text-xs font-medium">{label}</label>
+        <Input
+          type="number"
+          value={rules[key] / scale}
+          min={0}
+          max={unit === "days" ? 7 : unit === "h" ? 84 : 240}
+          step={unit === "h" ? 0.5 : unit === "min" ? 5 : 1}
+          onChange={(e) => {
+            const v = Math.max(0, parseFloat((e.target as HTMLInputElement).value || "0"));
+            onRulesChange({
+              ...rules,
+              [key]: unit === "days" ? clamp(Math.round(v), 0, 7) : Math.round(v * scale),
+            });
+          }}
+        />
+      </div>
+    );
+  };
+
+  return (
+    <Card className="col-span-12 shadow-sm">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex items-center gap-2 text-sm font-medium">
+            <ShieldAlert className="w-4 h-4" />
+            Labor rules
+          </div>
+          {violations.length === 0 ? (
+            <Badge className="bg-emerald-500 text-white dark:bg-emerald-500 dark:text-white">
+              No violations
+            </Badge>
+          ) : (
+            <Badge className="bg-red-500 text-white dark:bg-red-500 dark:text-white">
+              {violations.length} violation{violations.length === 1 ? "" : "s"}
+            </Badge>
+          )}
+        </div>
+
+        <Editable readOnly={readOnly}>
+          <div className="grid grid-cols-2 md:grid-cols-7 gap-3">
+            {field("Max weekly (h)", "maxWeeklyMins", "h")}
+            {field("Max days in a row", "maxConsecutiveDays", "days")}
+            {field("Min rest (h)", "minRestMins", "h")}
+            {field("Min shift (h)", "minShiftMins", "h")}
+            {field("Max shift (h)", "maxShiftMins", "h")}
+            {field("Break after (h)", "breakAfterMins", "h")}
+            {field("Break of (min)", "breakMins", "min")}
+          </div>
+        </Editable>
+        <p className="text-[11px] text-slate-400">
+          Checked against the template in effect for the selected week (rotations included); the
+          week repeats, so Friday's shift counts towards Saturday's rest. 0 switches a rule off.
+        </p>
+
+        {byAgent.length > 0 && (
+          <div className="max-h-64 overflow-y-auto pr-1">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-slate-400">
+                  <th className="py-1 pr-3 w-40">Agent</th>
+                  <th className="py-1 pr-3 w-28">Day</th>
+                  <th className="py-1 pr-3 w-40">Rule</th>
+                  <th className="py-1">Detail</th>
+                </tr>
+              </thead>
+              <tbody className="text-xs">
+                {byAgent.flatMap((g) =>
+                  g.items.map((v, i) => (
+                    <tr
+                      key={`${g.agent}-${v.rule}-${v.day ?? "week"}`}
+                      className={`border-t border-slate-200 dark:border-slate-800 ${
+                        v.day === selectedDay ? "bg-red-50 dark:bg-red-950/40" : ""
+                      }`}
+                    >
+                      <td className="py-1 pr-3 font-medium truncate">{i === 0 ? g.agent : ""}</td>
+                      <td className="py-1 pr-3">
+                        {v.day ? (
+                          <button
+                            className="underline decoration-dotted"
+                            onClick={() => onSelectDay(v.day!)}
+                            title={`Show ${v.day} in the schedule`}
+                          >
+                            {v.day}
+                          </button>
+                        ) : (
+                          <span className="text-slate-400">whole week</span>
+                        )}
+                      </td>
+                      <td className="py-1 pr-3">{LABOR_RULE_LABELS[v.rule]}</td>
+                      <td className="py-1 text-slate-600 dark:text-slate-300">{v.message}</td>
+                    </tr>
+                  )),
+                )}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/* Hours summary: paid, break and productive hours per agent for a period, grouped totals */
+
+function HoursSummary({
+  agents,
+  roster,
+  overrides,
+  vacations,
+  groups,
+  specialDays,
+  periods,
+  selectedDate,
+}: {
+  agents: Agent[];
+  roster: Roster;
+  overrides: RosterOverrides;
+  vacations: Vacations;
+  groups: RotationGroup[];
+  specialDays: SpecialDays;
+  periods: SeasonalPeriod[];
+  selectedDate: string;
+}) {
+  const [weeks, setWeeks] = useState(1);
+  const [fteWeekMins, setFteWeekMins] = useState(FTE_WEEK_MINS_DEFAULT);
+  const [grouping, setGrouping] = useState<HoursGrouping>("level");
+
+  const start = dateForWeekday(selectedDate, WEEKDAYS[0]);
+  const days = weeks * 7;
+  const end = addDaysISO(start, days - 1);
+  const rows = useMemo(
+    () =>
+      agentHours(agents, roster, overrides, vacations, groups, specialDays, periods, start, days),
+    [agents, roster, overrides, vacations, groups, specialDays, periods, start, days],
+  );
+  const grouped = useMemo(() => groupHours(rows, grouping), [rows, grouping]);
+  const total = useMemo(() => rows.reduce((acc, r) => addHours(acc, r), emptyHours()), [rows]);
+
+  const h = (m: number) => (m / 60).toFixed(1);
+  const cells = (t: HoursTotals) => (
+    <>
+      <td className="py-1 pr-3">{h(t.paidMins)}</td>
+      <td className="py-1 pr-3">{h(t.breakMins)}</td>
+      <td className="py-1 pr-3">{h(t.productiveMins)}</td>
+      <td className="py-1 pr-3">{Math.round(utilization(t) * 100)}%</td>
+      <td className="py-1 pr-3">{t.daysWorked}</td>
+      <td className="py-1 pr-3">{t.weekendDays}</td>
+      <td className="py-1 pr-3">{t.vacationDays}</td>
+      <td className="py-1">{fteOf(t, fteWeekMins, days).toFixed(2)}</td>
+    </>
+  );
+  const head = (first: string) => (
+    <tr className="text-left text-xs text-slate-400">
+      <th className="py-1 pr-3">{first}</th>
+      <th className="py-1 pr-3">Paid (h)</th>
+      <th className="py-1 pr-3">Breaks (h)</th>
+      <th className="py-1 pr-3">Productive (h)</th>
+      <th className="py-1 pr-3">Utilization</th>
+      <th className="py-1 pr-3">Days</th>
+      <th className="py-1 pr-3">Fri / Sat</th>
+      <th className="py-1 pr-3">Vacation</th>
+      <th className="py-1">FTE</th>
+    </tr>
+  );
+
+  return (
+    <div className="grid grid-cols-12 gap-4">
+      <Card className="col-span-12 shadow-sm">
+        <CardContent className="p-4 space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex items-center gap-2 text-sm font-medium">
+              <Clock className="w-4 h-4" />
+              Scheduled hours{" "}
+              <span className="font-mono text-xs text-slate-400">
+                {start} → {end}
+              </span>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={rows.length === 0}
+              onClick={() =>
+                downloadCSV(
+                  exportHoursCSV(rows, fteWeekMins, days),
+                  `Montana_CS_Hours_${start}_${end}.csv`,
+                )
+              }
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Export CSV
+            </Button>
           </div>
-          <div className="flex flex-wrap items-center gap-3">
-            <Badge variant="secondary" className="rounded-2xl px-3 py-1">
-              Saudi TZ
-            </Badge>
-            <div className="flex items-center gap-2" title="Dark mode">
-              <Sun className="w-4 h-4" />
-              <Switch checked={dark} onCheckedChange={setDark} />
-              <Moon className="w-4 h-4" />
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <div>
+              <label className="text-xs font-medium">Period</label>
+              <Select value={String(weeks)} onValueChange={(v) => setWeeks(Number(v))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="1">Selected week</SelectItem>
+                  <SelectItem value="2">2 weeks</SelectItem>
+                  <SelectItem value="4">4 weeks</SelectItem>
+                </SelectContent>
+              </Select>
             </div>
-            <div className="flex items-center gap-2">
-              <Calendar className="w-4 h-4" />
+            <div>
+              <label className="text-xs font-medium">Full-time week (h)</label>
               <Input
-                type="date"
-                className="h-9 w-[140px]"
-                value={selectedDate}
+                type="number"
+                value={fteWeekMins / 60}
+                min={1}
+                max={84}
+                step={0.5}
                 onChange={(e) =>
-                  setSelectedDate((e.target as HTMLInputElement).value || isoToday())
+                  setFteWeekMins(
+                    Math.round(
+                      clamp(parseFloat((e.target as HTMLInputElement).value || "40"), 1, 84) * 60,
+                    ),
+                  )
                 }
               />
-              <Button
-                variant="outline"
-                size="icon"
-                title="Jump to today"
-                onClick={() => setSelectedDate(isoToday())}
-              >
-                <RotateCcw className="w-4 h-4" />
-              </Button>
             </div>
-            <div className="text-xs px-2 py-1 rounded-full border border-slate-200/70 dark:border-slate-700">
-              {saveStatus === "saving" && "💾 Saving..."}
-              {saveStatus === "saved" && "✅ Saved to cloud"}
-              {saveStatus === "error" && "⚠️ Save failed"}
-              {saveStatus === "idle" && "☁️ Cloud idle"}
+          </div>
+          {rows.length === 0 ? (
+            <p className="text-xs text-slate-400">No agents yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-[760px] w-full text-sm">
+                <thead>{head("Agent")}</thead>
+                <tbody className="font-mono text-xs">
+                  {rows.map((r) => (
+                    <tr
+                      key={r.agent.name}
+                      className="border-t border-slate-200 dark:border-slate-800"
+                    >
+                      <td className="py-1 pr-3 font-sans">
+                        <span className="font-medium">{r.agent.name}</span>{" "}
+                        <span className="text-[11px] text-slate-400">
+                          {r.agent.level} · {r.agent.country}
+                        </span>
+                      </td>
+                      {cells(r)}
+                    </tr>
+                  ))}
+                  <tr className="border-t border-slate-300 dark:border-slate-700 font-semibold">
+                    <td className="py-1 pr-3 font-sans">All agents</td>
+                    {cells(total)}
+                  </tr>
+                </tbody>
+              </table>
             </div>
-            <div className="hidden md:flex items-center gap-2" title="Upload CSV">
-              <input
-                id="csvfile"
-                type="file"
-                accept=".csv"
-                className="hidden"
-                onChange={(e) => {
-                  const f = e.target.files && e.target.files[0];
-                  if (f) onImport(f);
-                }}
-              />
-              <Button variant="outline" onClick={() => document.getElementById("csvfile")?.click()}>
-                <Upload className="w-4 h-4 mr-2" />
-                Import CSV
-              </Button>
+          )}
+          <p className="text-[11px] text-slate-400">
+            Paid hours count every work segment; productive hours leave out breaks, lunches,
+            meetings and training. Date overrides, rotations and vacations are applied.
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card className="col-span-12 shadow-sm">
+        <CardContent className="p-4 space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex items-center gap-2 text-sm font-medium">
+              <Users className="w-4 h-4" />
+              Totals by {HOURS_GROUPINGS[grouping].label.toLowerCase()}
             </div>
-            <Button
-              variant="outline"
-              onClick={() => {
-                // Auto plan simply re-seeds roster based on current agents
-                setRoster((prev) => {
-                  const next: Roster = { ...prev };
-                  for (const a of agents) {
-                    const week: Record<Weekday, DayBlock> = {} as any;
-                    for (const d of WEEKDAYS) {
-                      week[d] = {
-                        active: d === "Friday" ? a.fridayAllowed : true,
-                        startMin: 9 * 60,
-                        endMin: 17 * 60,
-                        breakMins: a.breakPref === "60" ? 60 : 0,
-                        breakStartMin: a.breakPref === "60" ? 13 * 60 : undefined,
-                      };
-                    }
-                    next[a.name] = week;
-                  }
-                  return next;
-                });
-              }}
-            >
-              <RefreshCw className="w-4 h-4 mr-2" />
-              Auto plan
-            </Button>
-            <Button
-              onClick={() => {
-                const csv = exportCSV(roster, agents);
-                const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" });
-                const url = URL.createObjectURL(blob);
-                const a = document.createElement("a");
-                a.href = url;
-                a.download = "Montana_CS_Roster.csv";
-                document.body.appendChild(a);
-                setTimeout(() => {
-                  a.click();
-                  document.body.removeChild(a);
-                  URL.revokeObjectURL(url);
-                }, 0);
-              }}
-            >
-              <Download className="w-4 h-4 mr-2" />
-              Export CSV
-            </Button>
+            <Tabs value={grouping} onValueChange={(v) => setGrouping(v as HoursGrouping)}>
+              <TabsList className="grid grid-cols-3">
+                {(Object.keys(HOURS_GROUPINGS) as HoursGrouping[]).map((g) => (
+                  <TabsTrigger key={g} value={g}>
+                    {HOURS_GROUPINGS[g].label}
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+            </Tabs>
           </div>
-        </div>
-
-        {/* Quick day picker */}
-        <div className="flex flex-wrap gap-2 mb-2" aria-label="Quick day picker">
-          {WEEKDAYS.map((d) => (
-            <Button
-              key={d}
-              size="sm"
-              variant={d === selectedDay ? "default" : "outline"}
-              onClick={() => setSelectedDay(d)}
-            >
-              {d.slice(0, 3)}
-            </Button>
-          ))}
-        </div>
-        <p className="text-xs text-slate-400 mb-4">
-          Showing schedule for <span className="font-mono">{selectedDate}</span> ·{" "}
-          <span className="font-semibold">{selectedDay}</span>
-        </p>
-
-        <Tabs defaultValue="schedule" className="space-y-4">
-          <TabsList className="grid grid-cols-3 w-full md:w-auto">
-            <TabsTrigger value="schedule">Schedule</TabsTrigger>
-            <TabsTrigger value="forecast">Forecast</TabsTrigger>
-            <TabsTrigger value="vacations">Add Vacations</TabsTrigger>
-          </TabsList>
-
-          {/* Schedule tab */}
-          <TabsContent value="schedule">
-            <div className="grid grid-cols-12 gap-4">
-              {/* Left column: notes + filters + manage agents */}
-              <Card className="col-span-12 md:col-span-4 shadow-sm">
-                <CardContent className="p-4 space-y-4">
-                  <div className="text-xs space-y-1">
-                    <div className="flex items-center gap-2 text-amber-400">
-                      <AlertTriangle className="w-3 h-3" />
-                      Notes
-                    </div>
-                    <ul className="list-disc pl-4 text-slate-400">
-                      <li>
-                        Agents on vacation for <span className="font-mono">{selectedDate}</span> are
-                        hidden.
-                      </li>
-                      <li>Use Export CSV to share with ops.</li>
-                    </ul>
-                  </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-[760px] w-full text-sm">
+              <thead>{head(HOURS_GROUPINGS[grouping].label)}</thead>
+              <tbody className="font-mono text-xs">
+                {[...grouped].map(([name, g]) => (
+                  <tr key={name} className="border-t border-slate-200 dark:border-slate-800">
+                    <td className="py-1 pr-3 font-sans">
+                      {name} <span className="text-[11px] text-slate-400">({g.agents})</span>
+                    </td>
+                    {cells(g)}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
 
-                  <div className="space-y-2">
-                    <div className="flex items-center gap-2 text-sm font-medium">
-                      <Users className="w-4 h-4" />
-                      Filter by level
-                    </div>
-                    <Tabs value={levelFilter} onValueChange={(v) => setLevelFilter(v as any)}>
-                      <TabsList className="grid grid-cols-4">
-                        <TabsTrigger value="all">All</TabsTrigger>
-                        <TabsTrigger value="senior">Senior</TabsTrigger>
-                        <TabsTrigger value="mid">Mid</TabsTrigger>
-                        <TabsTrigger value="junior">Junior</TabsTrigger>
-                      </TabsList>
-                    </Tabs>
-                  </div>
+/* Channel settings: share of volume, AHT, concurrency and targets, with the day's coverage */
 
-                  {/* Manage agents */}
-                  <div className="space-y-2">
-                    <div className="flex items-center gap-2 text-sm font-medium">
-                      <UserPlus className="w-4 h-4" />
-                      Manage agents
-                    </div>
-                    {agents.length === 0 ? (
-                      <p className="text-xs text-slate-400">No agents yet. Add one below.</p>
-                    ) : (
-                      <div className="space-y-1 max-h-40 overflow-y-auto pr-1">
-                        {agents.map((a) => (
-                          <div
-                            key={a.name}
-                            className="flex items-center justify-between rounded-xl border border-slate-200/80 px-2 py-1 text-xs dark:border-slate-700"
-                          >
-                            <div className="flex flex-col">
-                              <span className="font-medium">{a.name}</span>
-                              <span className="text-[11px] text-slate-500 dark:text-slate-400">
-                                {a.level} · {a.remote ? "remote" : "on-site"} · {a.country}
-                              </span>
-                            </div>
-                            <Button
-                              size="icon"
-                              variant="ghost"
-                              onClick={() => removeAgent(a.name)}
-                              title="Remove agent"
-                            >
-                              <Trash2 className="w-4 h-4" />
-                            </Button>
-                          </div>
-                        ))}
-                      </div>
-                    )}
+function ChannelSettings({
+  channels,
+  setChannels,
+  volume,
+  required,
+  coverage,
+}: {
+  channels: Record<Channel, ChannelConfig>;
+  setChannels: React.Dispatch<React.SetStateAction<Record<Channel, ChannelConfig>>>;
+  volume: Record<Channel, number[]>;
+  required: Record<Channel, number[]>;
+  coverage: Record<Channel, number[]>;
+}) {
+  const shares = channelShares(channels);
+  const update = (ch: Channel, patch: Partial<ChannelConfig>) =>
+    setChannels((prev) => ({ ...prev, [ch]: { ...prev[ch], ...patch } }));
+  const num = (e: React.ChangeEvent<HTMLInputElement>, fallback: number) => {
+    const v = parseFloat(e.target.value);
+    return Number.isFinite(v) ? v : fallback;
+  };
 
-                    {/* Add new agent */}
-                    <div className="mt-2 space-y-1">
+  return (
+    <Card className="col-span-12 shadow-sm">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <Users className="w-4 h-4" />
+          Channels
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-[900px] w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-slate-400">
+                <th className="py-1 pr-3">Channel</th>
+                <th className="py-1 pr-3">On</th>
+                <th className="py-1 pr-3">Share (%)</th>
+                <th className="py-1 pr-3">AHT (min)</th>
+                <th className="py-1 pr-3">Concurrency</th>
+                <th className="py-1 pr-3">Target</th>
+                <th className="py-1 pr-3">Volume</th>
+                <th className="py-1 pr-3">Peak required</th>
+                <th className="py-1 pr-3">Short half-hours</th>
+              </tr>
+            </thead>
+            <tbody>
+              {CHANNELS.map((ch) => {
+                const cfg = channels[ch];
+                const short = required[ch].filter((r, k) => coverage[ch][k] < r).length;
+                return (
+                  <tr key={ch} className="border-t border-slate-200 dark:border-slate-800">
+                    <td className="py-1 pr-3">
+                      <span className="flex items-center gap-2 font-medium">
+                        <span
+                          className="inline-block w-2.5 h-2.5 rounded-sm"
+                          style={{ background: CHANNEL_COLORS[ch] }}
+                        />
+                        {CHANNEL_LABELS[ch]}
+                      </span>
+                    </td>
+                    <td className="py-1 pr-3">
+                      <Switch
+                        checked={cfg.enabled}
+                        onCheckedChange={(v) => update(ch, { enabled: v })}
+                      />
+                    </td>
+                    <td className="py-1 pr-3">
+                      <Input
+                        type="number"
+                        className="w-20"
+                        value={cfg.sharePct}
+                        min={0}
+                        max={100}
+                        onChange={(e) =>
+                          update(ch, { sharePct: clamp(num(e, cfg.sharePct), 0, 100) })
+                        }
+                        title={`${(shares[ch] * 100).toFixed(0)}% of the daily volume`}
+                      />
+                    </td>
+                    <td className="py-1 pr-3">
                       <Input
-                        placeholder="Agent name"
-                        value={newName}
-                        onChange={(e) => setNewName(e.target.value)}
+                        type="number"
+                        className="w-20"
+                        value={cfg.ahtMin}
+                        min={0.5}
+                        max={120}
+                        step={0.5}
+                        onChange={(e) =>
+                          update(ch, { ahtMin: clamp(num(e, cfg.ahtMin), 0.5, 120) })
+                        }
                       />
-                      <div className="grid grid-cols-2 gap-2">
+                    </td>
+                    <td className="py-1 pr-3">
+                      {ch === "chat" ? (
                         <Input
-                          placeholder="Country"
-                          value={newCountry}
-                          onChange={(e) => setNewCountry(e.target.value)}
+                          type="number"
+                          className="w-20"
+                          value={cfg.concurrency}
+                          min={1}
+                          max={6}
+                          onChange={(e) =>
+                            update(ch, {
+                              concurrency: clamp(Math.round(num(e, cfg.concurrency)), 1, 6),
+                            })
+                          }
                         />
-                        <Select
-                          value={newLevel}
-                          onValueChange={(v) => setNewLevel(v as Level)}
-                        >
-                          <SelectTrigger>
-                            <SelectValue placeholder="Level" />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="junior">junior</SelectItem>
-                            <SelectItem value="mid">mid</SelectItem>
-                            <SelectItem value="senior">senior</SelectItem>
-                          </SelectContent>
-                        </Select>
-                      </div>
-                      <div className="flex items-center justify-between text-xs mt-1">
-                        <div className="flex items-center gap-2">
-                          <span>Remote</span>
-                          <Switch checked={newRemote} onCheckedChange={setNewRemote} />
-                        </div>
-                        <div className="flex items-center gap-2">
-                          <span>Friday</span>
-                          <Switch
-                            checked={newFridayAllowed}
-                            onCheckedChange={setNewFridayAllowed}
+                      ) : (
+                        <span className="text-xs text-slate-400">1</span>
+                      )}
+                    </td>
+                    <td className="py-1 pr-3">
+                      {isLiveChannel(ch) ? (
+                        <span className="flex items-center gap-1 text-xs">
+                          <Input
+                            type="number"
+                            className="w-16"
+                            value={Math.round(cfg.slPct * 100)}
+                            min={1}
+                            max={99}
+                            onChange={(e) =>
+                              update(ch, {
+                                slPct: clamp(Math.round(num(e, cfg.slPct * 100)), 1, 99) / 100,
+                              })
+                            }
                           />
-                        </div>
-                      </div>
-                      <div className="flex items-center gap-2 text-xs mt-1">
-                        <span>Break</span>
-                        <Select
-                          value={newBreakPref}
-                          onValueChange={(v) => setNewBreakPref(v as "none" | "60")}
-                        >
-                          <SelectTrigger className="h-8 text-xs">
-                            <SelectValue placeholder="Break" />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="none">No break</SelectItem>
-                            <SelectItem value="60">60 min</SelectItem>
-                          </SelectContent>
-                        </Select>
-                      </div>
-                      <Button className="mt-2 w-full" size="sm" onClick={addAgent}>
-                        <Plus className="w-4 h-4 mr-2" />
-                        Add agent
-                      </Button>
-                    </div>
-                  </div>
-                </CardContent>
-              </Card>
+                          % in
+                          <Input
+                            type="number"
+                            className="w-20"
+                            value={cfg.slSec}
+                            min={1}
+                            max={3600}
+                            onChange={(e) =>
+                              update(ch, { slSec: clamp(Math.round(num(e, cfg.slSec)), 1, 3600) })
+                            }
+                          />
+                          s
+                        </span>
+                      ) : (
+                        <span className="flex items-center gap-1 text-xs">
+                          answered within
+                          <Input
+                            type="number"
+                            className="w-16"
+                            value={cfg.slaHours}
+                            min={0.5}
+                            max={48}
+                            step={0.5}
+                            onChange={(e) =>
+                              update(ch, { slaHours: clamp(num(e, cfg.slaHours), 0.5, 48) })
+                            }
+                          />
+                          h
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-1 pr-3 font-mono text-xs">
+                      {Math.round(volume[ch].reduce((a, b) => a + b, 0))}
+                    </td>
+                    <td className="py-1 pr-3 font-mono text-xs">{Math.max(0, ...required[ch])}</td>
+                    <td
+                      className={`py-1 pr-3 font-mono text-xs ${
+                        short > 0 ? "text-red-600 dark:text-red-400" : ""
+                      }`}
+                    >
+                      {cfg.enabled ? short : "–"}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+        <p className="text-[11px] text-slate-400">
+          Chat and phone are sized with the staffing model (chat AHT divided by concurrency);
+          email is sized on workload spread over its SLA window. Rostered agents are shared
+          across channels in proportion to what each channel needs.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
 
-              {/* Right column: chart */}
-              <Card className="col-span-12 md:col-span-8 shadow-sm">
-                <CardContent className="p-4">
-                  <div className="flex items-center gap-2 text-sm text-slate-400 mb-2">
-                    <Clock className="w-4 h-4" />
-                    Coverage vs. required (half-hour · {selectedDay})
-                  </div>
-                  <div className="w-full h-64">
-                    <ResponsiveContainer>
-                      <ComposedChart data={chartData}>
-                        <CartesianGrid strokeDasharray="3 3" />
-                        <XAxis dataKey="label" tick={{ fontSize: 10 }} interval={3} />
-                        <YAxis allowDecimals={false} tick={{ fontSize: 12 }} />
-                        <Tooltip />
-                        <Legend
-                          verticalAlign="top"
-                          align="center"
-                          height={28}
-                          wrapperStyle={{ paddingTop: 4 }}
-                        />
-                        <Bar dataKey="coverage" name="Agents covering" fill="#22c55e" />
-                        <Bar dataKey="required" name="Required agents" fill="#ef4444" />
-                        <Line
-                          type="monotone"
-                          dataKey="load"
-                          name="Ticket load (scaled)"
-                          dot={false}
-                          stroke="#7c3aed"
-                          strokeWidth={2}
-                        />
-                      </ComposedChart>
-                    </ResponsiveContainer>
-                  </div>
-                </CardContent>
-              </Card>
+/* Intraday profile editor: drag bars to set an hour's share; the rest rescales to 100% */
 
-              {/* Agent rows */}
-              <Card className="col-span-12 shadow-sm">
-                <CardContent className="p-4">
-                  <div className="mb-1 font-medium">
-                    {selectedDay} — Agent hours & breaks (half-hour timeline)
-                  </div>
-                  <p className="text-xs text-slate-400 mb-3">
-                    Agents on vacation on <span className="font-mono">{selectedDate}</span> are
-                    hidden below.
-                  </p>
-                  <div className="overflow-x-auto">
-                    <div
-                      className="min-w-[1280px] grid gap-2 auto-rows-auto"
-                      style={{
-                        gridTemplateColumns:
-                          "160px 80px 160px 160px 160px 150px minmax(0,1fr)",
-                      }}
-                    >
-                      <div className="text-xs font-semibold">Agent</div>
-                      <div className="text-xs font-semibold text-center">Active</div>
-                      <div className="text-xs font-semibold">Start</div>
-                      <div className="text-xs font-semibold">End</div>
-                      <div className="text-xs font-semibold">Break start</div>
-                      <div className="text-xs font-semibold">Break (min)</div>
-                      <div className="text-xs font-semibold">Half-hour timeline</div>
-
-                      {agents
-                        .filter((a) => levelFilter === "all" || a.level === levelFilter)
-                        .filter((a) => !isAgentOnVacation(a.name, selectedDate, vacations))
-                        .map((a) => {
-                          const blk = roster[a.name]?.[selectedDay] ?? DEFAULT_DAY;
-                          return (
-                            <React.Fragment key={a.name + selectedDay}>
-                              <div className="py-2 pr-3 text-sm sticky left-0 bg-slate-50 dark:bg-slate-950 z-20 w-[160px] shrink-0">
-                                <div className="font-medium truncate">{a.name}</div>
-                                <div className="text-[11px] opacity-70 whitespace-nowrap truncate">
-                                  {a.level} · {a.remote ? "remote" : "on-site"} · {a.country}
-                                </div>
-                              </div>
-                              <div className="flex items-center justify-center w-[80px] shrink-0">
-                                <Switch
-                                  checked={blk.active}
-                                  onCheckedChange={(checked) =>
-                                    setRoster((p) => ({
-                                      ...p,
-                                      [a.name]: {
-                                        ...(p[a.name] || {}),
-                                        [selectedDay]: { ...blk, active: checked },
-                                      },
-                                    }))
-                                  }
-                                  title="Enable/disable this agent"
-                                />
-                              </div>
-                              <TimeInput
-                                value={blk.startMin}
-                                onChange={(v) =>
-                                  setRoster((p) => ({
-                                    ...p,
-                                    [a.name]: {
-                                      ...(p[a.name] || {}),
-                                      [selectedDay]: { ...blk, startMin: v },
-                                    },
-                                  }))
-                                }
-                                disabled={!blk.active}
-                              />
-                              <TimeInput
-                                value={blk.endMin}
-                                onChange={(v) =>
-                                  setRoster((p) => ({
-                                    ...p,
-                                    [a.name]: {
-                                      ...(p[a.name] || {}),
-                                      [selectedDay]: { ...blk, endMin: v },
-                                    },
-                                  }))
-                                }
-                                disabled={!blk.active}
-                              />
-                              <TimeInput
-                                value={blk.breakStartMin ?? 13 * 60}
-                                onChange={(v) =>
-                                  setRoster((p) => ({
-                                    ...p,
-                                    [a.name]: {
-                                      ...(p[a.name] || {}),
-                                      [selectedDay]: { ...blk, breakStartMin: v },
-                                    },
-                                  }))
-                                }
-                                disabled={!blk.active}
-                              />
-                              <div className="flex items-center gap-2 w-[150px] shrink-0">
-                                <Button
-                                  type="button"
-                                  variant="outline"
-                                  size="icon"
-                                  onClick={() =>
-                                    setRoster((p) => ({
-                                      ...p,
-                                      [a.name]: {
-                                        ...(p[a.name] || {}),
-                                        [selectedDay]: {
-                                          ...blk,
-                                          breakMins: Math.max(
-                                            0,
-                                            (blk.breakMins || 0) - 15,
-                                          ),
-                                        },
-                                      },
-                                    }))
-                                  }
-                                  disabled={!blk.active}
-                                >
-                                  <Minus className="w-3 h-3" />
-                                </Button>
-                                <Input
-                                  type="number"
-                                  className="h-9 w-16 text-center font-mono [font-variant-numeric:tabular-nums]"
-                                  value={blk.breakMins || 0}
-                                  min={0}
-                                  max={180}
-                                  step={15}
-                                  onChange={(e) =>
-                                    setRoster((p) => ({
-                                      ...p,
-                                      [a.name]: {
-                                        ...(p[a.name] || {}),
-                                        [selectedDay]: {
-                                          ...blk,
-                                          breakMins: parseInt(
-                                            (e.target as HTMLInputElement).value || "0",
-                                            10,
-                                          ),
-                                        },
-                                      },
-                                    }))
-                                  }
-                                  disabled={!blk.active}
-                                />
-                                <Button
-                                  type="button"
-                                  variant="outline"
-                                  size="icon"
-                                  onClick={() =>
-                                    setRoster((p) => ({
-                                      ...p,
-                                      [a.name]: {
-                                        ...(p[a.name] || {}),
-                                        [selectedDay]: {
-                                          ...blk,
-                                          breakMins: Math.min(
-                                            180,
-                                            (blk.breakMins || 0) + 15,
-                                          ),
-                                        },
-                                      },
-                                    }))
-                                  }
-                                  disabled={!blk.active}
-                                >
-                                  <Plus className="w-3 h-3" />
-                                </Button>
-                              </div>
-                              <TimelineRowHalfHour block={blk} />
-                            </React.Fragment>
-                          );
-                        })}
-                    </div>
-                  </div>
-                </CardContent>
-              </Card>
+function LoadProfileEditor({
+  day,
+  period,
+  special,
+  target,
+  onTargetChange,
+  profile,
+  onChange,
+  onCopy,
+  onReset,
+  readOnly = false,
+}: {
+  day: Weekday;
+  /** name of the seasonal period whose weekday profiles are being edited */
+  period?: string;
+  /** label of the selected date's own (special day) profile, when it has one */
+  special?: string;
+  /** the weekday profile, the special day's, or a channel's own shape */
+  target: ProfileTarget;
+  onTargetChange: (t: ProfileTarget) => void;
+  profile: number[];
+  onChange: (next: number[]) => void;
+  onCopy: (days: Weekday[]) => void;
+  onReset: () => void;
+  readOnly?: boolean;
+}) {
+  const shares = useMemo(() => normalizeProfile(profile), [profile]);
+  const [active, setActive] = useState<number | null>(null);
+  const [copyTo, setCopyTo] = useState<Weekday[]>([]);
+  const boxRef = useRef<HTMLDivElement>(null);
+  // the y scale is frozen while dragging so the bar under the pointer does not run away
+  const dragScale = useRef<number | null>(null);
+  const yMax = dragScale.current ?? Math.max(10, Math.ceil(Math.max(...shares) / 5) * 5 + 5);
+
+  const applyPointer = (e: React.PointerEvent) => {
+    const box = boxRef.current;
+    if (!box) return;
+    const r = box.getBoundingClientRect();
+    const hour = clamp(Math.floor(((e.clientX - r.left) / r.width) * 24), 0, 23);
+    const pct = ((r.bottom - e.clientY) / r.height) * yMax;
+    setActive(hour);
+    onChange(setProfileShare(shares, hour, Math.round(pct * 10) / 10));
+  };
 
-              {/* Heatbar */}
-              <Card className="col-span-12 shadow-sm">
-                <CardContent className="p-4">
-                  <div className="mb-1 text-sm font-medium">
-                    Half-hour coverage ({selectedDay})
-                  </div>
-                  <CoverageHeatbarHalfHour coverage={coverage48} />
-                </CardContent>
-              </Card>
+  return (
+    <Card className="col-span-12 shadow-sm">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex items-center gap-2 text-sm font-medium">
+            <SlidersHorizontal className="w-4 h-4" />
+            Intraday profile
+            <Select value={target} onValueChange={(v) => onTargetChange(v as ProfileTarget)}>
+              <SelectTrigger className="h-8 w-44 text-xs">
+                <SelectValue>
+                  {target === "weekday"
+                    ? `${period ? `${period} · ` : ""}${day} (all channels)`
+                    : target === "special"
+                    ? special
+                    : CHANNEL_LABELS[target]}
+                </SelectValue>
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="weekday">
+                  {period ? `${period} · ` : ""}
+                  {day} (all channels)
+                </SelectItem>
+                {special && <SelectItem value="special">{special}</SelectItem>}
+                {CHANNELS.map((ch) => (
+                  <SelectItem key={ch} value={ch}>
+                    {CHANNEL_LABELS[ch]} (every day)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="text-xs text-slate-400">
+            {active !== null ? (
+              <>
+                <span className="font-mono">{String(active).padStart(2, "0")}:00</span> ·{" "}
+                <span className="font-mono">{shares[active].toFixed(1)}%</span>
+              </>
+            ) : (
+              "Drag the bars to reshape the day; shares always add up to 100%."
+            )}
+          </div>
+        </div>
+
+        <div
+          ref={boxRef}
+          className={`relative h-40 flex items-end gap-[2px] select-none touch-none border-b border-slate-200 dark:border-slate-800 ${
+            readOnly ? "" : "cursor-ns-resize"
+          }`}
+          onPointerDown={(e) => {
+            if (readOnly) return;
+            e.currentTarget.setPointerCapture(e.pointerId);
+            dragScale.current = yMax;
+            applyPointer(e);
+          }}
+          onPointerMove={(e) => {
+            if (dragScale.current !== null) applyPointer(e);
+          }}
+          onPointerUp={() => {
+            dragScale.current = null;
+            setActive(null);
+          }}
+          onPointerCancel={() => {
+            dragScale.current = null;
+            setActive(null);
+          }}
+        >
+          {shares.map((v, h) => (
+            <div
+              key={h}
+              className={`flex-1 rounded-t ${
+                active === h ? "bg-violet-500" : "bg-violet-300 dark:bg-violet-700"
+              }`}
+              style={{ height: `${Math.min(100, (v / yMax) * 100)}%` }}
+              title={`${String(h).padStart(2, "0")}:00 · ${v.toFixed(1)}%`}
+            />
+          ))}
+        </div>
+        <div className="flex text-[10px] text-slate-400">
+          {shares.map((_, h) => (
+            <div key={h} className="flex-1 text-center">
+              {h % 3 === 0 ? String(h).padStart(2, "0") : ""}
             </div>
-          </TabsContent>
+          ))}
+        </div>
 
-          {/* Forecast tab */}
-          <TabsContent value="forecast">
-            <div className="grid grid-cols-12 gap-4">
-              <Card className="col-span-12 md:col-span-4 shadow-sm">
-                <CardContent className="p-4 space-y-3">
-                  <div className="flex items-center gap-2 text-sm font-medium">
-                    <SlidersHorizontal className="w-4 h-4" />
-                    Forecast settings
-                  </div>
-                  <label className="text-xs font-medium">AHT (min)</label>
-                  <Input
-                    type="number"
-                    value={ahtMin}
-                    min={1}
-                    max={60}
+        <fieldset disabled={readOnly} className="flex flex-wrap items-center gap-2 text-xs">
+          {target === "weekday" && (
+            <>
+              <span className="font-medium">Copy to</span>
+              {WEEKDAYS.filter((d) => d !== day).map((d) => (
+                <label key={d} className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={copyTo.includes(d)}
                     onChange={(e) =>
-                      setAhtMin(parseFloat((e.target as HTMLInputElement).value || "6"))
+                      setCopyTo((prev) =>
+                        e.target.checked ? [...prev, d] : prev.filter((x) => x !== d),
+                      )
                     }
                   />
-                  <label className="text-xs font-medium">Occupancy target</label>
-                  <Slider
-                    value={[Math.round(occupancy * 100)]}
-                    min={50}
-                    max={95}
-                    step={1}
-                    onValueChange={([v]) => setOccupancy(v / 100)}
+                  {d.slice(0, 3)}
+                </label>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={copyTo.length === 0}
+                onClick={() => {
+                  onCopy(copyTo);
+                  setCopyTo([]);
+                }}
+              >
+                Copy
+              </Button>
+            </>
+          )}
+          <Button variant="outline" size="sm" onClick={onReset}>
+            <RotateCcw className="w-4 h-4 mr-2" />
+            {target === "weekday"
+              ? "Reset to default"
+              : target === "special"
+              ? "Drop own profile"
+              : "Use weekday profile"}
+          </Button>
+        </fieldset>
+      </CardContent>
+    </Card>
+  );
+}
+
+/* Special days: holidays and sale days with a volume multiplier, own profile or holiday flag */
+
+function SpecialDaysManager({
+  specialDays,
+  setSpecialDays,
+  selectedDate,
+  onSelectDate,
+  weekdayProfile,
+}: {
+  specialDays: SpecialDays;
+  setSpecialDays: React.Dispatch<React.SetStateAction<SpecialDays>>;
+  selectedDate: string;
+  onSelectDate: (iso: string) => void;
+  /** intraday profile for `date`'s weekday, the starting point of an own profile */
+  weekdayProfile: (iso: string) => number[];
+}) {
+  const [date, setDate] = useState(selectedDate);
+  const [name, setName] = useState("");
+  const [multiplier, setMultiplier] = useState(1);
+  const [holiday, setHoliday] = useState(false);
+  const [ownProfile, setOwnProfile] = useState(false);
+
+  const existing = specialDays[date];
+  const dates = Object.keys(specialDays).sort(compareISO);
+  const year = Number(selectedDate.slice(0, 4));
+
+  const save = () => {
+    if (!date) return;
+    setSpecialDays((prev) => {
+      const day: SpecialDay = { name: name.trim(), multiplier };
+      if (ownProfile) day.hourlyPct = prev[date]?.hourlyPct ?? [...weekdayProfile(date)];
+      if (holiday) day.holiday = true;
+      return { ...prev, [date]: day };
+    });
+  };
+
+  const edit = (iso: string) => {
+    const day = specialDays[iso];
+    setDate(iso);
+    setName(day.name);
+    setMultiplier(day.multiplier);
+    setHoliday(!!day.holiday);
+    setOwnProfile(!!day.hourlyPct);
+  };
+
+  const remove = (iso: string) =>
+    setSpecialDays((prev) => {
+      const out = { ...prev };
+      delete out[iso];
+      return out;
+    });
+
+  const addSaudiHolidays = () => {
+    const found = saudiSpecialDays(year);
+    const added = Object.keys(found).filter((iso) => !specialDays[iso]);
+    if (added.length === 0) {
+      alert(`Every Saudi holiday of ${year} is already on the calendar.`);
+      return;
+    }
+    setSpecialDays((prev) => ({ ...found, ...prev }));
+  };
+
+  return (
+    <Card className="col-span-12 shadow-sm">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex items-center gap-2 text-sm font-medium">
+            <Calendar className="w-4 h-4" />
+            Special days
+          </div>
+          <Button variant="outline" size="sm" onClick={addSaudiHolidays}>
+            <Plus className="w-4 h-4 mr-2" />
+            Saudi holidays {year}
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-6 gap-3 items-end">
+          <div>
+            <label className="text-xs font-medium">Date</label>
+            <Input
+              type="date"
+              value={date}
+              onChange={(e) => setDate((e.target as HTMLInputElement).value || selectedDate)}
+            />
+          </div>
+          <div className="md:col-span-2">
+            <label className="text-xs font-medium">Name</label>
+            <Input
+              placeholder="e.g. Eid al-Fitr, White Friday"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div>
+            <label className="text-xs font-medium">Volume ×</label>
+            <Input
+              type="number"
+              value={multiplier}
+              min={0}
+              max={10}
+              step={0.1}
+              onChange={(e) =>
+                setMultiplier(
+                  clamp(parseFloat((e.target as HTMLInputElement).value || "1"), 0, 10),
+                )
+              }
+            />
+          </div>
+          <div className="flex flex-col gap-2 text-xs">
+            <label className="flex items-center gap-2" title="Agents are off unless overridden">
+              <Switch checked={holiday} onCheckedChange={setHoliday} />
+              Company holiday
+            </label>
+            <label
+              className="flex items-center gap-2"
+              title="Shape it in the Intraday profile card once the date is selected"
+            >
+              <Switch checked={ownProfile} onCheckedChange={setOwnProfile} />
+              Own profile
+            </label>
+          </div>
+          <Button onClick={save}>
+            <Plus className="w-4 h-4 mr-2" />
+            {existing ? "Update day" : "Add day"}
+          </Button>
+        </div>
+
+        {dates.length === 0 ? (
+          <p className="text-xs text-slate-400">
+            No special days yet. Add public holidays, Eid or sale days so their volume and
+            staffing differ from a normal weekday.
+          </p>
+        ) : (
+          <div className="max-h-64 overflow-y-auto pr-1">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-slate-400">
+                  <th className="py-1 pr-3">Date</th>
+                  <th className="py-1 pr-3">Name</th>
+                  <th className="py-1 pr-3">Volume</th>
+                  <th className="py-1 pr-3">Profile</th>
+                  <th className="py-1 pr-3">Staffing</th>
+                  <th className="py-1 w-20" />
+                </tr>
+              </thead>
+              <tbody className="text-xs">
+                {dates.map((iso) => {
+                  const day = specialDays[iso];
+                  return (
+                    <tr
+                      key={iso}
+                      className={`border-t border-slate-200 dark:border-slate-800 ${
+                        iso === selectedDate ? "bg-amber-50 dark:bg-amber-950/40" : ""
+                      }`}
+                    >
+                      <td className="py-1 pr-3">
+                        <button
+                          className="font-mono underline decoration-dotted"
+                          onClick={() => onSelectDate(iso)}
+                          title="Show this date"
+                        >
+                          {iso}
+                        </button>{" "}
+                        <span className="text-slate-400">
+                          {weekdayNameFromISO(iso).slice(0, 3)}
+                        </span>
+                      </td>
+                      <td className="py-1 pr-3">{day.name || "—"}</td>
+                      <td className="py-1 pr-3 font-mono">×{day.multiplier}</td>
+                      <td className="py-1 pr-3">{day.hourlyPct ? "own" : "weekday"}</td>
+                      <td className="py-1 pr-3">
+                        {day.holiday ? (
+                          <Badge
+                            className="bg-amber-500 text-white dark:bg-amber-500 dark:text-white"
+                          >
+                            Holiday
+                          </Badge>
+                        ) : (
+                          "rostered"
+                        )}
+                      </td>
+                      <td className="py-1 text-right whitespace-nowrap">
+                        <button
+                          className="rounded-full hover:bg-slate-100 dark:hover:bg-slate-800 p-1"
+                          onClick={() => edit(iso)}
+                          title="Edit"
+                        >
+                          <SlidersHorizontal className="w-3 h-3" />
+                        </button>
+                        <button
+                          className="rounded-full hover:bg-slate-100 dark:hover:bg-slate-800 p-1"
+                          onClick={() => remove(iso)}
+                          title="Remove"
+                        >
+                          <XIcon className="w-3 h-3" />
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+        <p className="text-[11px] text-slate-400">
+          Volume × scales the day's forecast or weekday average; an own profile replaces the
+          weekday and channel intraday shapes; on a company holiday only agents with a date
+          override work. The Saudi list dates the Eids by the Umm al-Qura calendar: check them
+          against the official announcement, which can move them by a day.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
+
+/* Volume forecast: recent history plus the Holt-Winters forecast with its 80% band */
+
+function VolumeForecastPanel({
+  history,
+  forecast,
+  selectedDate,
+  weeks,
+  onWeeksChange,
+  onClearHistory,
+}: {
+  history: Record<string, number>;
+  forecast: { fit: HoltWintersFit; forecasts: VolumeForecast[] } | undefined;
+  selectedDate: string;
+  weeks: number;
+  onWeeksChange: (w: number) => void;
+  onClearHistory: () => void;
+}) {
+  const historyDays = Object.keys(history).length;
+
+  // last 4 weeks of actuals followed by the forecast
+  const data = useMemo(() => {
+    const actual = Object.keys(history)
+      .sort(compareISO)
+      .slice(-28)
+      .map((date) => ({ date, actual: history[date] }));
+    const ahead = (forecast?.forecasts ?? []).map((f) => ({
+      date: f.date,
+      forecast: f.mean,
+      band: [f.lo, f.hi],
+    }));
+    return [...actual, ...ahead];
+  }, [history, forecast]);
+
+  return (
+    <Card className="col-span-12 shadow-sm">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex items-center gap-2 text-sm font-medium">
+            <Calendar className="w-4 h-4" />
+            Daily volume forecast
+          </div>
+          <div className="flex items-center gap-2">
+            <label className="text-xs font-medium">Horizon (weeks)</label>
+            <Input
+              type="number"
+              className="w-20"
+              value={weeks}
+              min={4}
+              max={8}
+              onChange={(e) =>
+                onWeeksChange(
+                  clamp(parseInt((e.target as HTMLInputElement).value || "6", 10), 4, 8),
+                )
+              }
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={historyDays === 0}
+              onClick={onClearHistory}
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              Clear history
+            </Button>
+          </div>
+        </div>
+
+        {!forecast ? (
+          <p className="text-xs text-slate-400">
+            {historyDays === 0
+              ? "No daily volume history yet. Import a ticket export below to forecast by date."
+              : `Need at least ${FORECAST_MIN_HISTORY_DAYS} days of history ` +
+                `(have ${historyDays}).`}{" "}
+            Until then demand uses the weekday averages.
+          </p>
+        ) : (
+          <>
+            <div className="w-full h-56">
+              <ResponsiveContainer>
+                <ComposedChart data={data}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="date" tick={{ fontSize: 10 }} minTickGap={24} />
+                  <YAxis allowDecimals={false} tick={{ fontSize: 12 }} />
+                  <Tooltip />
+                  <Legend verticalAlign="top" align="center" height={28} />
+                  <Area
+                    dataKey="band"
+                    name="80% band"
+                    stroke="none"
+                    fill="#7c3aed"
+                    fillOpacity={0.15}
+                  />
+                  <Line
+                    dataKey="actual"
+                    name="Actual"
+                    dot={false}
+                    stroke="#64748b"
+                    strokeWidth={2}
                   />
-                  <div className="text-xs">{Math.round(occupancy * 100)}%</div>
-                  <label className="text-xs font-medium">
-                    Buffer (extra agents / 30-min)
-                  </label>
-                  <Input
-                    type="number"
-                    value={serviceBuffer}
-                    min={0}
-                    max={10}
-                    onChange={(e) =>
-                      setServiceBuffer(
-                        parseInt((e.target as HTMLInputElement).value || "0", 10),
-                      )
-                    }
+                  <Line
+                    dataKey="forecast"
+                    name="Forecast"
+                    dot={false}
+                    stroke="#7c3aed"
+                    strokeWidth={2}
                   />
-                  <label className="text-xs font-medium">Day</label>
-                  <Select
-                    value={selectedDay}
-                    onValueChange={(v) => setSelectedDay(v as Weekday)}
-                  >
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
+                  <ReferenceLine x={selectedDate} stroke="#0ea5e9" strokeDasharray="4 4" />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+            <p className="text-xs text-slate-400">
+              Holt-Winters (weekly season) on {forecast.fit.n} days · α {forecast.fit.alpha} · β{" "}
+              {forecast.fit.beta} · γ {forecast.fit.gamma} · one-step error ±
+              {Math.round(forecast.fit.sigma)} tickets. Dates in the forecast use it for demand;
+              other dates use the weekday average.
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/* Ticket history import: derive hourly profile + daily volume, preview against current */
+
+function TicketHistoryImport({
+  hourlyPctByDay,
+  dailyAvg,
+  selectedDay,
+  timeZone,
+  onApply,
+}: {
+  hourlyPctByDay: Record<Weekday, number[]>;
+  dailyAvg: Record<Weekday, number>;
+  selectedDay: Weekday;
+  timeZone: string;
+  onApply: (profile: TicketProfile, dailyTotals: Record<string, number>) => void;
+}) {
+  const [table, setTable] = useState<TicketTable | null>(null);
+  const [fileName, setFileName] = useState("");
+  const [format, setFormat] = useState<TicketExportFormat>("csv");
+  const [column, setColumn] = useState("");
+  const [weeks, setWeeks] = useState(8);
+  const [previewDay, setPreviewDay] = useState<Weekday>(selectedDay);
+
+  const onFile = async (file: File) => {
+    try {
+      const parsed = parseTicketExport(await file.text());
+      if (parsed.rows.length === 0) {
+        alert("No tickets found in this file.");
+        return;
+      }
+      const fmt = detectTicketFormat(parsed.headers);
+      setTable(parsed);
+      setFileName(file.name);
+      setFormat(fmt);
+      setColumn(ticketTimestampColumn(parsed.headers, fmt) ?? parsed.headers[0]);
+    } catch (e) {
+      console.error(e);
+      alert("Could not read ticket export");
+    }
+  };
+
+  const stamps = useMemo(() => {
+    if (!table || !column) return { ok: [] as Array<{ date: string; min: number }>, bad: 0 };
+    const ok: Array<{ date: string; min: number }> = [];
+    let bad = 0;
+    for (const r of table.rows) {
+      const s = parseTicketTimestamp(r[column] || "", timeZone);
+      if (s) ok.push(s);
+      else bad++;
+    }
+    return { ok, bad };
+  }, [table, column, timeZone]);
+
+  const profile = useMemo(() => deriveTicketProfile(stamps.ok, weeks), [stamps, weeks]);
+
+  // both curves as % of their day so differently-scaled profiles compare
+  const previewData = useMemo(() => {
+    const current = hourlyPctByDay[previewDay] || HOURLY_LOAD_PCT_DEFAULT;
+    const currentSum = current.reduce((a, b) => a + b, 0) || 1;
+    const next = profile?.hourlyPctByDay[previewDay];
+    return Array.from({ length: 24 }, (_, h) => ({
+      label: `${String(h).padStart(2, "0")}:00`,
+      current: Math.round((current[h] / currentSum) * 1000) / 10,
+      imported: next ? next[h] : undefined,
+    }));
+  }, [hourlyPctByDay, previewDay, profile]);
+
+  return (
+    <Card className="col-span-12 shadow-sm">
+      <CardContent className="p-4 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex items-center gap-2 text-sm font-medium">
+            <Upload className="w-4 h-4" />
+            Ticket history
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              id="ticketfile"
+              type="file"
+              accept=".csv,.json"
+              className="hidden"
+              onChange={(e) => {
+                const f = e.target.files && e.target.files[0];
+                if (f) onFile(f);
+                e.target.value = "";
+              }}
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => document.getElementById("ticketfile")?.click()}
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              Upload export
+            </Button>
+            {table && (
+              <>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    setTable(null);
+                    setFileName("");
+                  }}
+                >
+                  <XIcon className="w-4 h-4 mr-2" />
+                  Discard
+                </Button>
+                <Button
+                  size="sm"
+                  disabled={!profile}
+                  onClick={() => {
+                    if (!profile) return;
+                    onApply(profile, dailyTicketTotals(stamps.ok));
+                    setTable(null);
+                    setFileName("");
+                  }}
+                >
+                  Apply profile
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+
+        {!table ? (
+          <p className="text-xs text-slate-400">
+            Upload a ticket export (generic CSV with a created-at column, Zendesk or Freshdesk
+            CSV/JSON) to compute the hourly profile and daily volume per weekday from the last
+            weeks of history.
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <div>
+                <label className="text-xs font-medium">Format</label>
+                <Select
+                  value={format}
+                  onValueChange={(v) => {
+                    const fmt = v as TicketExportFormat;
+                    setFormat(fmt);
+                    setColumn(ticketTimestampColumn(table.headers, fmt) ?? column);
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue>{TICKET_EXPORT_FORMATS[format].label}</SelectValue>
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(TICKET_EXPORT_FORMATS) as TicketExportFormat[]).map((f) => (
+                      <SelectItem key={f} value={f}>
+                        {TICKET_EXPORT_FORMATS[f].label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label className="text-xs font-medium">Created-at column</label>
+                <Select value={column} onValueChange={setColumn}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {table.headers.map((h) => (
+                      <SelectItem key={h} value={h}>
+                        {h}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label className="text-xs font-medium">Last N weeks</label>
+                <Input
+                  type="number"
+                  value={weeks}
+                  min={1}
+                  max={52}
+                  onChange={(e) =>
+                    setWeeks(clamp(parseInt((e.target as HTMLInputElement).value || "8", 10), 1, 52))
+                  }
+                />
+              </div>
+              <div>
+                <label className="text-xs font-medium">Preview day</label>
+                <Select value={previewDay} onValueChange={(v) => setPreviewDay(v as Weekday)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WEEKDAYS.map((d) => (
+                      <SelectItem key={d} value={d}>
+                        {d}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="text-xs text-slate-400">
+              <span className="font-mono">{fileName}</span> · {table.rows.length} rows
+              {stamps.bad > 0 && (
+                <span className="text-amber-600">
+                  {" "}
+                  · {stamps.bad} without a readable timestamp
+                </span>
+              )}
+              {profile && (
+                <>
+                  {" "}
+                  · {profile.tickets} tickets from{" "}
+                  <span className="font-mono">{profile.from}</span> to{" "}
+                  <span className="font-mono">{profile.to}</span>
+                </>
+              )}
+            </div>
+
+            {profile ? (
+              <div className="grid grid-cols-12 gap-4">
+                <div className="col-span-12 md:col-span-8 h-56">
+                  <ResponsiveContainer>
+                    <ComposedChart data={previewData}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="label" tick={{ fontSize: 10 }} interval={1} />
+                      <YAxis tick={{ fontSize: 12 }} unit="%" />
+                      <Tooltip />
+                      <Legend verticalAlign="top" align="center" height={28} />
+                      <Bar dataKey="current" name="Current profile (%)" fill="#94a3b8" />
+                      <Line
+                        type="monotone"
+                        dataKey="imported"
+                        name="From history (%)"
+                        dot={false}
+                        stroke="#7c3aed"
+                        strokeWidth={2}
+                      />
+                    </ComposedChart>
+                  </ResponsiveContainer>
+                </div>
+                <div className="col-span-12 md:col-span-4 overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-slate-400">
+                        <th className="py-1 pr-2">Day</th>
+                        <th className="py-1 pr-2">Daily volume</th>
+                        <th className="py-1 pr-2">Days used</th>
+                      </tr>
+                    </thead>
+                    <tbody className="font-mono text-xs">
                       {WEEKDAYS.map((d) => (
-                        <SelectItem key={d} value={d}>
-                          {d}
-                        </SelectItem>
+                        <tr key={d} className="border-t border-slate-200 dark:border-slate-800">
+                          <td className="py-1 pr-2 font-sans">{d}</td>
+                          <td className="py-1 pr-2">
+                            {dailyAvg[d] ?? MONTANA_DAILY_AVG} →{" "}
+                            {profile.dailyAvg[d] ?? "unchanged"}
+                          </td>
+                          <td className="py-1 pr-2">{profile.sampleDays[d]}</td>
+                        </tr>
                       ))}
-                    </SelectContent>
-                  </Select>
-                </CardContent>
-              </Card>
+                    </tbody>
+                  </table>
+                  {profile.excluded.length > 0 && (
+                    <p className="text-[11px] text-slate-400 mt-2">
+                      Excluded as outliers:{" "}
+                      {profile.excluded.map((x) => `${x.date} (${x.total})`).join(", ")}
+                    </p>
+                  )}
+                </div>
+              </div>
+            ) : (
+              <p className="text-xs text-amber-600">
+                No timestamps could be read from column “{column}”.
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
 
-              <Card className="col-span-12 md:col-span-8 shadow-sm">
-                <CardContent className="p-4">
-                  <div className="flex items-center gap-2 text-sm text-slate-400 mb-2">
-                    <Activity className="w-4 h-4" />
-                    Demand vs Required vs Coverage (half-hour · {selectedDay})
-                  </div>
-                  <div className="w-full h-64">
-                    <ResponsiveContainer>
-                      <ComposedChart data={chartData}>
-                        <CartesianGrid strokeDasharray="3 3" />
-                        <XAxis dataKey="label" tick={{ fontSize: 10 }} interval={3} />
-                        <YAxis allowDecimals={false} tick={{ fontSize: 12 }} />
-                        <Tooltip />
-                        <Legend
-                          verticalAlign="top"
-                          align="center"
-                          height={28}
-                          wrapperStyle={{ paddingTop: 4 }}
-                        />
-                        <Bar dataKey="required" name="Required" fill="#ef4444" />
-                        <Bar dataKey="coverage" name="Coverage" fill="#22c55e" />
-                        <Line
-                          type="monotone"
-                          dataKey="load"
-                          name="Load (scaled)"
-                          dot={false}
-                          stroke="#7c3aed"
-                          strokeWidth={2}
-                        />
-                      </ComposedChart>
-                    </ResponsiveContainer>
-                  </div>
-                </CardContent>
-              </Card>
+/* Skill coverage: required vs allocated per skill and half-hour; hidden gaps stand out */
+
+function SkillCoverageView({
+  skills,
+  required,
+  coverage,
+  totalRequired,
+  totalCoverage,
+  selectedDate,
+}: {
+  skills: Skill[];
+  required: Record<string, number[]>;
+  coverage: Record<string, number[]>;
+  totalRequired: number[];
+  totalCoverage: number[];
+  selectedDate: string;
+}) {
+  const cellClass = (gap: number, need: number, hidden: boolean) => {
+    if (need <= 0 && gap >= 0) return "bg-slate-100 dark:bg-slate-800";
+    if (gap >= 0) return "bg-emerald-200 dark:bg-emerald-800";
+    return hidden ? "bg-red-500 ring-1 ring-red-700" : "bg-red-300 dark:bg-red-700";
+  };
+  const hiddenGaps = totalRequired.filter(
+    (r, k) =>
+      totalCoverage[k] >= r &&
+      skills.some((sk) => (coverage[sk.id]?.[k] ?? 0) < (required[sk.id]?.[k] ?? 0)),
+  ).length;
+
+  return (
+    <Card className="col-span-12 shadow-sm">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex items-center gap-2 text-sm font-medium">
+            <Activity className="w-4 h-4" />
+            Skill coverage vs required ·{" "}
+            <span className="font-mono">{selectedDate}</span>
+          </div>
+          {hiddenGaps > 0 && (
+            <Badge className="bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300">
+              <AlertTriangle className="w-3 h-3 mr-1" />
+              {hiddenGaps} half-hours short on a skill while total headcount is enough
+            </Badge>
+          )}
+        </div>
+        <div className="overflow-x-auto">
+          <div className="min-w-[1100px]">
+            {[
+              { id: "__total", name: "All agents", req: totalRequired, cov: totalCoverage },
+              ...skills.map((sk) => ({
+                id: sk.id,
+                name: sk.name,
+                req: required[sk.id] ?? [],
+                cov: coverage[sk.id] ?? [],
+              })),
+            ].map((row) => (
+              <div key={row.id} className="flex items-center gap-2 mb-1">
+                <div className="w-28 text-xs font-medium truncate">{row.name}</div>
+                <div className="flex-1 grid grid-cols-[repeat(48,minmax(0,1fr))] gap-[2px]">
+                  {totalRequired.map((_, k) => {
+                    const need = row.req[k] ?? 0;
+                    const have = row.cov[k] ?? 0;
+                    const hidden = row.id !== "__total" && totalCoverage[k] >= totalRequired[k];
+                    return (
+                      <div
+                        key={k}
+                        className={`h-5 rounded-sm ${cellClass(have - need, need, hidden)}`}
+                        title={`${halfHourLabel(k)} · ${row.name}: ${
+                          Math.round(have * 10) / 10
+                        } / ${need} required`}
+                      />
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+            <div className="flex gap-2">
+              <div className="w-28" />
+              <div className="flex-1 grid grid-cols-[repeat(48,minmax(0,1fr))] gap-[2px] text-[10px] text-slate-400">
+                {totalRequired.map((_, k) => (
+                  <div key={k}>{k % 4 === 0 ? halfHourLabel(k) : ""}</div>
+                ))}
+              </div>
             </div>
-          </TabsContent>
+          </div>
+        </div>
+        <p className="text-[11px] text-slate-400">
+          Green = covered, red = short. Dark red marks a skill gap in a half-hour where the total
+          headcount meets the requirement. Each rostered agent is counted on one skill, weighted
+          by proficiency (learning 50%, capable 80%, expert 100%).
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
 
-          {/* Vacations tab */}
-          <TabsContent value="vacations">
-            <VacationsManager vacations={vacations} setVacations={setVacations} agents={agents} />
-          </TabsContent>
-        </Tabs>
-      </div>
-    </ErrorBoundary>
+/* Skills: the queues demand is split into, and which agents hold them at what level */
+
+function SkillsManager({
+  skills,
+  setSkills,
+  agents,
+  setAgents,
+}: {
+  skills: Skill[];
+  setSkills: React.Dispatch<React.SetStateAction<Skill[]>>;
+  agents: Agent[];
+  setAgents: React.Dispatch<React.SetStateAction<Agent[]>>;
+}) {
+  const [name, setName] = useState("");
+  const shares = skillShares(skills);
+
+  const addSkill = () => {
+    const n = name.trim();
+    if (!n) return;
+    if (skills.some((s) => s.name.toLowerCase() === n.toLowerCase())) {
+      alert("A skill with this name already exists.");
+      return;
+    }
+    setSkills((prev) => [
+      ...prev,
+      { id: "skill-" + Date.now().toString(36), name: n, sharePct: 0 },
+    ]);
+    setName("");
+  };
+
+  const removeSkill = (sk: Skill) => {
+    if (!confirm(`Delete skill "${sk.name}"? It is removed from every agent.`)) return;
+    setSkills((prev) => prev.filter((s) => s.id !== sk.id));
+    setAgents((prev) =>
+      prev.map((a) =>
+        a.skills ? { ...a, skills: a.skills.filter((s) => s.skill !== sk.id) } : a,
+      ),
+    );
+  };
+
+  const updateSkill = (id: string, patch: Partial<Skill>) =>
+    setSkills((prev) => prev.map((s) => (s.id === id ? { ...s, ...patch } : s)));
+
+  // the first edit turns "every skill" into an explicit list
+  const setLevel = (name: string, skillId: string, level: 0 | Proficiency) =>
+    setAgents((prev) =>
+      prev.map((a) => {
+        if (a.name !== name) return a;
+        const levels = { ...agentSkillLevels(a, skills), [skillId]: level };
+        const list: AgentSkill[] = skills
+          .filter((s) => levels[s.id] > 0)
+          .map((s) => ({ skill: s.id, proficiency: levels[s.id] as Proficiency }));
+        return { ...a, skills: list };
+      }),
+    );
+
+  return (
+    <Card className="col-span-12 shadow-sm">
+      <CardContent className="p-4 space-y-4">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <Users className="w-4 h-4" />
+          Skills
+        </div>
+
+        <div className="flex flex-wrap items-end gap-3">
+          {skills.map((sk) => (
+            <div key={sk.id} className="flex items-end gap-1">
+              <div>
+                <label className="text-xs font-medium">Skill</label>
+                <Input
+                  className="w-32"
+                  value={sk.name}
+                  onChange={(e) => updateSkill(sk.id, { name: e.target.value })}
+                />
+              </div>
+              <div>
+                <label className="text-xs font-medium">
+                  Share ({Math.round((shares[sk.id] ?? 0) * 100)}%)
+                </label>
+                <Input
+                  type="number"
+                  className="w-20"
+                  value={sk.sharePct}
+                  min={0}
+                  max={100}
+                  onChange={(e) =>
+                    updateSkill(sk.id, {
+                      sharePct: clamp(
+                        parseFloat((e.target as HTMLInputElement).value || "0"),
+                        0,
+                        100,
+                      ),
+                    })
+                  }
+                />
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                title="Delete skill"
+                onClick={() => removeSkill(sk)}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          <div className="flex items-end gap-2">
+            <div>
+              <label className="text-xs font-medium">New skill</label>
+              <Input
+                className="w-40"
+                placeholder="e.g. French"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <Button onClick={addSkill}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add skill
+            </Button>
+          </div>
+        </div>
+
+        {agents.length === 0 ? (
+          <div className="text-sm text-slate-400">No agents yet.</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-[640px] text-sm">
+              <thead>
+                <tr className="text-left text-xs text-slate-400">
+                  <th className="py-2 pr-4">Agent</th>
+                  {skills.map((sk) => (
+                    <th key={sk.id} className="py-2 pr-4">
+                      {sk.name}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {agents.map((a) => {
+                  const levels = agentSkillLevels(a, skills);
+                  return (
+                    <tr key={a.name} className="border-t border-slate-200 dark:border-slate-800">
+                      <td className="py-1 pr-4 font-medium">
+                        {a.name}
+                        {!a.skills && (
+                          <span className="ml-2 text-[11px] text-slate-400">(all skills)</span>
+                        )}
+                      </td>
+                      {skills.map((sk) => (
+                        <td key={sk.id} className="py-1 pr-4">
+                          <Select
+                            value={String(levels[sk.id])}
+                            onValueChange={(v) =>
+                              setLevel(a.name, sk.id, parseInt(v, 10) as 0 | Proficiency)
+                            }
+                          >
+                            <SelectTrigger className="h-8 w-28 text-xs">
+                              <SelectValue>
+                                {levels[sk.id]
+                                  ? PROFICIENCY_LABELS[levels[sk.id] as Proficiency]
+                                  : "–"}
+                              </SelectValue>
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="0">–</SelectItem>
+                              {([1, 2, 3] as Proficiency[]).map((p) => (
+                                <SelectItem key={p} value={String(p)}>
+                                  {PROFICIENCY_LABELS[p]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </td>
+                      ))}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
   );
-};
+}
 
-/* =====================================================================================
-   SUB-COMPONENTS
-===================================================================================== */
+/* Version history: snapshots of the workspace, a diff against now, and restore */
 
-function TimeInput({
-  value,
-  onChange,
-  disabled,
+function VersionHistory({
+  workspace,
+  token,
+  readOnly,
+  current,
+  onSaveVersion,
+  onRestore,
 }: {
-  value: number;
-  onChange: (v: number) => void;
-  disabled?: boolean;
+  workspace: string;
+  token: string;
+  readOnly: boolean;
+  current: StoredWorkspace;
+  onSaveVersion: (label: string) => Promise<VersionInfo>;
+  onRestore: (v: VersionInfo, data: unknown) => Promise<void>;
 }) {
-  const hh = Math.floor(value / 60);
-  const mm = value % 60;
-  return (
-    <div className="flex items-center gap-1 shrink-0">
-      <Input
-        type="number"
-        inputMode="numeric"
-        pattern="[0-9]*"
-        className="h-9 w-16 text-center font-mono [font-variant-numeric:tabular-nums]"
-        min={0}
-        max={23}
-        value={hh}
-        disabled={!!disabled}
-        onChange={(e) => {
-          const v = parseInt((e.target as HTMLInputElement).value || "0", 10);
-          onChange(clamp(v, 0, 23) * 60 + mm);
-        }}
-      />
-      <span className="text-xs px-1 opacity-70">:</span>
-      <Input
-        type="number"
-        inputMode="numeric"
-        pattern="[0-9]*"
-        className="h-9 w-16 text-center font-mono [font-variant-numeric:tabular-nums]"
-        min={0}
-        max={59}
-        value={mm}
-        disabled={!!disabled}
-        onChange={(e) => {
-          const v = parseInt((e.target as HTMLInputElement).value || "0", 10);
-          onChange(hh * 60 + clamp(v, 0, 59));
-        }}
-      />
-    </div>
-  );
-}
+  const [versions, setVersions] = useState<VersionInfo[] | null>(null);
+  const [label, setLabel] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [selected, setSelected] = useState<{ info: VersionInfo; data: unknown } | null>(null);
 
-function TimelineRowHalfHour({ block }: { block: DayBlock }) {
-  const seg: { k: number; type: "work" | "break" | "off" }[] = [];
-  for (let k = 0; k < halfHourBuckets; k++) {
-    const hs = k * 30,
-      he = (k + 1) * 30;
-    const work = Math.max(0, Math.min(block.endMin, he) - Math.max(block.startMin, hs));
-    let brk = 0;
-    if ((block.breakMins || 0) > 0 && block.breakStartMin !== undefined) {
-      const bs = block.breakStartMin;
-      const be = block.breakStartMin + (block.breakMins || 0);
-      brk = Math.max(0, Math.min(be, he) - Math.max(bs, hs));
+  const refresh = async () => {
+    try {
+      setVersions(await listVersions(workspace, token));
+    } catch (e) {
+      console.warn("[versions] error", e);
+      setVersions([]);
     }
-    const net = work - brk;
-    seg.push({ k, type: net > 0 ? "work" : brk > 0 ? "break" : "off" });
-  }
-  return (
-    <div
-      className="grid"
-      style={{ gridTemplateColumns: "repeat(48, minmax(0,1fr))", gap: "2px" }}
-    >
-      {seg.map((s) => (
-        <div
-          key={s.k}
-          className={`h-7 rounded-sm ${
-            s.type === "work"
-              ? "bg-emerald-300"
-              : s.type === "break"
-              ? "bg-amber-300"
-              : "bg-slate-200"
-          }`}
-          title={halfHourLabel(s.k)}
-        />
-      ))}
-    </div>
+  };
+  useEffect(() => {
+    refresh();
+  }, [workspace, token]);
+
+  const items = useMemo(
+    () => (selected ? diffPayloads(current, selected.data) : []),
+    [current, selected],
   );
-}
+  const groups = Array.from(new Set(items.map((it) => it.group)));
+
+  const run = async (task: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await task();
+    } catch (e) {
+      alert(`Could not complete: ${e instanceof CloudError ? e.detail : String(e)}`);
+    } finally {
+      setBusy(false);
+    }
+  };
 
-function CoverageHeatbarHalfHour({ coverage }: { coverage: number[] }) {
-  const max = Math.max(1, ...coverage);
   return (
-    <div
-      className="grid"
-      style={{ gridTemplateColumns: "repeat(48, minmax(0,1fr))", gap: "4px" }}
-    >
-      {coverage.map((c, k) => (
-        <div key={k} className="flex flex-col items-center">
-          <div
-            className="w-full h-10 rounded-sm bg-violet-400"
-            style={{ opacity: 0.2 + (0.8 * c) / max }}
-          />
-          <div className="mt-1 text-[10px] text-slate-400">
-            {k % 2 === 0 ? `${String(k / 2).padStart(2, "0")}:00` : ""}
+    <div className="grid grid-cols-12 gap-4">
+      <Card className="col-span-12 md:col-span-4 shadow-sm">
+        <CardContent className="p-4 space-y-3">
+          <div className="flex items-center gap-2 text-sm font-medium">
+            <History className="w-4 h-4" />
+            Versions
+            <Button
+              size="icon"
+              variant="ghost"
+              className="ml-auto"
+              title="Refresh"
+              onClick={refresh}
+            >
+              <RefreshCw className="w-4 h-4" />
+            </Button>
           </div>
-        </div>
-      ))}
+          {!readOnly && (
+            <div className="flex gap-2">
+              <Input
+                placeholder="Label, e.g. Before Ramadan import"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+              />
+              <Button
+                disabled={busy || !label.trim()}
+                onClick={() =>
+                  run(async () => {
+                    await onSaveVersion(label.trim());
+                    setLabel("");
+                    await refresh();
+                  })
+                }
+              >
+                Save version
+              </Button>
+            </div>
+          )}
+          <p className="text-xs text-slate-400">
+            Saving also keeps the state it replaces, at most every 30 minutes by default.
+          </p>
+          {versions === null && <div className="text-xs text-slate-400">Loading…</div>}
+          {versions?.length === 0 && <div className="text-xs text-slate-400">No versions yet.</div>}
+          <div className="space-y-1 max-h-[480px] overflow-auto">
+            {versions?.map((v) => (
+              <button
+                key={v.id}
+                className={`w-full text-left text-xs rounded-md px-2 py-1 border ${
+                  selected?.info.id === v.id
+                    ? "border-slate-900 dark:border-slate-100"
+                    : "border-slate-200 dark:border-slate-800"
+                }`}
+                onClick={() =>
+                  run(async () =>
+                    setSelected({ info: v, data: await fetchVersion(workspace, v.id, token) }),
+                  )
+                }
+              >
+                <div className="font-medium">{v.label || (v.auto ? "Automatic" : "Version")}</div>
+                <div className="text-slate-400">{new Date(v.savedAt).toLocaleString()}</div>
+              </button>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="col-span-12 md:col-span-8 shadow-sm">
+        <CardContent className="p-4 space-y-3">
+          {!selected && (
+            <div className="text-xs text-slate-400">Pick a version to compare it with now.</div>
+          )}
+          {selected && (
+            <>
+              <div className="flex items-center gap-2 text-sm font-medium">
+                {versionTitle(selected.info)}
+                <Badge variant="secondary">{items.length} differences</Badge>
+                {!readOnly && (
+                  <Button
+                    size="sm"
+                    className="ml-auto"
+                    disabled={busy}
+                    onClick={() =>
+                      confirm(
+                        `Restore "${versionTitle(selected.info)}"? ` +
+                          "The current state is kept as a version first.",
+                      ) &&
+                      run(async () => {
+                        await onRestore(selected.info, selected.data);
+                        setSelected(null);
+                        await refresh();
+                      })
+                    }
+                  >
+                    <RotateCcw className="w-4 h-4 mr-2" />
+                    Restore
+                  </Button>
+                )}
+              </div>
+              {items.length === 0 && (
+                <div className="text-xs text-slate-400">Same as the current state.</div>
+              )}
+              {groups.map((g) => (
+                <div key={g}>
+                  <div className="text-xs font-medium mb-1">{g}</div>
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="text-left text-xs text-slate-400">
+                        <th className="py-1 pr-2 w-48">Item</th>
+                        <th className="py-1 pr-2">Now</th>
+                        <th className="py-1">In this version</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {items
+                        .filter((it) => it.group === g)
+                        .map((it) => (
+                          <tr
+                            key={it.id}
+                            className="border-t border-slate-200 dark:border-slate-800"
+                          >
+                            <td className="py-1 pr-2 font-medium">{it.label}</td>
+                            <td className="py-1 pr-2 break-all">
+                              {describeConflictValue(it, "mine")}
+                            </td>
+                            <td className="py-1 break-all">
+                              {describeConflictValue(it, "theirs")}
+                            </td>
+                          </tr>
+                        ))}
+                    </tbody>
+                  </table>
+                </div>
+              ))}
+            </>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 }
 
-/* Vacations manager */
+/* Leave manager: requests, admin approval and annual balances */
+
+const LEAVE_STATUS_CLASS: Record<LeaveStatus, string> = {
+  pending: "bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300",
+  approved: "bg-emerald-100 text-emerald-700 dark:bg-emerald-900/40 dark:text-emerald-300",
+  rejected: "bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300",
+};
 
-function VacationsManager({
+function LeaveManager({
   vacations,
   setVacations,
   agents,
+  setAgents,
+  roster,
+  overrides,
+  groups,
+  specialDays,
+  periods,
+  timeZone,
+  readOnly,
+  canApprove,
 }: {
   vacations: Vacations;
   setVacations: React.Dispatch<React.SetStateAction<Vacations>>;
   agents: Agent[];
+  setAgents: React.Dispatch<React.SetStateAction<Agent[]>>;
+  roster: Roster;
+  overrides: RosterOverrides;
+  groups: RotationGroup[];
+  specialDays: SpecialDays;
+  periods: SeasonalPeriod[];
+  /** the site's; "today" is taken there */
+  timeZone: string;
+  /** viewers see balances and who is off, but cannot request (only editors can save) */
+  readOnly: boolean;
+  /** admins decide; editors only request and withdraw pending requests */
+  canApprove: boolean;
 }) {
-  const [startDate, setStartDate] = useState<string>(isoToday());
-  const [endDate, setEndDate] = useState<string>(isoToday());
+  const [startDate, setStartDate] = useState<string>(() => isoToday(timeZone));
+  const [endDate, setEndDate] = useState<string>(() => isoToday(timeZone));
   const [agentName, setAgentName] = useState<string>(agents[0]?.name ?? "");
-  const [viewDate, setViewDate] = useState<string>(isoToday());
+  const [note, setNote] = useState("");
+  const [viewDate, setViewDate] = useState<string>(() => isoToday(timeZone));
+  const [year, setYear] = useState(() => Number(isoToday(timeZone).slice(0, 4)));
 
   const agentsForViewDate = useMemo(
     () =>
@@ -1330,16 +8404,113 @@ function VacationsManager({
     [viewDate, vacations, agents],
   );
 
-  const addVacationRange = () => {
+  const balances = useMemo(() => {
+    const out: Record<string, LeaveBalance> = {};
+    for (const a of agents) {
+      out[a.name] = leaveBalance(
+        a,
+        vacations,
+        year,
+        roster,
+        overrides,
+        groups,
+        specialDays,
+        periods,
+      );
+    }
+    return out;
+  }, [agents, vacations, year, roster, overrides, groups, specialDays, periods]);
+
+  /** working days a range costs, over every year it touches */
+  const workingDays = (name: string, r: LeaveRange) => {
+    const agent = agents.find((a) => a.name === name);
+    if (!agent) return 0;
+    let days = 0;
+    for (let y = Number(r.start.slice(0, 4)); y <= Number(r.end.slice(0, 4)); y++) {
+      days += leaveWorkingDays(r, agent, y, roster, overrides, groups, specialDays, periods);
+    }
+    return days;
+  };
+
+  const pendingRequests = useMemo(
+    () =>
+      Object.keys(vacations)
+        .sort()
+        .flatMap((name) =>
+          (vacations[name] ?? [])
+            .map((r, idx) => ({ name, idx, r }))
+            .filter(({ r }) => leaveStatus(r) === "pending"),
+        )
+        .sort((a, b) => compareISO(a.r.start, b.r.start)),
+    [vacations],
+  );
+
+  const requestLeave = () => {
     if (!agentName || !startDate || !endDate) return;
     if (compareISO(startDate, endDate) > 0) {
       alert("End date must be on or after start date.");
       return;
     }
+    const overlaps = (vacations[agentName] ?? []).some(
+      (r) =>
+        leaveStatus(r) !== "rejected" &&
+        compareISO(r.start, endDate) <= 0 &&
+        compareISO(startDate, r.end) <= 0,
+    );
+    if (overlaps) {
+      alert(`${agentName} already has leave requested or approved in those dates.`);
+      return;
+    }
+    const request: LeaveRange = {
+      start: startDate,
+      end: endDate,
+      status: "pending",
+      requestedAt: new Date().toISOString(),
+    };
+    if (note.trim()) request.note = note.trim();
+    setVacations((prev) => ({
+      ...prev,
+      [agentName]: [...(prev[agentName] ?? []), request].sort((a, b) =>
+        compareISO(a.start, b.start),
+      ),
+    }));
+    setNote("");
+  };
+
+  const updateRange = (name: string, idx: number, fn: (r: LeaveRange) => LeaveRange) => {
     setVacations((prev) => {
-      const prevList = prev[agentName] ?? [];
-      const merged = mergeRanges([...prevList, { start: startDate, end: endDate }]);
-      return { ...prev, [agentName]: merged };
+      const list = (prev[name] ?? []).slice();
+      if (!list[idx]) return prev;
+      list[idx] = fn(list[idx]);
+      return { ...prev, [name]: list };
+    });
+  };
+
+  const decide = (name: string, idx: number, status: "approved" | "rejected") => {
+    const r = vacations[name]?.[idx];
+    if (!r) return;
+    if (status === "approved") {
+      const b = balances[name];
+      const days = workingDays(name, r);
+      if (b && days > b.remaining) {
+        const ok = confirm(
+          `${name} has ${b.remaining} day(s) of ${year} leave left and this request takes ` +
+            `${days}. Approve anyway?`,
+        );
+        if (!ok) return;
+      }
+    }
+    const comment = prompt(
+      `${status === "approved" ? "Approve" : "Reject"} ${name}'s leave ` +
+        `${r.start} → ${r.end}. Comment (optional):`,
+      "",
+    );
+    if (comment === null) return;
+    updateRange(name, idx, (prev) => {
+      const next: LeaveRange = { ...prev, status, decidedAt: new Date().toISOString() };
+      if (comment.trim()) next.comment = comment.trim();
+      else delete next.comment;
+      return next;
     });
   };
 
@@ -1362,77 +8533,280 @@ function VacationsManager({
     });
   };
 
+  const setEntitlement = (name: string, raw: string) => {
+    const days = Math.max(0, Math.min(366, Math.round(Number(raw) || 0)));
+    setAgents((prev) => prev.map((a) => (a.name === name ? { ...a, annualLeaveDays: days } : a)));
+  };
+
+  const canRemove = (r: LeaveRange) =>
+    !readOnly && (canApprove || leaveStatus(r) === "pending");
+
   return (
     <div className="grid grid-cols-12 gap-4">
       <Card className="col-span-12 md:col-span-5 shadow-sm">
         <CardContent className="p-4 space-y-3">
           <div className="text-sm font-medium flex items-center gap-2">
             <Calendar className="w-4 h-4" />
-            Add a vacation range
+            Request leave
           </div>
-          <div className="grid grid-cols-2 gap-3">
-            <div>
-              <label className="text-xs font-medium">Start date</label>
-              <Input
-                type="date"
-                value={startDate}
-                onChange={(e) =>
-                  setStartDate((e.target as HTMLInputElement).value || isoToday())
-                }
-              />
+          <Editable readOnly={readOnly}>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="text-xs font-medium">Start date</label>
+                <Input
+                  type="date"
+                  value={startDate}
+                  onChange={(e) =>
+                    setStartDate((e.target as HTMLInputElement).value || isoToday(timeZone))
+                  }
+                />
+              </div>
+              <div>
+                <label className="text-xs font-medium">End date</label>
+                <Input
+                  type="date"
+                  value={endDate}
+                  onChange={(e) =>
+                    setEndDate((e.target as HTMLInputElement).value || isoToday(timeZone))
+                  }
+                />
+              </div>
+              <div className="col-span-2">
+                <label className="text-xs font-medium">Agent</label>
+                <Select value={agentName} onValueChange={setAgentName}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Pick an agent" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {agents.map((a) => (
+                      <SelectItem value={a.name} key={a.name}>
+                        {a.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="col-span-2">
+                <label className="text-xs font-medium">Reason</label>
+                <Input
+                  value={note}
+                  placeholder="Optional"
+                  onChange={(e) => setNote((e.target as HTMLInputElement).value)}
+                />
+              </div>
             </div>
-            <div>
-              <label className="text-xs font-medium">End date</label>
+            <div className="flex items-center gap-3">
+              <Button onClick={requestLeave}>
+                <Plus className="w-4 h-4 mr-2" />
+                Submit request
+              </Button>
+              {agentName && compareISO(startDate, endDate) <= 0 && (
+                <span className="text-xs text-slate-400">
+                  {workingDays(agentName, { start: startDate, end: endDate })} working day(s)
+                </span>
+              )}
+            </div>
+          </Editable>
+          {readOnly && (
+            <p className="text-xs text-amber-600 dark:text-amber-400">
+              Your access is view-only, so you can’t submit requests here. Ask a lead with edit
+              access to request leave for you.
+            </p>
+          )}
+          <p className="text-xs text-slate-400">
+            Requests wait for an admin. Only approved leave takes the agent off the Schedule
+            for the dates in the range (inclusive); days they would not work cost nothing.
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card className="col-span-12 md:col-span-7 shadow-sm">
+        <CardContent className="p-4 space-y-3">
+          <div className="text-sm font-medium flex items-center gap-2">
+            <Hourglass className="w-4 h-4" />
+            Pending requests
+            <Badge variant="secondary">{pendingRequests.length}</Badge>
+            {!canApprove && (
+              <span className="text-xs font-normal text-slate-400">
+                An admin approves or rejects these
+              </span>
+            )}
+          </div>
+          {pendingRequests.length === 0 ? (
+            <p className="text-sm text-slate-400">Nothing waiting for a decision.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-[560px] w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-slate-400">
+                    <th className="py-2 pr-4">Agent</th>
+                    <th className="py-2 pr-4">Dates</th>
+                    <th className="py-2 pr-4">Days</th>
+                    <th className="py-2 pr-4">Reason</th>
+                    <th className="py-2 pr-4">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {pendingRequests.map(({ name, idx, r }) => {
+                    const days = workingDays(name, r);
+                    const short = balances[name] && days > balances[name].remaining;
+                    return (
+                      <tr
+                        key={`${name}-${idx}`}
+                        className="border-t border-slate-200 dark:border-slate-800"
+                      >
+                        <td className="py-2 pr-4 font-medium">{name}</td>
+                        <td className="py-2 pr-4 font-mono text-xs">
+                          {r.start} → {r.end}
+                        </td>
+                        <td className="py-2 pr-4">
+                          <span className={short ? "text-red-500" : ""}>{days}</span>
+                          {short && (
+                            <AlertTriangle
+                              className="inline w-3 h-3 ml-1 text-red-500"
+                              aria-label="More than the remaining balance"
+                            />
+                          )}
+                        </td>
+                        <td className="py-2 pr-4 text-xs text-slate-500">{r.note ?? "—"}</td>
+                        <td className="py-2 pr-4">
+                          <div className="flex gap-2">
+                            {canApprove && (
+                              <>
+                                <Button size="sm" onClick={() => decide(name, idx, "approved")}>
+                                  <Check className="w-4 h-4 mr-1" />
+                                  Approve
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => decide(name, idx, "rejected")}
+                                >
+                                  <XIcon className="w-4 h-4 mr-1" />
+                                  Reject
+                                </Button>
+                              </>
+                            )}
+                            {!readOnly && (
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => removeRange(name, idx)}
+                                title="Withdraw this request"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="col-span-12 shadow-sm">
+        <CardContent className="p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <div className="text-sm font-medium flex items-center gap-2">
+              <Users className="w-4 h-4" />
+              Leave balances
+            </div>
+            <div className="flex items-center gap-2">
+              <label className="text-xs text-slate-400">Year</label>
               <Input
-                type="date"
-                value={endDate}
-                onChange={(e) =>
-                  setEndDate((e.target as HTMLInputElement).value || isoToday())
-                }
+                type="number"
+                className="w-24"
+                value={year}
+                min={2000}
+                max={2100}
+                onChange={(e) => {
+                  const y = Math.round(Number((e.target as HTMLInputElement).value));
+                  if (y >= 2000 && y <= 2100) setYear(y);
+                }}
               />
             </div>
-            <div className="col-span-2">
-              <label className="text-xs font-medium">Agent</label>
-              <Select value={agentName} onValueChange={setAgentName}>
-                <SelectTrigger>
-                  <SelectValue placeholder="Pick an agent" />
-                </SelectTrigger>
-                <SelectContent>
-                  {agents.map((a) => (
-                    <SelectItem value={a.name} key={a.name}>
-                      {a.name}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
           </div>
-          <div className="flex gap-2">
-            <Button onClick={addVacationRange}>
-              <Plus className="w-4 h-4 mr-2" />
-              Add vacation range
-            </Button>
+          <div className="overflow-x-auto">
+            <table className="min-w-[560px] w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-slate-400">
+                  <th className="py-2 pr-4">Agent</th>
+                  <th className="py-2 pr-4">Entitlement</th>
+                  <th className="py-2 pr-4">Used</th>
+                  <th className="py-2 pr-4">Pending</th>
+                  <th className="py-2 pr-4">Remaining</th>
+                </tr>
+              </thead>
+              <tbody>
+                {agents.map((a) => {
+                  const b = balances[a.name];
+                  return (
+                    <tr key={a.name} className="border-t border-slate-200 dark:border-slate-800">
+                      <td className="py-2 pr-4 font-medium">{a.name}</td>
+                      <td className="py-2 pr-4">
+                        {canApprove ? (
+                          <Input
+                            type="number"
+                            className="w-20 h-8"
+                            min={0}
+                            max={366}
+                            value={b.entitlement}
+                            onChange={(e) =>
+                              setEntitlement(a.name, (e.target as HTMLInputElement).value)
+                            }
+                          />
+                        ) : (
+                          b.entitlement
+                        )}
+                      </td>
+                      <td className="py-2 pr-4">{b.used}</td>
+                      <td className="py-2 pr-4 text-slate-500">{b.pending || "—"}</td>
+                      <td
+                        className={`py-2 pr-4 font-medium ${
+                          b.remaining < 0 ? "text-red-500" : ""
+                        }`}
+                      >
+                        {b.remaining}
+                      </td>
+                    </tr>
+                  );
+                })}
+                {agents.length === 0 && (
+                  <tr>
+                    <td className="py-3 text-slate-400 text-sm" colSpan={5}>
+                      No agents yet.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
           </div>
           <p className="text-xs text-slate-400">
-            Agents on vacation won’t appear on the Schedule for any date within the range
-            (inclusive).
+            Working days in {year} by each agent’s roster, rotations, seasonal periods and date
+            overrides; company holidays are not counted. Entitlement defaults to{" "}
+            {ANNUAL_LEAVE_DAYS_DEFAULT} days.
           </p>
         </CardContent>
       </Card>
 
-      <Card className="col-span-12 md:col-span-7 shadow-sm">
+      <Card className="col-span-12 shadow-sm">
         <CardContent className="p-4">
           <div className="flex items-center justify-between mb-3">
             <div className="text-sm font-medium flex items-center gap-2">
               <Calendar className="w-4 h-4" />
-              Who’s on vacation for date
+              Who’s on leave for date
             </div>
             <div className="flex items-center gap-2">
               <Input
                 type="date"
                 value={viewDate}
                 onChange={(e) =>
-                  setViewDate((e.target as HTMLInputElement).value || isoToday())
+                  setViewDate((e.target as HTMLInputElement).value || isoToday(timeZone))
                 }
               />
             </div>
@@ -1440,7 +8814,7 @@ function VacationsManager({
 
           {agentsForViewDate.length === 0 ? (
             <p className="text-sm text-slate-400">
-              No one is on vacation on this date.
+              No one is on approved leave on this date.
             </p>
           ) : (
             <div className="flex flex-wrap gap-2 mb-3">
@@ -1454,14 +8828,14 @@ function VacationsManager({
 
           <div className="mt-6">
             <div className="text-sm font-medium mb-2">
-              All vacation ranges per agent
+              All leave per agent
             </div>
             <div className="overflow-x-auto">
               <table className="min-w-[640px] text-sm">
                 <thead>
                   <tr className="text-left text-xs text-slate-400">
                     <th className="py-2 pr-4">Agent</th>
-                    <th className="py-2 pr-4">Ranges</th>
+                    <th className="py-2 pr-4">Requests</th>
                     <th className="py-2 pr-4">Actions</th>
                   </tr>
                 </thead>
@@ -1477,17 +8851,25 @@ function VacationsManager({
                               <span
                                 key={name + idx}
                                 className="inline-flex items-center gap-2 px-2 py-1 rounded-full border border-slate-200 dark:border-slate-700"
+                                title={[r.note, r.comment && `Admin: ${r.comment}`]
+                                  .filter(Boolean)
+                                  .join("\n")}
                               >
                                 <span className="font-mono text-xs">{r.start}</span>
                                 <span className="opacity-60 text-xs">→</span>
                                 <span className="font-mono text-xs">{r.end}</span>
-                                <button
-                                  className="rounded-full hover:bg-slate-100 dark:hover:bg-slate-800 p-1"
-                                  onClick={() => removeRange(name, idx)}
-                                  title="Remove this range"
-                                >
-                                  <XIcon className="w-3 h-3" />
-                                </button>
+                                <Badge className={LEAVE_STATUS_CLASS[leaveStatus(r)]}>
+                                  {leaveStatus(r)}
+                                </Badge>
+                                {canRemove(r) && (
+                                  <button
+                                    className="rounded-full hover:bg-slate-100 dark:hover:bg-slate-800 p-1"
+                                    onClick={() => removeRange(name, idx)}
+                                    title="Remove this range"
+                                  >
+                                    <XIcon className="w-3 h-3" />
+                                  </button>
+                                )}
                               </span>
                             ))}
                             {(vacations[name] ?? []).length === 0 && (
@@ -1496,21 +8878,23 @@ function VacationsManager({
                           </div>
                         </td>
                         <td className="py-2 pr-4">
-                          <Button
-                            size="sm"
-                            variant="outline"
-                            onClick={() => clearAgent(name)}
-                          >
-                            <Trash2 className="w-4 h-4 mr-2" />
-                            Clear all
-                          </Button>
+                          {(vacations[name] ?? []).every(canRemove) && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => clearAgent(name)}
+                            >
+                              <Trash2 className="w-4 h-4 mr-2" />
+                              Clear all
+                            </Button>
+                          )}
                         </td>
                       </tr>
                     ))}
                   {Object.keys(vacations).length === 0 && (
                     <tr>
                       <td className="py-3 text-slate-400 text-sm" colSpan={3}>
-                        No vacations added yet.
+                        No leave requested yet.
                       </td>
                     </tr>
                   )}
@@ -1524,4 +8908,44 @@ function VacationsManager({
   );
 }
 
+const App: React.FC = () => {
+  const [workspace, setWorkspace] = useState(
+    () => localStorage.getItem(WORKSPACE_STORAGE_KEY) || DEFAULT_WORKSPACE,
+  );
+  const [token, setToken] = useState(
+    () => localStorage.getItem(TOKEN_STORAGE_KEY) || TOKEN || "",
+  );
+  useEffect(() => {
+    localStorage.setItem(WORKSPACE_STORAGE_KEY, workspace);
+  }, [workspace]);
+  useEffect(() => {
+    if (token) localStorage.setItem(TOKEN_STORAGE_KEY, token);
+    else localStorage.removeItem(TOKEN_STORAGE_KEY);
+  }, [token]);
+  // a new workspace or token reloads everything from the function
+  return (
+    <WorkspaceApp
+      key={`${workspace}|${token}`}
+      workspace={workspace}
+      token={token}
+      onWorkspaceChange={setWorkspace}
+      onTokenChange={setToken}
+    />
+  );
+};
+
 export default App;
+
+// pure helpers, for the unit tests
+export {
+  AUTO_PLAN_DEFAULT,
+  autoPlanRoster,
+  checkLaborRules,
+  diffPayloads,
+  effectiveWeek,
+  LABOR_RULES_DEFAULT,
+  mergePayloads,
+  ticketOutliers,
+  WEEKDAYS,
+};
+export type { Agent, DayBlock, Weekday };
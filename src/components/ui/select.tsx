@@ -56,12 +56,16 @@ export const SelectTrigger: React.FC<React.ButtonHTMLAttributes<HTMLButtonElemen
   );
 };
 
-export const SelectValue: React.FC<{ placeholder?: string }> = ({ placeholder }) => {
+/** shows the raw value unless `children` supplies a label for it */
+export const SelectValue: React.FC<{ placeholder?: string; children?: React.ReactNode }> = ({
+  placeholder,
+  children,
+}) => {
   const ctx = React.useContext(SelectContext);
   if (!ctx) return null;
   return (
     <span className="truncate text-left text-sm">
-      {ctx.value || placeholder || "Select"}
+      {children ?? (ctx.value || placeholder || "Select")}
     </span>
   );
 };
@@ -3,14 +3,16 @@ import * as React from "react";
 export interface SwitchProps {
   checked?: boolean;
   onCheckedChange?: (value: boolean) => void;
+  title?: string;
 }
 
-export const Switch: React.FC<SwitchProps> = ({ checked = false, onCheckedChange }) => {
+export const Switch: React.FC<SwitchProps> = ({ checked = false, onCheckedChange, title }) => {
   return (
     <button
       type="button"
       role="switch"
       aria-checked={checked}
+      title={title}
       onClick={() => onCheckedChange && onCheckedChange(!checked)}
       className={`relative inline-flex h-5 w-9 items-center rounded-full border transition-colors
         ${checked ? "bg-emerald-500 border-emerald-600" : "bg-slate-200 border-slate-300"}`}
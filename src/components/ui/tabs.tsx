@@ -12,6 +12,7 @@ export const Tabs: React.FC<{
   defaultValue?: string;
   onValueChange?: (v: string) => void;
   className?: string;
+  children?: React.ReactNode;
 }> = ({ value, defaultValue, onValueChange, className = "", children }) => {
   const [internal, setInternal] = React.useState<string>(defaultValue || "");
   const controlled = value !== undefined;
@@ -67,7 +68,11 @@ export const TabsTrigger: React.FC<
   );
 };
 
-export const TabsContent: React.FC<{ value: string; className?: string }> = ({
+export const TabsContent: React.FC<{
+  value: string;
+  className?: string;
+  children?: React.ReactNode;
+}> = ({
   value,
   className = "",
   children
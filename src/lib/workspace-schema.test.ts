@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import {
+  checkWorkspace,
+  leaveDecisionChanges,
+  upgradeBlock,
+  WORKSPACE_VERSION,
+} from "./workspace-schema";
+
+const v1Block = { active: true, startMin: 480, endMin: 960, breakStartMin: 720, breakMins: 60 };
+const v2Block = {
+  active: true,
+  segments: [{ startMin: 480, endMin: 960 }],
+  activities: [{ type: "lunch", startMin: 720, mins: 60 }],
+};
+
+describe("upgradeBlock", () => {
+  it("turns a single window with a break into a segment and an activity", () => {
+    expect(upgradeBlock(v1Block)).toEqual(v2Block);
+    expect(upgradeBlock({ ...v1Block, breakMins: 15, breakPinned: true }).activities).toEqual([
+      { type: "break", startMin: 720, mins: 15, pinned: true },
+    ]);
+  });
+
+  it("fills in 09:00–17:00 for a window without times", () => {
+    expect(upgradeBlock({ active: false })).toEqual({
+      active: false,
+      segments: [{ startMin: 540, endMin: 1020 }],
+      activities: [],
+    });
+    expect(upgradeBlock(null).segments).toEqual([{ startMin: 540, endMin: 1020 }]);
+  });
+
+  it("coerces a block already in the segment model", () => {
+    expect(
+      upgradeBlock({
+        active: 1,
+        segments: [{ startMin: "60", endMin: 120 }, null],
+        activities: [{ type: "nap", startMin: 90, mins: -5 }],
+      }),
+    ).toEqual({
+      active: true,
+      segments: [{ startMin: 60, endMin: 120 }],
+      activities: [{ type: "break", startMin: 90, mins: 0 }],
+    });
+  });
+});
+
+describe("checkWorkspace migrations", () => {
+  const group = (weeks: unknown[]) => ({ id: "g", name: "G", anchorDate: "2026-10-17", weeks });
+
+  it("upgrades a version 1 document", () => {
+    const { doc, issues } = checkWorkspace({
+      roster: { A: { Monday: v1Block } },
+      overrides: { A: { "2026-10-19": v1Block } },
+      rotationGroups: [group([{ A: { Sunday: v1Block } }])],
+      ahtMin: 7,
+      slTargetPct: 0.85,
+      slTargetSec: 30,
+    });
+    expect(issues).toEqual([]);
+    expect(doc.version).toBe(WORKSPACE_VERSION);
+    expect(doc.roster).toEqual({ A: { Monday: v2Block } });
+    expect(doc.overrides).toEqual({ A: { "2026-10-19": v2Block } });
+    expect(doc.rotationGroups).toEqual([group([{ A: { Sunday: v2Block } }])]);
+    const legacy = { ahtMin: 7, slPct: 0.85, slSec: 30 };
+    expect(doc.channels).toEqual({ chat: legacy, email: legacy, phone: legacy });
+    expect(doc).not.toHaveProperty("ahtMin");
+    expect(doc).not.toHaveProperty("slTargetPct");
+  });
+
+  it("keeps stored channels over the legacy settings", () => {
+    const channels = { chat: { ahtMin: 4 } };
+    expect(checkWorkspace({ ahtMin: 7, channels }).doc.channels).toEqual(channels);
+  });
+
+  it("leaves blocks already in the new shape for validation to judge", () => {
+    const bad = { active: true, segments: [{ startMin: "x" }], activities: [] };
+    const { issues } = checkWorkspace({ roster: { A: { Monday: bad } } });
+    expect(issues.map((i) => i.path)).toContain("roster.A.Monday.segments[0].startMin");
+  });
+
+  it("refuses a document from a newer version", () => {
+    const { issues } = checkWorkspace({ version: WORKSPACE_VERSION + 1 });
+    expect(issues.map((i) => i.path)).toEqual(["version"]);
+  });
+});
+
+describe("leaveDecisionChanges", () => {
+  const range = (status?: string) => ({ start: "2026-11-01", end: "2026-11-05", status });
+  const doc = (vacations: object, agents: object[] = [{ name: "A" }, { name: "B" }]) => ({
+    agents,
+    vacations,
+  });
+
+  it("lets anyone request leave or withdraw a pending request", () => {
+    const before = doc({ A: [range("approved")] });
+    expect(leaveDecisionChanges(before, doc({ A: [range("approved"), range("pending")] }))).toEqual(
+      [],
+    );
+    expect(leaveDecisionChanges(doc({ B: [range("pending")] }), doc({}))).toEqual([]);
+  });
+
+  it("names agents whose decided leave changed", () => {
+    const before = doc({ A: [range("pending")], B: [range()] });
+    expect(leaveDecisionChanges(before, doc({ A: [range("approved")], B: [range()] }))).toEqual([
+      "A",
+    ]);
+    expect(leaveDecisionChanges(before, doc({ A: [range("pending")], B: [] }))).toEqual(["B"]);
+  });
+
+  it("ignores key order within a range", () => {
+    const shuffled = { status: "approved", end: "2026-11-05", start: "2026-11-01" };
+    expect(leaveDecisionChanges(doc({ A: [range("approved")] }), doc({ A: [shuffled] }))).toEqual(
+      [],
+    );
+  });
+
+  it("counts entitlement changes, but not an agent removed with its entitlement", () => {
+    const before = doc({}, [{ name: "A", annualLeaveDays: 21 }, { name: "B" }]);
+    const raised = doc({}, [{ name: "A", annualLeaveDays: 30 }]);
+    expect(leaveDecisionChanges(before, raised)).toEqual(["A"]);
+    expect(leaveDecisionChanges(before, doc({}, [{ name: "B" }]))).toEqual([]);
+  });
+
+  it("counts removing an agent with decided leave", () => {
+    const before = doc({ A: [range("approved")] });
+    expect(leaveDecisionChanges(before, doc({}, [{ name: "B" }]))).toEqual(["A"]);
+  });
+});
@@ -0,0 +1,415 @@
+/* =====================================================================================
+   WORKSPACE DOCUMENT – schema + version migrations
+   Shared by the app's loader and the `schedule` function's PUT, so both agree on what a
+   stored workspace may look like. Bump WORKSPACE_VERSION together with a new entry in
+   MIGRATIONS whenever the stored shape changes.
+===================================================================================== */
+
+export const WORKSPACE_VERSION = 2;
+
+/** one problem with a document, e.g. { path: "roster.Ali.Monday.segments[0].endMin", … } */
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+const WEEKDAYS = ["Saturday", "Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday"];
+const ACTIVITY_TYPES = ["break", "lunch", "meeting", "training"] as const;
+const CHANNELS = ["chat", "email", "phone"];
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/* ----- validators: each returns the issues found under `path` ----- */
+
+type Check = (v: unknown, path: string) => SchemaIssue[];
+
+const issue = (path: string, message: string): SchemaIssue[] => [
+  { path: path || "(root)", message },
+];
+
+const str =
+  (opts: { nonEmpty?: boolean; pattern?: RegExp; hint?: string } = {}): Check =>
+  (v, path) => {
+    if (typeof v !== "string") return issue(path, "expected a string");
+    if (opts.nonEmpty && !v.trim()) return issue(path, "must not be empty");
+    if (opts.pattern && !opts.pattern.test(v)) return issue(path, `expected ${opts.hint}`);
+    return [];
+  };
+
+const isoDate = str({ pattern: ISO_DATE, hint: "a YYYY-MM-DD date" });
+
+const num =
+  (opts: { min?: number; max?: number; int?: boolean } = {}): Check =>
+  (v, path) => {
+    if (typeof v !== "number" || !Number.isFinite(v)) return issue(path, "expected a number");
+    if (opts.int && !Number.isInteger(v)) return issue(path, "expected a whole number");
+    if (opts.min !== undefined && v < opts.min) return issue(path, `must be ≥ ${opts.min}`);
+    if (opts.max !== undefined && v > opts.max) return issue(path, `must be ≤ ${opts.max}`);
+    return [];
+  };
+
+const bool: Check = (v, path) =>
+  typeof v === "boolean" ? [] : issue(path, "expected true / false");
+
+const oneOf =
+  (values: readonly unknown[]): Check =>
+  (v, path) =>
+    values.includes(v) ? [] : issue(path, `expected one of ${values.join(", ")}`);
+
+const arr =
+  (of: Check, opts: { length?: number } = {}): Check =>
+  (v, path) => {
+    if (!Array.isArray(v)) return issue(path, "expected a list");
+    if (opts.length !== undefined && v.length !== opts.length) {
+      return issue(path, `expected ${opts.length} entries, got ${v.length}`);
+    }
+    return v.flatMap((x, i) => of(x, `${path}[${i}]`));
+  };
+
+export const isObject = (v: unknown): v is Record<string, unknown> =>
+  !!v && typeof v === "object" && !Array.isArray(v);
+
+/** fixed keys; `optional` ones may be missing, unknown keys are let through */
+const obj =
+  (shape: Record<string, Check>, optional: string[] = []): Check =>
+  (v, path) => {
+    if (!isObject(v)) return issue(path, "expected an object");
+    return Object.entries(shape).flatMap(([k, check]) => {
+      const at = path ? `${path}.${k}` : k;
+      if (v[k] === undefined) return optional.includes(k) ? [] : issue(at, "is required");
+      return check(v[k], at);
+    });
+  };
+
+/** free keys (agent names, dates, …), each checked by `key` and its value by `of` */
+const record =
+  (of: Check, key?: Check): Check =>
+  (v, path) => {
+    if (!isObject(v)) return issue(path, "expected an object");
+    return Object.entries(v).flatMap(([k, x]) => {
+      const at = `${path}.${k}`;
+      const bad = key?.(k, at) ?? [];
+      return bad.length ? bad.map((b) => ({ ...b, message: `key ${b.message}` })) : of(x, at);
+    });
+  };
+
+/* ----- the document (current version) ----- */
+
+const minute = num({ min: 0, max: 1440, int: true });
+const profile24 = arr(num({ min: 0 }), { length: 24 });
+
+const dayBlock = obj({
+  active: bool,
+  segments: arr(obj({ startMin: minute, endMin: minute })),
+  activities: arr(
+    obj(
+      {
+        type: oneOf(ACTIVITY_TYPES),
+        startMin: minute,
+        mins: num({ min: 0, max: 1440 }),
+        pinned: bool,
+      },
+      ["pinned"],
+    ),
+  ),
+});
+
+const week = record(dayBlock, oneOf(WEEKDAYS));
+const roster = record(week);
+
+const agent = obj(
+  {
+    name: str({ nonEmpty: true }),
+    country: str(),
+    remote: bool,
+    level: oneOf(["junior", "mid", "senior"]),
+    fridayAllowed: bool,
+    breakPref: oneOf(["none", "60"]),
+    rotationGroup: str(),
+    skills: arr(obj({ skill: str({ nonEmpty: true }), proficiency: oneOf([1, 2, 3]) })),
+    timezone: str(),
+    annualLeaveDays: num({ min: 0, max: 366 }),
+  },
+  ["rotationGroup", "skills", "timezone", "annualLeaveDays"],
+);
+
+/** agent names are the keys of roster, overrides and vacations, so they must be unique */
+const agents: Check = (v, path) => {
+  const found = arr(agent)(v, path);
+  if (found.length) return found;
+  const seen = new Set<string>();
+  return (v as Array<{ name: string }>).flatMap((a, i) => {
+    if (seen.has(a.name)) return issue(`${path}[${i}].name`, `duplicate agent "${a.name}"`);
+    seen.add(a.name);
+    return [];
+  });
+};
+
+/** a leave request; ranges saved before requests existed have only start / end (= approved) */
+const LEAVE_OPTIONAL = ["status", "note", "requestedAt", "decidedAt", "comment"];
+const leaveRange = obj(
+  {
+    start: isoDate,
+    end: isoDate,
+    status: oneOf(["pending", "approved", "rejected"]),
+    note: str(),
+    requestedAt: str(),
+    decidedAt: str(),
+    comment: str(),
+  },
+  LEAVE_OPTIONAL,
+);
+
+/** missing channel fields fall back to the app's defaults */
+const CHANNEL_FIELDS: Record<string, Check> = {
+  enabled: bool,
+  sharePct: num({ min: 0, max: 100 }),
+  ahtMin: num({ min: 0 }),
+  concurrency: num({ min: 1 }),
+  slPct: num({ min: 0, max: 1 }),
+  slSec: num({ min: 0 }),
+  slaHours: num({ min: 0 }),
+  hourlyPct: profile24,
+};
+const channel = obj(CHANNEL_FIELDS, Object.keys(CHANNEL_FIELDS));
+
+/** missing auto plan settings fall back to the app's defaults */
+const AUTO_PLAN_FIELDS: Record<string, Check> = {
+  minShiftMins: num({ min: 0 }),
+  maxShiftMins: num({ min: 0 }),
+  maxWeeklyMins: num({ min: 0 }),
+  maxDaysPerWeek: num({ min: 0, max: 7, int: true }),
+  earliestStartMin: num({ min: 0, max: 2880 }),
+  latestEndMin: num({ min: 0, max: 2880 }),
+};
+
+/** missing labor rules fall back to the app's defaults; 0 switches a rule off */
+const LABOR_RULE_FIELDS: Record<string, Check> = {
+  maxWeeklyMins: num({ min: 0 }),
+  maxConsecutiveDays: num({ min: 0, max: 7, int: true }),
+  minRestMins: num({ min: 0 }),
+  minShiftMins: num({ min: 0 }),
+  maxShiftMins: num({ min: 0 }),
+  breakAfterMins: num({ min: 0 }),
+  breakMins: num({ min: 0 }),
+};
+
+const DOCUMENT_FIELDS: Record<string, Check> = {
+  version: num({ min: 1, int: true }),
+  savedAt: str(),
+  brand: str(),
+  agents,
+  roster,
+  overrides: record(record(dayBlock, isoDate)),
+  rotationGroups: arr(
+    obj({ id: str({ nonEmpty: true }), name: str(), anchorDate: isoDate, weeks: arr(roster) }),
+  ),
+  seasonalPeriods: arr(
+    obj({
+      id: str({ nonEmpty: true }),
+      name: str(),
+      start: isoDate,
+      end: isoDate,
+      roster,
+      hourlyPctByDay: record(profile24, oneOf(WEEKDAYS)),
+      dailyAvg: record(num({ min: 0 }), oneOf(WEEKDAYS)),
+      maxShiftMins: num({ min: 0 }),
+    }),
+  ),
+  skills: arr(
+    obj({ id: str({ nonEmpty: true }), name: str(), sharePct: num({ min: 0, max: 100 }) }),
+  ),
+  dailyAvg: record(num({ min: 0 }), oneOf(WEEKDAYS)),
+  hourlyPctByDay: record(profile24, oneOf(WEEKDAYS)),
+  volumeHistory: record(num({ min: 0 }), isoDate),
+  forecastWeeks: num({ min: 1, max: 52, int: true }),
+  specialDays: record(
+    obj(
+      { name: str(), multiplier: num({ min: 0 }), hourlyPct: profile24, holiday: bool },
+      ["hourlyPct", "holiday"],
+    ),
+    isoDate,
+  ),
+  channels: record(channel, oneOf(CHANNELS)),
+  occupancy: num({ min: 0.01, max: 1 }),
+  serviceBuffer: num(),
+  staffingModel: oneOf(["erlangC", "erlangA"]),
+  asaTargetSec: num({ min: 0 }),
+  patienceSec: num({ min: 0 }),
+  siteTimezone: str({ nonEmpty: true }),
+  // view state older documents carry; the app keeps the date per browser now
+  selectedDate: isoDate,
+  selectedDay: oneOf(WEEKDAYS),
+  vacations: record(arr(leaveRange)),
+  autoPlanSettings: obj(AUTO_PLAN_FIELDS, Object.keys(AUTO_PLAN_FIELDS)),
+  laborRules: obj(LABOR_RULE_FIELDS, Object.keys(LABOR_RULE_FIELDS)),
+};
+
+/** every field is optional (the app falls back to its defaults); present ones must be valid */
+export function validateWorkspace(doc: unknown): SchemaIssue[] {
+  return obj(DOCUMENT_FIELDS, Object.keys(DOCUMENT_FIELDS))(doc, "");
+}
+
+/* ----- migrations: MIGRATIONS[n] turns a version n document into version n + 1 ----- */
+
+export type WorkspaceDoc = Record<string, unknown>;
+
+/** a day's work as stored since v2 (the app's DayBlock) */
+export interface StoredBlock {
+  active: boolean;
+  segments: Array<{ startMin: number; endMin: number }>;
+  activities: Array<{
+    type: (typeof ACTIVITY_TYPES)[number];
+    startMin: number;
+    mins: number;
+    pinned?: boolean;
+  }>;
+}
+
+/**
+ * Any stored block → the segment model, numbers coerced. v1 blocks were a single window
+ * (`startMin`/`endMin`, 09:00–17:00 if missing) with at most one break (`breakStartMin` /
+ * `breakMins` / `breakPinned`). The app runs this on everything it loads.
+ */
+export function upgradeBlock(raw: unknown): StoredBlock {
+  const b = isObject(raw) ? raw : {};
+  if (Array.isArray(b.segments)) {
+    return {
+      active: !!b.active,
+      segments: b.segments.filter(isObject).map((s) => ({
+        startMin: Number(s.startMin) || 0,
+        endMin: Number(s.endMin) || 0,
+      })),
+      activities: (Array.isArray(b.activities) ? b.activities : [])
+        .filter(isObject)
+        .map((x) => ({
+          type: ACTIVITY_TYPES.find((t) => t === x.type) ?? "break",
+          startMin: Number(x.startMin) || 0,
+          mins: Math.max(0, Number(x.mins) || 0),
+          ...(x.pinned ? { pinned: true } : {}),
+        })),
+    };
+  }
+  const mins = Number(b.breakMins) || 0;
+  return {
+    active: !!b.active,
+    segments: [{ startMin: Number(b.startMin ?? 540), endMin: Number(b.endMin ?? 1020) }],
+    activities:
+      mins > 0 && b.breakStartMin != null
+        ? [
+            {
+              type: mins >= 45 ? "lunch" : "break",
+              startMin: Number(b.breakStartMin),
+              mins,
+              ...(b.breakPinned ? { pinned: true } : {}),
+            },
+          ]
+        : [],
+  };
+}
+
+/** v1 kept one AHT / service level for the whole site; these seed every channel */
+export function legacyChannelSettings(doc: unknown): {
+  ahtMin?: number;
+  slPct?: number;
+  slSec?: number;
+} {
+  const d = isObject(doc) ? doc : {};
+  return {
+    ...(typeof d.ahtMin === "number" ? { ahtMin: d.ahtMin } : {}),
+    ...(typeof d.slTargetPct === "number" ? { slPct: d.slTargetPct } : {}),
+    ...(typeof d.slTargetSec === "number" ? { slSec: d.slTargetSec } : {}),
+  };
+}
+
+const mapValues = (o: unknown, fn: (v: unknown) => unknown) =>
+  isObject(o) ? Object.fromEntries(Object.entries(o).map(([k, v]) => [k, fn(v)])) : o;
+
+const MIGRATIONS: Record<number, (doc: WorkspaceDoc) => WorkspaceDoc> = {
+  // v1 → v2: single-window blocks become segments + activities; the global AHT / service
+  // level settings move onto the channels
+  1: (doc) => {
+    const out: WorkspaceDoc = { ...doc };
+    // blocks already in the new shape are left for validation to judge
+    const block = (b: unknown) => (isObject(b) && !Array.isArray(b.segments) ? upgradeBlock(b) : b);
+    const upgradeRoster = (r: unknown) => mapValues(r, (w) => mapValues(w, block));
+    if (doc.roster) out.roster = upgradeRoster(doc.roster);
+    if (doc.overrides) out.overrides = upgradeRoster(doc.overrides);
+    if (Array.isArray(doc.rotationGroups)) {
+      out.rotationGroups = doc.rotationGroups.map((g: unknown) =>
+        isObject(g) && Array.isArray(g.weeks) ? { ...g, weeks: g.weeks.map(upgradeRoster) } : g,
+      );
+    }
+    const legacy = legacyChannelSettings(doc);
+    if (Object.keys(legacy).length && !isObject(doc.channels)) {
+      // the app fills in the rest of each channel from its defaults
+      out.channels = Object.fromEntries(CHANNELS.map((ch) => [ch, legacy]));
+    }
+    delete out.ahtMin;
+    delete out.slTargetPct;
+    delete out.slTargetSec;
+    return out;
+  },
+};
+
+/**
+ * Run the migrations from the document's version up to WORKSPACE_VERSION. A missing
+ * version is 1 (the first stored shape); a version newer than this build is an error.
+ */
+export function upgradeWorkspace(doc: WorkspaceDoc): { doc: WorkspaceDoc; issues: SchemaIssue[] } {
+  let version = doc.version === undefined ? 1 : Number(doc.version);
+  if (!Number.isInteger(version) || version < 1) {
+    return { doc, issues: issue("version", "expected a whole number ≥ 1") };
+  }
+  if (version > WORKSPACE_VERSION) {
+    return {
+      doc,
+      issues: issue("version", `${version} is newer than this app (${WORKSPACE_VERSION})`),
+    };
+  }
+  let out = doc;
+  while (version < WORKSPACE_VERSION) {
+    out = { ...MIGRATIONS[version](out), version: version + 1 };
+    version++;
+  }
+  return { doc: out, issues: [] };
+}
+
+/** upgrade, then validate; what the loader and the function's PUT both run */
+export function checkWorkspace(doc: unknown): { doc: WorkspaceDoc; issues: SchemaIssue[] } {
+  if (!isObject(doc)) return { doc: {}, issues: issue("", "expected an object") };
+  const upgraded = upgradeWorkspace(doc);
+  if (upgraded.issues.length) return upgraded;
+  return { doc: upgraded.doc, issues: validateWorkspace(upgraded.doc) };
+}
+
+/**
+ * Agents whose decided leave (approved, rejected, or without a status) or leave entitlement
+ * differs between two documents: what only an admin may change. Removing or renaming an agent
+ * drops its decided leave, so that counts too.
+ */
+export function leaveDecisionChanges(before: unknown, after: unknown): string[] {
+  const leave = (doc: unknown) =>
+    (isObject(doc) && isObject(doc.vacations) ? doc.vacations : {}) as Record<string, unknown>;
+  const entitlements = (doc: unknown) =>
+    new Map<string, unknown>(
+      (isObject(doc) && Array.isArray(doc.agents) ? doc.agents : [])
+        .filter(isObject)
+        .map((x) => [String(x.name), x.annualLeaveDays]),
+    );
+  const decided = (list: unknown) =>
+    (Array.isArray(list) ? list : [])
+      .filter((r) => !isObject(r) || r.status !== "pending")
+      .map((r) => JSON.stringify(r, Object.keys(r ?? {}).sort()))
+      .sort()
+      .join("\n");
+  const a = leave(before);
+  const b = leave(after);
+  const ea = entitlements(before);
+  const eb = entitlements(after);
+  // an agent removed along with its entitlement is not an entitlement change (its leave is)
+  const entitlementChanged = (name: string) =>
+    eb.has(name) && eb.get(name) !== ea.get(name);
+  return [...new Set([...Object.keys(a), ...Object.keys(b), ...eb.keys()])]
+    .filter((name) => decided(a[name]) !== decided(b[name]) || entitlementChanged(name))
+    .sort();
+}